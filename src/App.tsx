@@ -8,6 +8,18 @@ import { ProtectedRoute } from "@/components/ProtectedRoute";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Users from "./pages/Users";
+import Categories from "./pages/Categories";
+import Accounts from "./pages/Accounts";
+import AuditLog from "./pages/AuditLog";
+import Trash from "./pages/Trash";
+import Periods from "./pages/Periods";
+import Projection from "./pages/Projection";
+import Contacts from "./pages/Contacts";
+import ContactStatement from "./pages/ContactStatement";
+import CashRegister from "./pages/CashRegister";
+import ResetPassword from "./pages/ResetPassword";
+import ChangePassword from "./pages/ChangePassword";
+import TwoFactor from "./pages/TwoFactor";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,6 +33,7 @@ const App = () => (
         <BrowserRouter>
           <Routes>
             <Route path="/auth" element={<Auth />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
             <Route
               path="/"
               element={
@@ -37,6 +50,94 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/categories"
+              element={
+                <ProtectedRoute>
+                  <Categories />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/accounts"
+              element={
+                <ProtectedRoute>
+                  <Accounts />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/audit"
+              element={
+                <ProtectedRoute>
+                  <AuditLog />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/trash"
+              element={
+                <ProtectedRoute>
+                  <Trash />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/periods"
+              element={
+                <ProtectedRoute>
+                  <Periods />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/projection"
+              element={
+                <ProtectedRoute>
+                  <Projection />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/contacts"
+              element={
+                <ProtectedRoute>
+                  <Contacts />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/contacts/:id"
+              element={
+                <ProtectedRoute>
+                  <ContactStatement />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/cash-register"
+              element={
+                <ProtectedRoute>
+                  <CashRegister />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/change-password"
+              element={
+                <ProtectedRoute>
+                  <ChangePassword />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/two-factor"
+              element={
+                <ProtectedRoute>
+                  <TwoFactor />
+                </ProtectedRoute>
+              }
+            />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
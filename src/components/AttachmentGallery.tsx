@@ -0,0 +1,95 @@
+import { useRef } from 'react';
+import { FileText, Loader2, Paperclip, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ATTACHMENT_ACCEPT, formatFileSize, isImageAttachment } from '@/lib/attachments';
+import { openAttachment, useAttachments } from '@/hooks/useAttachments';
+
+interface AttachmentGalleryProps {
+  transactionId: string | null;
+  /** Shows the add and remove buttons */
+  canManage?: boolean;
+}
+
+// Thumbnails of the files attached to a transaction; each opens in a new tab
+export const AttachmentGallery = ({ transactionId, canManage = false }: AttachmentGalleryProps) => {
+  const { attachments, previews, loading, uploading, upload, remove } = useAttachments(transactionId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    await upload(Array.from(files));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum comprovante anexado.</p>
+      ) : (
+        <div className="grid grid-cols-3 gap-3">
+          {attachments.map((attachment) => (
+            <div key={attachment.id} className="group relative">
+              <button
+                type="button"
+                className="flex aspect-square w-full items-center justify-center overflow-hidden rounded-lg border border-border bg-muted/50 transition-colors hover:border-primary"
+                title={attachment.fileName}
+                onClick={() => openAttachment(attachment)}
+              >
+                {isImageAttachment(attachment.contentType) && previews[attachment.id] ? (
+                  <img src={previews[attachment.id]} alt={attachment.fileName} className="h-full w-full object-cover" />
+                ) : (
+                  <FileText className="h-8 w-8 text-muted-foreground" />
+                )}
+              </button>
+              <p className="mt-1 truncate text-xs text-foreground">{attachment.fileName}</p>
+              <p className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</p>
+              {canManage && (
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  className="absolute right-1 top-1 h-6 w-6 opacity-0 transition-opacity group-hover:opacity-100"
+                  onClick={() => remove(attachment.id)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={uploading}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
+            Anexar comprovante
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
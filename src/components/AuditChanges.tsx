@@ -0,0 +1,34 @@
+import { Account, AuditEntry, Category } from '@/types/transaction';
+import { getAuditChanges } from '@/lib/audit';
+
+interface AuditChangesProps {
+  entry: AuditEntry;
+  categories?: Category[];
+  accounts?: Account[];
+}
+
+export const AuditChanges = ({ entry, categories, accounts }: AuditChangesProps) => {
+  const changes = getAuditChanges(entry, { categories, accounts });
+  if (changes.length === 0) return null;
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+      {changes.map((change) => (
+        <div key={change.label} className="contents">
+          <dt className="text-muted-foreground">{change.label}</dt>
+          <dd className="min-w-0 break-words">
+            {entry.action === 'update' ? (
+              <>
+                <span className="text-muted-foreground line-through">{change.before}</span>
+                {' → '}
+                <span className="text-foreground">{change.after}</span>
+              </>
+            ) : (
+              <span className="text-foreground">{entry.after === null ? change.before : change.after}</span>
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
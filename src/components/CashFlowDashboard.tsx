@@ -0,0 +1,225 @@
+import { format, parse } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { useCashFlowStats } from '@/hooks/useCashFlowStats';
+import { CashFlowCounterparty, Filters, paymentMethodLabels } from '@/types/transaction';
+
+interface CashFlowDashboardProps {
+  filters: Filters;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+};
+
+// Axis ticks only need the order of magnitude, e.g. "R$ 12 mil"
+const formatCompactCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+    notation: 'compact',
+  }).format(value);
+};
+
+const incomeExpenseConfig = {
+  income: { label: 'Entradas', color: 'hsl(var(--success))' },
+  expense: { label: 'Saídas', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+const balanceConfig = {
+  balance: { label: 'Saldo', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+// With filters that pick entries the line is not an account balance
+const filteredBalanceConfig = {
+  balance: { label: 'Resultado', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+// Tooltip rows with the series color, its label and the amount in reais
+const currencyTooltip = (config: ChartConfig) => (
+  <ChartTooltipContent
+    formatter={(value, name, item) => (
+      <div className="flex flex-1 items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <div className="h-2.5 w-2.5 shrink-0 rounded-[2px]" style={{ backgroundColor: item.color }} />
+          <span className="text-muted-foreground">{config[name as string]?.label || name}</span>
+        </div>
+        <span className="font-mono font-medium tabular-nums text-foreground">{formatCurrency(Number(value))}</span>
+      </div>
+    )}
+  />
+);
+
+const CounterpartyRanking = ({
+  title,
+  items,
+  variant,
+}: {
+  title: string;
+  items: CashFlowCounterparty[];
+  variant: 'success' | 'destructive';
+}) => {
+  const max = Math.max(...items.map((item) => item.total), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Nenhum lançamento pago no período.</p>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item) => (
+              <div key={item.name} className="space-y-1">
+                <div className="flex items-center justify-between gap-3 text-sm">
+                  <span className="truncate text-foreground">{item.name}</span>
+                  <span className="shrink-0 font-medium text-foreground">{formatCurrency(item.total)}</span>
+                </div>
+                <div className="h-2 overflow-hidden rounded-full bg-muted">
+                  <div
+                    className={variant === 'success' ? 'h-full bg-success' : 'h-full bg-destructive'}
+                    style={{ width: `${max > 0 ? (item.total / max) * 100 : 0}%` }}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {item.count} {item.count === 1 ? 'lançamento' : 'lançamentos'}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export const CashFlowDashboard = ({ filters }: CashFlowDashboardProps) => {
+  const { stats, loading } = useCashFlowStats(filters);
+
+  if (!stats) {
+    return (
+      <div className="flex justify-center py-12">
+        {loading && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+      </div>
+    );
+  }
+
+  const months = stats.months.map((m) => ({
+    ...m,
+    label: format(parse(m.month, 'yyyy-MM', new Date()), 'MMM/yy', { locale: ptBR }),
+  }));
+  const days = stats.days.map((d) => ({ ...d, label: format(d.date, 'dd/MM/yy') }));
+  const runningConfig = stats.accountBalance ? balanceConfig : filteredBalanceConfig;
+  const paymentMethods = stats.paymentMethods.map((p) => ({ ...p, label: paymentMethodLabels[p.paymentMethod] }));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Entradas x Saídas por mês</CardTitle>
+            <CardDescription>Lançamentos pagos</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {months.length === 0 ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">Nenhum lançamento pago no período.</p>
+            ) : (
+              <ChartContainer config={incomeExpenseConfig} className="h-64 w-full">
+                <BarChart data={months}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={72} tickFormatter={formatCompactCurrency} />
+                  <ChartTooltip content={currencyTooltip(incomeExpenseConfig)} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="income" fill="var(--color-income)" radius={4} />
+                  <Bar dataKey="expense" fill="var(--color-expense)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {stats.accountBalance ? 'Saldo acumulado' : 'Resultado acumulado'}
+            </CardTitle>
+            <CardDescription>
+              {stats.accountBalance
+                ? `Partindo do saldo de ${formatCurrency(stats.openingBalance)} antes do período, com transferências`
+                : `Só os lançamentos filtrados, partindo de ${formatCurrency(stats.openingBalance)} antes do período`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {days.length === 0 ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">Nenhum lançamento pago no período.</p>
+            ) : (
+              <ChartContainer config={runningConfig} className="h-64 w-full">
+                <AreaChart data={days}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis tickLine={false} axisLine={false} width={72} tickFormatter={formatCompactCurrency} />
+                  <ChartTooltip content={currencyTooltip(runningConfig)} />
+                  <Area
+                    dataKey="balance"
+                    type="stepAfter"
+                    stroke="var(--color-balance)"
+                    fill="var(--color-balance)"
+                    fillOpacity={0.15}
+                  />
+                </AreaChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Por forma de pagamento</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {paymentMethods.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">Nenhum lançamento pago no período.</p>
+          ) : (
+            <ChartContainer
+              config={incomeExpenseConfig}
+              className="w-full"
+              style={{ height: Math.max(paymentMethods.length * 48, 160) }}
+            >
+              <BarChart data={paymentMethods} layout="vertical">
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={formatCompactCurrency} />
+                <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={120} />
+                <ChartTooltip content={currencyTooltip(incomeExpenseConfig)} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="income" fill="var(--color-income)" radius={4} />
+                <Bar dataKey="expense" fill="var(--color-expense)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <CounterpartyRanking title="Principais clientes" items={stats.topClients} variant="success" />
+        <CounterpartyRanking title="Principais fornecedores" items={stats.topSuppliers} variant="destructive" />
+      </div>
+    </div>
+  );
+};
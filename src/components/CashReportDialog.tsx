@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CalendarIcon, FileDown, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { downloadFile } from '@/lib/export';
+import { renderCashReportPdf } from '@/lib/cashReport';
+import { getCategoryPath } from '@/lib/categories';
+import { useCashReport } from '@/hooks/useCashReport';
+import { Account, Category, Filters, paymentMethodLabels } from '@/types/transaction';
+
+interface CashReportDialogProps {
+  /** The report lists the entries matching these filters; its period is picked in the dialog */
+  filters: Filters;
+  categories: Category[];
+  accounts: Account[];
+}
+
+// Describes the filters that narrow the report besides the period. The
+// status filter is left out since the report only lists paid entries.
+const describeFilters = (filters: Filters, categories: Category[], accounts: Account[]) =>
+  [
+    filters.accountId !== 'all' && `Conta: ${accounts.find((a) => a.id === filters.accountId)?.name ?? '—'}`,
+    filters.type !== 'all' && (filters.type === 'income' ? 'Somente entradas' : 'Somente saídas'),
+    filters.categoryId !== 'all' && `Categoria: ${getCategoryPath(categories, filters.categoryId)}`,
+    filters.paymentMethod !== 'all' && `Forma: ${paymentMethodLabels[filters.paymentMethod]}`,
+    filters.search.trim() && `Busca: "${filters.search.trim()}"`,
+  ].filter((label): label is string => !!label);
+
+export const CashReportDialog = ({ filters, categories, accounts }: CashReportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [startDate, setStartDate] = useState<Date | undefined>();
+  const [endDate, setEndDate] = useState<Date | undefined>();
+  const [startCalendarOpen, setStartCalendarOpen] = useState(false);
+  const [endCalendarOpen, setEndCalendarOpen] = useState(false);
+  const { loading, loadReport } = useCashReport();
+
+  // Starts from the period being filtered, or the current month
+  useEffect(() => {
+    if (open) {
+      setStartDate(filters.startDate ?? startOfMonth(new Date()));
+      setEndDate(filters.endDate ?? endOfMonth(new Date()));
+    }
+  }, [open, filters.startDate, filters.endDate]);
+
+  const filterLabels = describeFilters(filters, categories, accounts);
+  const invalidRange = !!startDate && !!endDate && startDate > endDate;
+
+  const handleDownload = async () => {
+    if (!startDate || !endDate || invalidRange) return;
+
+    const report = await loadReport(filters, startDate, endDate, filterLabels);
+    if (!report) return;
+
+    downloadFile(
+      renderCashReportPdf(report),
+      `relatorio-caixa-${format(startDate, 'yyyy-MM-dd')}-a-${format(endDate, 'yyyy-MM-dd')}.pdf`,
+      'application/pdf'
+    );
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <FileDown className="h-4 w-4" />
+          <span className="hidden sm:inline">Relatório</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold">Relatório de Caixa</DialogTitle>
+          <DialogDescription>
+            Saldo inicial, lançamentos pagos dia a dia, totais por forma de pagamento e saldo final, em PDF.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 pt-2">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>De</Label>
+              <Popover open={startCalendarOpen} onOpenChange={setStartCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn('w-full justify-start text-left font-normal', !startDate && 'text-muted-foreground')}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {startDate ? format(startDate, 'dd/MM/yyyy') : 'Data inicial'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={startDate}
+                    onSelect={(date) => {
+                      setStartDate(date);
+                      setStartCalendarOpen(false);
+                    }}
+                    locale={ptBR}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="space-y-2">
+              <Label>Até</Label>
+              <Popover open={endCalendarOpen} onOpenChange={setEndCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn('w-full justify-start text-left font-normal', !endDate && 'text-muted-foreground')}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {endDate ? format(endDate, 'dd/MM/yyyy') : 'Data final'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={endDate}
+                    onSelect={(date) => {
+                      setEndDate(date);
+                      setEndCalendarOpen(false);
+                    }}
+                    locale={ptBR}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+          {invalidRange && <p className="text-sm text-destructive">A data inicial deve ser anterior à final.</p>}
+
+          {filterLabels.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Filtros aplicados: {filterLabels.join(' · ')}
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              className="flex-1 gap-2"
+              onClick={handleDownload}
+              disabled={loading || !startDate || !endDate || invalidRange}
+            >
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+              Baixar PDF
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Check, ChevronsUpDown, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { cn } from '@/lib/utils';
+import { formatDocument, onlyDigits } from '@/lib/documents';
+import { Contact } from '@/types/transaction';
+
+interface ContactComboboxProps {
+  /** Name shown on the entry, picked from the contacts or typed freely */
+  value: string;
+  contactId: string | null;
+  contacts: Contact[];
+  onChange: (name: string, contact: Contact | null) => void;
+  placeholder?: string;
+  id?: string;
+}
+
+const MAX_NAME_LENGTH = 100;
+
+// Case and accent insensitive, so "joao" finds "João"
+const normalize = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+export const ContactCombobox = ({ value, contactId, contacts, onChange, placeholder, id }: ContactComboboxProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const term = normalize(search);
+  const digits = onlyDigits(search);
+  const matches = contacts.filter(
+    (contact) =>
+      !term ||
+      normalize(contact.name).includes(term) ||
+      (digits.length > 0 && contact.document?.includes(digits))
+  );
+  const typedName = search.trim().slice(0, MAX_NAME_LENGTH);
+  const hasExactMatch = contacts.some((contact) => normalize(contact.name) === term);
+
+  const select = (name: string, contact: Contact | null) => {
+    onChange(name, contact);
+    setSearch('');
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn('truncate', !value && 'text-muted-foreground')}>{value || placeholder}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Buscar por nome ou CPF/CNPJ..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>Nenhum contato encontrado.</CommandEmpty>
+            {typedName && !hasExactMatch && (
+              <CommandGroup>
+                <CommandItem value={`typed:${typedName}`} onSelect={() => select(typedName, null)}>
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  Usar "{typedName}" sem cadastro
+                </CommandItem>
+              </CommandGroup>
+            )}
+            {matches.length > 0 && (
+              <CommandGroup heading="Contatos">
+                {matches.map((contact) => (
+                  <CommandItem key={contact.id} value={contact.id} onSelect={() => select(contact.name, contact)}>
+                    <Check className={cn('mr-2 h-4 w-4', contact.id === contactId ? 'opacity-100' : 'opacity-0')} />
+                    <div className="min-w-0">
+                      <p className="truncate">{contact.name}</p>
+                      {contact.document && (
+                        <p className="text-xs text-muted-foreground">{formatDocument(contact.document)}</p>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
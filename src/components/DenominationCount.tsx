@@ -0,0 +1,62 @@
+import { Input } from '@/components/ui/input';
+import { DENOMINATIONS, countTotal, formatDenomination } from '@/lib/cashRegister';
+import { CashCounts } from '@/types/transaction';
+
+interface DenominationCountProps {
+  counts: CashCounts;
+  onChange: (counts: CashCounts) => void;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+};
+
+// Quantity of each note and coin in the till, with the resulting total
+export const DenominationCount = ({ counts, onChange }: DenominationCountProps) => {
+  const groups = [
+    { title: 'Cédulas', denominations: DENOMINATIONS.filter((d) => d.kind === 'note') },
+    { title: 'Moedas', denominations: DENOMINATIONS.filter((d) => d.kind === 'coin') },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group) => (
+        <div key={group.title} className="space-y-2">
+          <p className="text-sm font-medium text-muted-foreground">{group.title}</p>
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+            {group.denominations.map((denomination) => (
+              <label
+                key={denomination.key}
+                className="flex items-center gap-2 rounded-md border border-border px-2 py-1.5"
+              >
+                <span className="w-16 shrink-0 text-sm font-medium text-foreground">
+                  {formatDenomination(denomination)}
+                </span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={1}
+                  inputMode="numeric"
+                  className="h-8"
+                  value={counts[denomination.key] || ''}
+                  placeholder="0"
+                  onChange={(e) => {
+                    const quantity = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                    onChange({ ...counts, [denomination.key]: quantity });
+                  }}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center justify-between rounded-lg bg-muted/50 px-3 py-2">
+        <span className="text-sm font-medium text-foreground">Total contado</span>
+        <span className="font-semibold text-foreground">{formatCurrency(countTotal(counts))}</span>
+      </div>
+    </div>
+  );
+};
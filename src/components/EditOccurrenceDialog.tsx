@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { NewTransaction, Transaction } from '@/types/transaction';
+
+type OccurrenceChanges = Pick<NewTransaction, 'clientSupplier' | 'amount' | 'description'>;
+
+type EditScope = 'single' | 'future';
+
+interface EditOccurrenceDialogProps {
+  transaction: Transaction | null;
+  onOpenChange: (open: boolean) => void;
+  onUpdate: (id: string, changes: OccurrenceChanges) => Promise<boolean>;
+  onUpdateFuture: (id: string, changes: OccurrenceChanges) => Promise<boolean>;
+}
+
+export const EditOccurrenceDialog = ({
+  transaction,
+  onOpenChange,
+  onUpdate,
+  onUpdateFuture,
+}: EditOccurrenceDialogProps) => {
+  const [clientSupplier, setClientSupplier] = useState('');
+  const [amount, setAmount] = useState('');
+  const [description, setDescription] = useState('');
+  const [scope, setScope] = useState<EditScope>('single');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (transaction) {
+      setClientSupplier(transaction.clientSupplier);
+      setAmount(String(transaction.amount));
+      setDescription(transaction.description);
+      setScope('single');
+    }
+  }, [transaction]);
+
+  const parsedAmount = Number(amount.replace(',', '.'));
+  const isValid = clientSupplier.trim().length > 0 && description.trim().length > 0 && parsedAmount > 0;
+
+  const handleConfirm = async () => {
+    if (!transaction || !isValid) return;
+
+    const changes = {
+      clientSupplier: clientSupplier.trim(),
+      amount: parsedAmount,
+      description: description.trim(),
+    };
+
+    setIsSubmitting(true);
+    const success = scope === 'future'
+      ? await onUpdateFuture(transaction.id, changes)
+      : await onUpdate(transaction.id, changes);
+    setIsSubmitting(false);
+
+    if (success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={transaction !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Editar recorrência</DialogTitle>
+          <DialogDescription>
+            Ocorrências já pagas não são alteradas ao editar as próximas.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="occurrence-client-supplier">Cliente/Fornecedor</Label>
+            <Input
+              id="occurrence-client-supplier"
+              value={clientSupplier}
+              maxLength={100}
+              onChange={(e) => setClientSupplier(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="occurrence-amount">Valor (R$)</Label>
+            <Input
+              id="occurrence-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="occurrence-description">Descrição</Label>
+            <Textarea
+              id="occurrence-description"
+              value={description}
+              maxLength={500}
+              className="resize-none"
+              rows={2}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <RadioGroup value={scope} onValueChange={(value) => setScope(value as EditScope)}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="single" id="scope-single" />
+              <Label htmlFor="scope-single" className="cursor-pointer font-normal">
+                Somente esta ocorrência
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="future" id="scope-future" />
+              <Label htmlFor="scope-future" className="cursor-pointer font-normal">
+                Esta e as próximas
+              </Label>
+            </div>
+          </RadioGroup>
+        </div>
+        <div className="flex gap-3 pt-2">
+          <Button type="button" variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button className="flex-1" onClick={handleConfirm} disabled={isSubmitting || !isValid}>
+            {isSubmitting ? 'Salvando...' : 'Salvar'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Transaction } from '@/types/transaction';
+import { downloadFile, toCsv, toXlsx } from '@/lib/export';
+
+interface ExportMenuProps {
+  disabled?: boolean;
+  /** Loads every entry matching the active filters, not only the pages on screen */
+  loadTransactions: () => Promise<Transaction[] | null>;
+}
+
+type ExportFormat = 'csv' | 'xlsx';
+
+export const ExportMenu = ({ disabled = false, loadTransactions }: ExportMenuProps) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setIsExporting(true);
+    const transactions = await loadTransactions();
+    setIsExporting(false);
+    if (!transactions) return;
+
+    const fileName = `transacoes-${format(new Date(), 'yyyy-MM-dd')}`;
+    if (exportFormat === 'csv') {
+      downloadFile(toCsv(transactions), `${fileName}.csv`, 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(
+        toXlsx(transactions),
+        `${fileName}.xlsx`,
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={disabled || isExporting}>
+          {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          Exportar
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport('csv')}>
+          <FileText className="mr-2 h-4 w-4" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          Excel (XLSX)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
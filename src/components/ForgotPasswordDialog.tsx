@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Loader2, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { dbCall } from '@/lib/db';
+import { toast } from '@/hooks/use-toast';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Emails a reset link. The answer is the same whether or not the email has
+// an account, so the dialog never says which.
+export const ForgotPasswordDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setEmail('');
+      setSent(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    const { error } = await dbCall('requestPasswordReset', { email: email.trim() });
+    setIsSending(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao enviar link',
+        description: error,
+      });
+    } else {
+      setSent(true);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="link" className="h-auto w-full p-0 text-sm">
+          Esqueceu a senha?
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Redefinir senha</DialogTitle>
+          <DialogDescription>
+            Informe o email da sua conta para receber um link de redefinição. O link vale por 1 hora.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sent ? (
+          <div className="space-y-4 pt-2">
+            <p className="text-sm text-muted-foreground">
+              Se houver uma conta ativa para {email.trim()}, um email com o link foi enviado. Verifique também a
+              caixa de spam.
+            </p>
+            <Button className="w-full" onClick={() => setOpen(false)}>
+              Concluir
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label htmlFor="forgot-email">Email</Label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="forgot-email"
+                  type="email"
+                  placeholder="seu@email.com"
+                  className="pl-10"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button type="submit" className="w-full" disabled={isSending || !EMAIL_PATTERN.test(email.trim())}>
+              {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Enviar link
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Copy, Loader2, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { UserAccessFields } from '@/components/UserAccessFields';
+import { AppRole, PermissionProfile } from '@/types/transaction';
+import { toast } from '@/hooks/use-toast';
+
+interface InviteUserDialogProps {
+  profiles: PermissionProfile[];
+  /** Resolves to the invitation link, or null when it could not be created */
+  onInvite: (email: string, roles: AppRole[], profileIds: string[]) => Promise<string | null>;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const InviteUserDialog = ({ profiles, onInvite }: InviteUserDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [roles, setRoles] = useState<AppRole[]>(['view_only']);
+  const [profileIds, setProfileIds] = useState<string[]>([]);
+  const [link, setLink] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setEmail('');
+      setRoles(['view_only']);
+      setProfileIds([]);
+      setLink(null);
+    }
+  };
+
+  const handleInvite = async () => {
+    setIsSaving(true);
+    setLink(await onInvite(email.trim(), roles, profileIds));
+    setIsSaving(false);
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({ title: 'Link copiado!' });
+    } catch {
+      toast({ variant: 'destructive', title: 'Não foi possível copiar', description: 'Selecione e copie o link.' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" className="gap-2">
+          <UserPlus className="h-4 w-4" />
+          Convidar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Convidar Usuário</DialogTitle>
+          <DialogDescription>
+            O convite gera um link de cadastro que vale uma única vez, por 7 dias, para o email informado.
+          </DialogDescription>
+        </DialogHeader>
+
+        {link ? (
+          <div className="space-y-4 pt-2">
+            <p className="text-sm text-muted-foreground">
+              Envie este link para {email.trim()}. Ele não será exibido novamente.
+            </p>
+            <div className="flex gap-2">
+              <Input value={link} readOnly onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" title="Copiar" onClick={handleCopy}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button className="w-full" onClick={() => setOpen(false)}>
+              Concluir
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-5 pt-2">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={email}
+                placeholder="nome@empresa.com"
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+
+            <UserAccessFields
+              roles={roles}
+              profileIds={profileIds}
+              profiles={profiles}
+              onRolesChange={setRoles}
+              onProfileIdsChange={setProfileIds}
+            />
+
+            <div className="flex gap-3">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setOpen(false)}>
+                Cancelar
+              </Button>
+              <Button
+                className="flex-1 gap-2"
+                onClick={handleInvite}
+                disabled={
+                  isSaving || !EMAIL_PATTERN.test(email.trim()) || (roles.length === 0 && profileIds.length === 0)
+                }
+              >
+                {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+                Gerar link
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { PermissionProfile, ProfilePermission, profilePermissionLabels } from '@/types/transaction';
+
+interface PermissionProfileDialogProps {
+  open: boolean;
+  /** Profile being edited, or null to create one */
+  profile: PermissionProfile | null;
+  onClose: () => void;
+  onSave: (profile: Pick<PermissionProfile, 'name' | 'permissions'>) => Promise<boolean>;
+}
+
+export const PermissionProfileDialog = ({ open, profile, onClose, onSave }: PermissionProfileDialogProps) => {
+  const [name, setName] = useState('');
+  const [permissions, setPermissions] = useState<ProfilePermission[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(profile?.name ?? '');
+      setPermissions(profile?.permissions ?? ['view']);
+    }
+  }, [open, profile]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await onSave({ name: name.trim(), permissions });
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{profile ? 'Editar Perfil' : 'Novo Perfil'}</DialogTitle>
+          <DialogDescription>
+            Todo perfil permite visualizar os lançamentos. Alterações valem na hora para quem tem o perfil.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">Nome</Label>
+            <Input
+              id="profile-name"
+              value={name}
+              maxLength={60}
+              placeholder="Ex.: Caixa, Contador"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-2">
+            {(Object.entries(profilePermissionLabels) as [ProfilePermission, string][]).map(([permission, label]) => (
+              <div key={permission} className="flex items-center gap-2">
+                <Checkbox
+                  id={`profile-permission-${permission}`}
+                  checked={permissions.includes(permission)}
+                  onCheckedChange={(checked) =>
+                    setPermissions(
+                      checked === true ? [...permissions, permission] : permissions.filter((p) => p !== permission)
+                    )
+                  }
+                />
+                <Label htmlFor={`profile-permission-${permission}`} className="cursor-pointer font-normal">
+                  {label}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-3">
+            <Button type="button" variant="outline" className="flex-1" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={handleSave}
+              disabled={isSaving || !name.trim() || permissions.length === 0}
+            >
+              {isSaving ? 'Salvando...' : 'Salvar'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
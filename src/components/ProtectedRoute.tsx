@@ -1,4 +1,4 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { Loader2 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 
@@ -7,7 +7,8 @@ interface ProtectedRouteProps {
 }
 
 export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  const { user, loading } = useAuth();
+  const { user, loading, twoFactorSetupRequired } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -21,5 +22,10 @@ export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     return <Navigate to="/auth" replace />;
   }
 
+  // The server refuses everything else until 2FA is enabled
+  if (twoFactorSetupRequired && location.pathname !== '/two-factor') {
+    return <Navigate to="/two-factor" replace />;
+  }
+
   return <>{children}</>;
 };
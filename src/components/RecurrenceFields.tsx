@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { RecurrenceFrequency, RecurrenceRule, recurrenceFrequencyLabels } from '@/types/transaction';
+
+type EndMode = 'never' | 'date' | 'count';
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceRule;
+  onChange: (value: RecurrenceRule) => void;
+}
+
+export const RecurrenceFields = ({ value, onChange }: RecurrenceFieldsProps) => {
+  const [calendarOpen, setCalendarOpen] = useState(false);
+
+  const endMode: EndMode = value.endDate ? 'date' : value.count ? 'count' : 'never';
+
+  const handleEndModeChange = (mode: EndMode) => {
+    onChange({
+      ...value,
+      endDate: mode === 'date' ? value.endDate || new Date() : null,
+      count: mode === 'count' ? value.count || 12 : null,
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border p-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Frequência</Label>
+          <Select
+            value={value.frequency}
+            onValueChange={(frequency) => onChange({ ...value, frequency: frequency as RecurrenceFrequency })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(recurrenceFrequencyLabels).map(([frequency, label]) => (
+                <SelectItem key={frequency} value={frequency}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="recurrence-interval">
+            {value.frequency === 'daily' ? 'Dias' : 'Repetir a cada'}
+          </Label>
+          <Input
+            id="recurrence-interval"
+            type="number"
+            min="1"
+            step="1"
+            value={value.interval}
+            onChange={(e) => onChange({ ...value, interval: Math.max(1, Number(e.target.value) || 1) })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Termina</Label>
+        <Select value={endMode} onValueChange={(mode) => handleEndModeChange(mode as EndMode)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="never">Nunca</SelectItem>
+            <SelectItem value="date">Em uma data</SelectItem>
+            <SelectItem value="count">Após um número de vezes</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {endMode === 'date' && (
+        <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="outline"
+              className={cn('w-full justify-start text-left font-normal', !value.endDate && 'text-muted-foreground')}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {value.endDate
+                ? format(value.endDate, "dd 'de' MMMM 'de' yyyy", { locale: ptBR })
+                : 'Selecione a data final'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={value.endDate || undefined}
+              onSelect={(date) => {
+                if (date) {
+                  onChange({ ...value, endDate: date });
+                  setCalendarOpen(false);
+                }
+              }}
+              locale={ptBR}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+
+      {endMode === 'count' && (
+        <div className="space-y-2">
+          <Label htmlFor="recurrence-count">Número de ocorrências</Label>
+          <Input
+            id="recurrence-count"
+            type="number"
+            min="1"
+            step="1"
+            value={value.count || ''}
+            onChange={(e) => onChange({ ...value, count: Math.max(1, Number(e.target.value) || 1) })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Transaction } from '@/types/transaction';
+
+interface SettleTransactionDialogProps {
+  transaction: Transaction | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (id: string, paidAt: Date) => Promise<boolean>;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+};
+
+export const SettleTransactionDialog = ({ transaction, onOpenChange, onConfirm }: SettleTransactionDialogProps) => {
+  const [paidAt, setPaidAt] = useState<Date>(new Date());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (transaction) setPaidAt(new Date());
+  }, [transaction]);
+
+  const handleConfirm = async () => {
+    if (!transaction) return;
+
+    setIsSubmitting(true);
+    const success = await onConfirm(transaction.id, paidAt);
+    setIsSubmitting(false);
+
+    if (success) {
+      onOpenChange(false);
+    }
+  };
+
+  const isIncome = transaction?.type === 'income';
+
+  return (
+    <Dialog open={transaction !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isIncome ? 'Confirmar recebimento' : 'Confirmar pagamento'}</DialogTitle>
+          {transaction && (
+            <DialogDescription>
+              {transaction.clientSupplier} · {formatCurrency(transaction.amount)} · vencimento em{' '}
+              {format(transaction.dueDate, 'dd/MM/yyyy')}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Data {isIncome ? 'do recebimento' : 'do pagamento'}</p>
+          <div className="flex justify-center rounded-lg border border-border">
+            <Calendar
+              mode="single"
+              selected={paidAt}
+              onSelect={(date) => date && setPaidAt(date)}
+              locale={ptBR}
+              initialFocus
+            />
+          </div>
+          <p className="text-center text-sm text-muted-foreground">
+            {format(paidAt, "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+          </p>
+        </div>
+        <div className="flex gap-3 pt-2">
+          <Button type="button" variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button className="flex-1" onClick={handleConfirm} disabled={isSubmitting}>
+            {isSubmitting ? 'Salvando...' : 'Confirmar'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,471 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { FileUp, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import {
+  CsvDateFormat,
+  CsvLayout,
+  StatementRow,
+  findDuplicate,
+  getStoredCsvLayout,
+  parseCsv,
+  parseCsvRecords,
+  parseOfx,
+  storeCsvLayout,
+} from '@/lib/statementImport';
+import { Account, Filters, NewTransaction, PaymentMethod, Transaction, paymentMethodLabels } from '@/types/transaction';
+import { toast } from '@/hooks/use-toast';
+
+type Step = 'upload' | 'layout' | 'review';
+
+interface ReviewRow extends StatementRow {
+  duplicate: Transaction | undefined;
+  selected: boolean;
+}
+
+interface StatementImportDialogProps {
+  /** Loads the existing entries used for duplicate detection */
+  findTransactions: (filters: Partial<Filters>) => Promise<Transaction[] | null>;
+  accounts: Account[];
+  canInsertIncome: boolean;
+  canInsertExpense: boolean;
+  onImport: (batch: NewTransaction[]) => Promise<boolean>;
+}
+
+const NO_COLUMN = '-1';
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+};
+
+// Brazilian banks still export statements in Latin-1
+const readFile = async (file: File) => {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
+
+export const StatementImportDialog = ({
+  findTransactions,
+  accounts,
+  canInsertIncome,
+  canInsertExpense,
+  onImport,
+}: StatementImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('upload');
+  const [csvContent, setCsvContent] = useState('');
+  const [layout, setLayout] = useState<CsvLayout>(getStoredCsvLayout);
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [accountId, setAccountId] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('transferencia');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const activeAccounts = accounts.filter((a) => !a.archived);
+
+  const canImport = (row: StatementRow) => (row.amount > 0 ? canInsertIncome : canInsertExpense);
+
+  const csvPreview = useMemo(
+    () => (csvContent ? parseCsvRecords(csvContent, layout.delimiter).slice(0, 5) : []),
+    [csvContent, layout.delimiter]
+  );
+  const columnCount = Math.max(0, ...csvPreview.map((r) => r.length));
+  const columnLabel = (index: number) =>
+    (layout.hasHeader && csvPreview[0]?.[index]?.trim()) || `Coluna ${index + 1}`;
+
+  const reset = () => {
+    setStep('upload');
+    setCsvContent('');
+    setRows([]);
+  };
+
+  const review = async (parsed: StatementRow[]) => {
+    if (parsed.length === 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Nenhum lançamento encontrado',
+        description: 'Verifique o arquivo e o layout selecionado.',
+      });
+      return;
+    }
+
+    // Only entries within the statement period can be duplicates
+    const dates = parsed.map((row) => row.date.getTime());
+    const transactions = await findTransactions({
+      startDate: new Date(Math.min(...dates)),
+      endDate: new Date(Math.max(...dates)),
+    });
+    if (!transactions) return;
+
+    // Likely duplicates and lines the user cannot record start unselected
+    setRows(
+      parsed.map((row) => {
+        const duplicate = findDuplicate(row, transactions);
+        return { ...row, duplicate, selected: !duplicate && canImport(row) };
+      })
+    );
+    if (!accountId && activeAccounts.length > 0) setAccountId(activeAccounts[0].id);
+    setStep('review');
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+
+    const content = await readFile(file);
+    if (file.name.toLowerCase().endsWith('.ofx') || /<OFX>/i.test(content)) {
+      await review(parseOfx(content));
+    } else {
+      setCsvContent(content);
+      setStep('layout');
+    }
+  };
+
+  const handleLayoutConfirm = async () => {
+    storeCsvLayout(layout);
+    await review(parseCsv(csvContent, layout));
+  };
+
+  const toggleRow = (index: number, selected: boolean) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, selected } : row)));
+  };
+
+  const selectedRows = rows.filter((row) => row.selected);
+
+  const handleImport = async () => {
+    if (!accountId || selectedRows.length === 0) return;
+
+    setIsImporting(true);
+    const success = await onImport(
+      selectedRows.map((row) => ({
+        date: row.date,
+        type: row.amount > 0 ? 'income' : 'expense',
+        clientSupplier: (row.counterparty || row.description).slice(0, 100),
+        contactId: null,
+        amount: Math.abs(row.amount),
+        description: row.description.slice(0, 500),
+        paymentMethod,
+        categoryId: null,
+        accountId,
+        status: 'paid',
+        dueDate: row.date,
+        paidAt: row.date,
+      }))
+    );
+    setIsImporting(false);
+
+    if (success) {
+      toast({
+        title: 'Extrato importado!',
+        description: `${selectedRows.length} ${selectedRows.length === 1 ? 'lançamento importado' : 'lançamentos importados'}`,
+      });
+      reset();
+      setOpen(false);
+    }
+  };
+
+  const columnSelect = (value: number, onChange: (column: number) => void, optional = false) => (
+    <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {optional && <SelectItem value={NO_COLUMN}>Não informado</SelectItem>}
+        {Array.from({ length: columnCount }, (_, i) => (
+          <SelectItem key={i} value={String(i)}>
+            {columnLabel(i)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Upload className="h-4 w-4" />
+          <span className="hidden sm:inline">Importar</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold">Importar Extrato</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Selecione um arquivo OFX ou CSV exportado pelo banco.'}
+            {step === 'layout' && 'Indique onde estão a data, o valor e a descrição de cada lançamento.'}
+            {step === 'review' && 'Confira os lançamentos antes de importar. Possíveis duplicatas vêm desmarcadas.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <label className="flex cursor-pointer flex-col items-center justify-center gap-3 rounded-xl border-2 border-dashed border-border py-12 text-center hover:bg-muted/50">
+            <FileUp className="h-8 w-8 text-muted-foreground" />
+            <span className="text-sm text-muted-foreground">Clique para escolher o arquivo (.ofx ou .csv)</span>
+            <Input
+              type="file"
+              accept=".ofx,.csv,.txt"
+              className="hidden"
+              onChange={(e) => handleFileChange(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {step === 'layout' && (
+          <div className="space-y-5">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Separador</Label>
+                <Select
+                  value={layout.delimiter}
+                  onValueChange={(value) => setLayout({ ...layout, delimiter: value as CsvLayout['delimiter'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=";">Ponto e vírgula (;)</SelectItem>
+                    <SelectItem value=",">Vírgula (,)</SelectItem>
+                    <SelectItem value={'\t'}>Tabulação</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Decimal</Label>
+                <Select
+                  value={layout.decimalSeparator}
+                  onValueChange={(value) =>
+                    setLayout({ ...layout, decimalSeparator: value as CsvLayout['decimalSeparator'] })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=",">1.234,56</SelectItem>
+                    <SelectItem value=".">1,234.56</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Formato da data</Label>
+                <Select
+                  value={layout.dateFormat}
+                  onValueChange={(value) => setLayout({ ...layout, dateFormat: value as CsvDateFormat })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="dd/MM/yyyy">dd/mm/aaaa</SelectItem>
+                    <SelectItem value="yyyy-MM-dd">aaaa-mm-dd</SelectItem>
+                    <SelectItem value="MM/dd/yyyy">mm/dd/aaaa</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="csv-has-header"
+                checked={layout.hasHeader}
+                onCheckedChange={(checked) => setLayout({ ...layout, hasHeader: checked === true })}
+              />
+              <Label htmlFor="csv-has-header" className="cursor-pointer font-normal">
+                A primeira linha é o cabeçalho
+              </Label>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Data</Label>
+                {columnSelect(layout.dateColumn, (column) => setLayout({ ...layout, dateColumn: column }))}
+              </div>
+              <div className="space-y-2">
+                <Label>Valor</Label>
+                {columnSelect(layout.amountColumn, (column) => setLayout({ ...layout, amountColumn: column }))}
+              </div>
+              <div className="space-y-2">
+                <Label>Descrição</Label>
+                {columnSelect(layout.descriptionColumn, (column) =>
+                  setLayout({ ...layout, descriptionColumn: column })
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Cliente/Fornecedor</Label>
+                {columnSelect(
+                  layout.counterpartyColumn,
+                  (column) => setLayout({ ...layout, counterpartyColumn: column }),
+                  true
+                )}
+              </div>
+            </div>
+
+            <div className="overflow-x-auto rounded-lg border border-border">
+              <Table>
+                <TableBody>
+                  {csvPreview.map((record, r) => (
+                    <TableRow key={r} className={cn(r === 0 && layout.hasHeader && 'font-medium')}>
+                      {record.map((value, c) => (
+                        <TableCell key={c} className="whitespace-nowrap py-2 text-xs">
+                          {value}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={reset}>
+                Voltar
+              </Button>
+              <Button className="flex-1" onClick={handleLayoutConfirm}>
+                Continuar
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-5">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Conta</Label>
+                <Select value={accountId} onValueChange={setAccountId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Forma de Pagamento</Label>
+                <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="max-h-[45vh] overflow-y-auto rounded-lg border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Data</TableHead>
+                    <TableHead>Cliente/Fornecedor</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow key={index} className={cn(!row.selected && 'opacity-60')}>
+                      <TableCell>
+                        <Checkbox
+                          checked={row.selected}
+                          disabled={!canImport(row)}
+                          onCheckedChange={(checked) => toggleRow(index, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{format(row.date, 'dd/MM/yyyy')}</TableCell>
+                      <TableCell>
+                        <span className="block max-w-48 truncate">{row.counterparty}</span>
+                        {row.duplicate && (
+                          <span
+                            className="mt-1 inline-block rounded-md bg-amber-500/10 px-2 py-0.5 text-xs text-amber-600"
+                            title={`${row.duplicate.clientSupplier} · ${row.duplicate.description}`}
+                          >
+                            Possível duplicata
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <span className="block max-w-56 truncate text-muted-foreground">{row.description}</span>
+                      </TableCell>
+                      <TableCell
+                        className={cn(
+                          'whitespace-nowrap text-right font-medium',
+                          row.amount > 0 ? 'text-success' : 'text-destructive'
+                        )}
+                      >
+                        {row.amount > 0 ? '+' : '-'} {formatCurrency(Math.abs(row.amount))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={reset}>
+                Voltar
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={handleImport}
+                disabled={isImporting || !accountId || selectedRows.length === 0}
+              >
+                {isImporting ? 'Importando...' : `Importar ${selectedRows.length}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
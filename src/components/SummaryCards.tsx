@@ -1,12 +1,23 @@
-import { ArrowDownCircle, ArrowUpCircle, Wallet } from 'lucide-react';
+import { ArrowDownCircle, ArrowUpCircle, Banknote, Landmark, Smartphone, Wallet } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Account, AccountKind, accountKindLabels } from '@/types/transaction';
 
 interface SummaryCardsProps {
   income: number;
   expense: number;
   balance: number;
+  forecastIncome?: number;
+  forecastExpense?: number;
+  forecastBalance?: number;
+  accounts?: Account[];
 }
 
+const accountKindIcons: Record<AccountKind, typeof Wallet> = {
+  cash: Banknote,
+  bank: Landmark,
+  digital_wallet: Smartphone,
+};
+
 const formatCurrency = (value: number) => {
   return new Intl.NumberFormat('pt-BR', {
     style: 'currency',
@@ -14,74 +25,125 @@ const formatCurrency = (value: number) => {
   }).format(value);
 };
 
-export const SummaryCards = ({ income, expense, balance }: SummaryCardsProps) => {
+export const SummaryCards = ({
+  income,
+  expense,
+  balance,
+  forecastIncome,
+  forecastExpense,
+  forecastBalance,
+  accounts = [],
+}: SummaryCardsProps) => {
+  const activeAccounts = accounts.filter((a) => !a.archived);
+
   const cards = [
     {
       title: 'Entradas',
       value: income,
+      forecast: forecastIncome,
       icon: ArrowUpCircle,
       variant: 'success' as const,
     },
     {
       title: 'Saídas',
       value: expense,
+      forecast: forecastExpense,
       icon: ArrowDownCircle,
       variant: 'destructive' as const,
     },
     {
       title: 'Saldo',
       value: balance,
+      forecast: forecastBalance,
       icon: Wallet,
       variant: 'primary' as const,
     },
   ];
 
   return (
-    <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
-      {cards.map((card, index) => (
-        <div
-          key={card.title}
-          className={cn(
-            'relative overflow-hidden rounded-xl bg-card p-6 shadow-card transition-all duration-300 hover:shadow-elevated',
-            'animate-fade-in'
-          )}
-          style={{ animationDelay: `${index * 100}ms` }}
-        >
-          <div className="flex items-start justify-between">
-            <div className="space-y-2">
-              <p className="text-sm font-medium text-muted-foreground">{card.title}</p>
-              <p
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        {cards.map((card, index) => (
+          <div
+            key={card.title}
+            className={cn(
+              'relative overflow-hidden rounded-xl bg-card p-6 shadow-card transition-all duration-300 hover:shadow-elevated',
+              'animate-fade-in'
+            )}
+            style={{ animationDelay: `${index * 100}ms` }}
+          >
+            <div className="flex items-start justify-between">
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">{card.title}</p>
+                <p
+                  className={cn(
+                    'text-2xl font-bold tracking-tight',
+                    card.variant === 'success' && 'text-success',
+                    card.variant === 'destructive' && 'text-destructive',
+                    card.variant === 'primary' && (card.value >= 0 ? 'text-primary' : 'text-destructive')
+                  )}
+                >
+                  {formatCurrency(card.value)}
+                </p>
+                {card.forecast !== undefined && card.forecast !== card.value && (
+                  <p className="text-xs text-muted-foreground">
+                    Previsto: {formatCurrency(card.forecast)}
+                  </p>
+                )}
+              </div>
+              <div
                 className={cn(
-                  'text-2xl font-bold tracking-tight',
-                  card.variant === 'success' && 'text-success',
-                  card.variant === 'destructive' && 'text-destructive',
-                  card.variant === 'primary' && (card.value >= 0 ? 'text-primary' : 'text-destructive')
+                  'flex h-12 w-12 items-center justify-center rounded-xl',
+                  card.variant === 'success' && 'bg-success/10 text-success',
+                  card.variant === 'destructive' && 'bg-destructive/10 text-destructive',
+                  card.variant === 'primary' && 'bg-primary/10 text-primary'
                 )}
               >
-                {formatCurrency(card.value)}
-              </p>
+                <card.icon className="h-6 w-6" />
+              </div>
             </div>
             <div
               className={cn(
-                'flex h-12 w-12 items-center justify-center rounded-xl',
-                card.variant === 'success' && 'bg-success/10 text-success',
-                card.variant === 'destructive' && 'bg-destructive/10 text-destructive',
-                card.variant === 'primary' && 'bg-primary/10 text-primary'
+                'absolute -right-4 -top-4 h-24 w-24 rounded-full opacity-5',
+                card.variant === 'success' && 'bg-success',
+                card.variant === 'destructive' && 'bg-destructive',
+                card.variant === 'primary' && 'bg-primary'
               )}
-            >
-              <card.icon className="h-6 w-6" />
-            </div>
+            />
           </div>
-          <div
-            className={cn(
-              'absolute -right-4 -top-4 h-24 w-24 rounded-full opacity-5',
-              card.variant === 'success' && 'bg-success',
-              card.variant === 'destructive' && 'bg-destructive',
-              card.variant === 'primary' && 'bg-primary'
-            )}
-          />
+        ))}
+      </div>
+
+      {/* Running balance per account */}
+      {activeAccounts.length > 0 && (
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          {activeAccounts.map((account) => {
+            const Icon = accountKindIcons[account.kind];
+            return (
+              <div
+                key={account.id}
+                className="flex items-center gap-3 rounded-xl bg-card p-4 shadow-card animate-fade-in"
+              >
+                <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-muted text-muted-foreground">
+                  <Icon className="h-5 w-5" />
+                </div>
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-foreground">{account.name}</p>
+                  <p className="text-xs text-muted-foreground">{accountKindLabels[account.kind]}</p>
+                </div>
+                <p
+                  className={cn(
+                    'ml-auto shrink-0 font-semibold',
+                    account.balance >= 0 ? 'text-foreground' : 'text-destructive'
+                  )}
+                >
+                  {formatCurrency(account.balance)}
+                </p>
+              </div>
+            );
+          })}
         </div>
-      ))}
+      )}
     </div>
   );
 };
@@ -0,0 +1,96 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AttachmentGallery } from '@/components/AttachmentGallery';
+import { getCategoryPath } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+import {
+  Account,
+  Category,
+  Transaction,
+  paymentMethodLabels,
+  transactionStatusLabels,
+} from '@/types/transaction';
+
+interface TransactionDetailDialogProps {
+  transaction: Transaction | null;
+  onOpenChange: (open: boolean) => void;
+  categories: Category[];
+  accounts: Account[];
+  canManageAttachments?: boolean;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+};
+
+export const TransactionDetailDialog = ({
+  transaction,
+  onOpenChange,
+  categories,
+  accounts,
+  canManageAttachments = false,
+}: TransactionDetailDialogProps) => {
+  const details = transaction
+    ? [
+        { label: 'Data', value: format(transaction.date, "dd 'de' MMMM 'de' yyyy", { locale: ptBR }) },
+        { label: 'Status', value: transactionStatusLabels[transaction.status] },
+        { label: 'Forma de Pagamento', value: paymentMethodLabels[transaction.paymentMethod] },
+        { label: 'Conta', value: accounts.find((a) => a.id === transaction.accountId)?.name || '—' },
+        {
+          label: 'Categoria',
+          value: transaction.categoryId ? getCategoryPath(categories, transaction.categoryId) : 'Sem categoria',
+        },
+        transaction.status === 'paid'
+          ? { label: 'Pago em', value: transaction.paidAt ? format(transaction.paidAt, 'dd/MM/yyyy') : '—' }
+          : { label: 'Vencimento', value: format(transaction.dueDate, 'dd/MM/yyyy') },
+      ]
+    : [];
+
+  return (
+    <Dialog open={transaction !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{transaction?.clientSupplier}</DialogTitle>
+          {transaction && <DialogDescription>{transaction.description}</DialogDescription>}
+        </DialogHeader>
+
+        {transaction && (
+          <div className="space-y-6">
+            <p
+              className={cn(
+                'text-2xl font-bold tracking-tight',
+                transaction.type === 'income' ? 'text-success' : 'text-destructive'
+              )}
+            >
+              {transaction.type === 'income' ? '+' : '-'} {formatCurrency(transaction.amount)}
+            </p>
+
+            <dl className="grid grid-cols-2 gap-x-6 gap-y-3 text-sm">
+              {details.map((detail) => (
+                <div key={detail.label}>
+                  <dt className="text-muted-foreground">{detail.label}</dt>
+                  <dd className="text-foreground">{detail.value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-foreground">Comprovantes</h3>
+              <AttachmentGallery transactionId={transaction.id} canManage={canManageAttachments} />
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -14,18 +14,23 @@ import {
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
-import { TransactionType } from '@/types/transaction';
-
-interface Filters {
-  startDate?: Date;
-  endDate?: Date;
-  type: TransactionType | 'all';
-  search: string;
-}
+import {
+  TransactionType,
+  TransactionStatus,
+  PaymentMethod,
+  Category,
+  Account,
+  Filters,
+  paymentMethodLabels,
+  transactionStatusLabels,
+} from '@/types/transaction';
+import { buildCategoryOptions } from '@/lib/categories';
 
 interface TransactionFiltersProps {
   filters: Filters;
   onFiltersChange: (filters: Filters) => void;
+  categories: Category[];
+  accounts: Account[];
 }
 
 const quickFilters = [
@@ -46,7 +51,7 @@ const quickFilters = [
   },
 ];
 
-export const TransactionFilters = ({ filters, onFiltersChange }: TransactionFiltersProps) => {
+export const TransactionFilters = ({ filters, onFiltersChange, categories, accounts }: TransactionFiltersProps) => {
   const [startCalendarOpen, setStartCalendarOpen] = useState(false);
   const [endCalendarOpen, setEndCalendarOpen] = useState(false);
 
@@ -61,10 +66,25 @@ export const TransactionFilters = ({ filters, onFiltersChange }: TransactionFilt
       endDate: undefined,
       type: 'all',
       search: '',
+      categoryId: 'all',
+      accountId: 'all',
+      status: 'all',
+      paymentMethod: 'all',
     });
   };
 
-  const hasActiveFilters = filters.startDate || filters.endDate || filters.type !== 'all' || filters.search;
+  const hasActiveFilters =
+    filters.startDate ||
+    filters.endDate ||
+    filters.type !== 'all' ||
+    filters.search ||
+    filters.categoryId !== 'all' ||
+    filters.accountId !== 'all' ||
+    filters.status !== 'all' ||
+    filters.paymentMethod !== 'all';
+
+  // Only offer categories of the selected type
+  const categoryOptions = buildCategoryOptions(categories, filters.type === 'all' ? undefined : filters.type);
 
   return (
     <div className="space-y-4 rounded-xl bg-card p-4 shadow-card">
@@ -91,7 +111,7 @@ export const TransactionFilters = ({ filters, onFiltersChange }: TransactionFilt
       </div>
 
       {/* Main Filters */}
-      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-8">
         {/* Search */}
         <div className="relative">
           <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
@@ -162,7 +182,15 @@ export const TransactionFilters = ({ filters, onFiltersChange }: TransactionFilt
         {/* Type */}
         <Select
           value={filters.type}
-          onValueChange={(value) => onFiltersChange({ ...filters, type: value as TransactionType | 'all' })}
+          onValueChange={(value) => {
+            const type = value as TransactionType | 'all';
+            const category = categories.find((c) => c.id === filters.categoryId);
+            onFiltersChange({
+              ...filters,
+              type,
+              categoryId: category && type !== 'all' && category.type !== type ? 'all' : filters.categoryId,
+            });
+          }}
         >
           <SelectTrigger>
             <SelectValue placeholder="Tipo" />
@@ -173,6 +201,78 @@ export const TransactionFilters = ({ filters, onFiltersChange }: TransactionFilt
             <SelectItem value="expense">Pagamentos</SelectItem>
           </SelectContent>
         </Select>
+
+        {/* Category */}
+        <Select
+          value={filters.categoryId}
+          onValueChange={(value) => onFiltersChange({ ...filters, categoryId: value })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Categoria" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas as categorias</SelectItem>
+            {categoryOptions.map(({ category, depth }) => (
+              <SelectItem key={category.id} value={category.id}>
+                <span style={{ paddingLeft: `${depth * 12}px` }}>{category.name}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Account */}
+        <Select
+          value={filters.accountId}
+          onValueChange={(value) => onFiltersChange({ ...filters, accountId: value })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Conta" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas as contas</SelectItem>
+            {accounts.map((account) => (
+              <SelectItem key={account.id} value={account.id}>
+                {account.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Status */}
+        <Select
+          value={filters.status}
+          onValueChange={(value) => onFiltersChange({ ...filters, status: value as TransactionStatus | 'all' })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Situação" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas as situações</SelectItem>
+            {Object.entries(transactionStatusLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Payment Method */}
+        <Select
+          value={filters.paymentMethod}
+          onValueChange={(value) => onFiltersChange({ ...filters, paymentMethod: value as PaymentMethod | 'all' })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Forma de pagamento" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas as formas</SelectItem>
+            {Object.entries(paymentMethodLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
     </div>
   );
@@ -1,14 +1,15 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { CalendarIcon, Plus } from 'lucide-react';
+import { CalendarIcon, FileText, Paperclip, Plus, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -26,13 +27,29 @@ import {
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
-import { Transaction, TransactionType, PaymentMethod, paymentMethodLabels } from '@/types/transaction';
+import {
+  NewTransaction,
+  Transaction,
+  TransactionType,
+  PaymentMethod,
+  Category,
+  Account,
+  Contact,
+  RecurrenceRule,
+  paymentMethodLabels,
+} from '@/types/transaction';
+import { buildCategoryOptions } from '@/lib/categories';
+import { RecurrenceFields } from '@/components/RecurrenceFields';
+import { ContactCombobox } from '@/components/ContactCombobox';
+import { AttachmentGallery } from '@/components/AttachmentGallery';
+import { ATTACHMENT_ACCEPT, formatFileSize, validateAttachmentFile } from '@/lib/attachments';
 import { toast } from '@/hooks/use-toast';
 
 const formSchema = z.object({
   date: z.date({ required_error: 'Selecione uma data' }),
   type: z.enum(['income', 'expense'], { required_error: 'Selecione o tipo' }),
-  clientSupplier: z.string().min(1, 'Informe o cliente/fornecedor').max(100),
+  clientSupplier: z.string({ required_error: 'Informe o cliente/fornecedor' }).min(1, 'Informe o cliente/fornecedor').max(100),
+  contactId: z.string().nullable().optional(),
   amount: z.number({ required_error: 'Informe o valor' }).positive('O valor deve ser positivo'),
   description: z.string().min(1, 'Informe a descrição').max(500),
   paymentMethod: z.enum([
@@ -45,20 +62,68 @@ const formSchema = z.object({
     'cheque',
     'outro',
   ], { required_error: 'Selecione a forma de pagamento' }),
+  categoryId: z.string().optional(),
+  accountId: z.string({ required_error: 'Selecione a conta' }).min(1, 'Selecione a conta'),
+  settled: z.boolean(),
+  dueDate: z.date().optional(),
+}).refine((data) => data.settled || data.dueDate, {
+  message: 'Selecione a data de vencimento',
+  path: ['dueDate'],
 });
 
 type FormData = z.infer<typeof formSchema>;
 
 interface TransactionFormProps {
-  onSubmit: (transaction: Omit<Transaction, 'id' | 'createdAt' | 'user_id'>) => Promise<boolean>;
+  onSubmit: (
+    transaction: NewTransaction,
+    recurrence?: RecurrenceRule,
+    installmentCount?: number,
+    attachments?: File[]
+  ) => Promise<boolean>;
   canInsertExpense: boolean;
   canInsertIncome: boolean;
+  categories: Category[];
+  accounts: Account[];
+  contacts?: Contact[];
+  /** Edits this entry instead of recording a new one */
+  transaction?: Transaction | null;
+  /** When set, the dialog is opened by the parent and renders no trigger button */
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  /** Dates in closed periods cannot be picked */
+  isDateClosed?: (date: Date) => boolean;
 }
 
-export const TransactionForm = ({ onSubmit, canInsertExpense, canInsertIncome }: TransactionFormProps) => {
-  const [open, setOpen] = useState(false);
+const NO_CATEGORY = 'none';
+
+const DEFAULT_RECURRENCE: RecurrenceRule = { frequency: 'monthly', interval: 1, endDate: null, count: null };
+
+const INSTALLMENT_OPTIONS = Array.from({ length: 24 }, (_, i) => i + 1);
+
+export const TransactionForm = ({
+  onSubmit,
+  canInsertExpense,
+  canInsertIncome,
+  categories,
+  accounts,
+  contacts = [],
+  transaction = null,
+  open: controlledOpen,
+  onOpenChange,
+  isDateClosed,
+}: TransactionFormProps) => {
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const open = controlledOpen ?? uncontrolledOpen;
+  const setOpen = onOpenChange ?? setUncontrolledOpen;
+  const isEditing = transaction !== null;
   const [calendarOpen, setCalendarOpen] = useState(false);
+  const [dueCalendarOpen, setDueCalendarOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [installmentCount, setInstallmentCount] = useState(1);
+  // Receipts picked for a new entry, uploaded once it is saved
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const defaultType = canInsertExpense ? 'expense' : 'income';
 
@@ -74,47 +139,144 @@ export const TransactionForm = ({ onSubmit, canInsertExpense, canInsertIncome }:
     defaultValues: {
       date: new Date(),
       type: defaultType,
+      settled: true,
     },
   });
 
   const selectedDate = watch('date');
   const selectedType = watch('type');
+  const selectedCategoryId = watch('categoryId');
+  const selectedAccountId = watch('accountId');
+  const settled = watch('settled');
+  const selectedDueDate = watch('dueDate');
+  const selectedPaymentMethod = watch('paymentMethod');
+  const amount = watch('amount');
+  const clientSupplier = watch('clientSupplier');
+  const selectedContactId = watch('contactId');
+
+  const isInstallment = selectedPaymentMethod === 'cartao_credito' && installmentCount > 1;
+
+  // An entry being edited keeps its account even if it was archived since
+  const activeAccounts = accounts.filter((a) => !a.archived || a.id === transaction?.accountId);
+
+  // Prefill with the entry being edited each time the dialog opens
+  useEffect(() => {
+    if (open && transaction) {
+      reset({
+        date: transaction.date,
+        type: transaction.type,
+        clientSupplier: transaction.clientSupplier,
+        contactId: transaction.contactId,
+        amount: transaction.amount,
+        description: transaction.description,
+        paymentMethod: transaction.paymentMethod,
+        categoryId: transaction.categoryId || undefined,
+        accountId: transaction.accountId,
+        settled: transaction.status === 'paid',
+        dueDate: transaction.dueDate,
+      });
+    }
+  }, [open, transaction, reset]);
+
+  const categoryOptions = buildCategoryOptions(categories, selectedType);
+
+  // A category only applies to one transaction type
+  useEffect(() => {
+    if (selectedCategoryId && !categories.some((c) => c.id === selectedCategoryId && c.type === selectedType)) {
+      setValue('categoryId', undefined);
+    }
+  }, [selectedType, selectedCategoryId, categories, setValue]);
+
+  // Preselect the first account once they are loaded
+  useEffect(() => {
+    if (!selectedAccountId && activeAccounts.length > 0) {
+      setValue('accountId', activeAccounts[0].id);
+    }
+  }, [selectedAccountId, activeAccounts, setValue]);
+
+  // Installments only apply to credit card purchases
+  useEffect(() => {
+    if (selectedPaymentMethod !== 'cartao_credito') {
+      setInstallmentCount(1);
+    }
+  }, [selectedPaymentMethod]);
 
   const handleFormSubmit = async (data: FormData) => {
+    // Recurring entries always start pending, with the first occurrence due on the selected date
+    const settled = data.settled && !recurrence && !isInstallment;
+    // Cancelled entries can still be corrected but stay cancelled
+    const keepsCancelled = transaction?.status === 'cancelled';
+    // Settling a pending entry keeps the due date it had
+    const settledDueDate = transaction?.status === 'pending' ? data.dueDate || data.date : data.date;
+
     setIsSubmitting(true);
-    const success = await onSubmit({
-      date: data.date,
-      type: data.type as TransactionType,
-      clientSupplier: data.clientSupplier.trim(),
-      amount: data.amount,
-      description: data.description.trim(),
-      paymentMethod: data.paymentMethod as PaymentMethod,
-    });
+    const success = await onSubmit(
+      {
+        date: data.date,
+        type: data.type as TransactionType,
+        clientSupplier: data.clientSupplier.trim(),
+        contactId: data.contactId || null,
+        amount: data.amount,
+        description: data.description.trim(),
+        paymentMethod: data.paymentMethod as PaymentMethod,
+        categoryId: data.categoryId || null,
+        accountId: data.accountId,
+        status: keepsCancelled ? 'cancelled' : settled ? 'paid' : 'pending',
+        dueDate: keepsCancelled ? transaction.dueDate : settled || recurrence ? settledDueDate : data.dueDate!,
+        paidAt: settled && !keepsCancelled ? transaction?.paidAt || data.date : null,
+      },
+      recurrence || undefined,
+      isInstallment ? installmentCount : undefined,
+      !recurrence && !isInstallment ? pendingFiles : undefined
+    );
     setIsSubmitting(false);
 
-    if (success) {
+    if (success && isEditing) {
+      toast({
+        title: 'Transação atualizada!',
+        description: `${data.clientSupplier} - R$ ${data.amount.toFixed(2)}`,
+      });
+      setOpen(false);
+    } else if (success) {
       toast({
         title: data.type === 'income' ? 'Recebimento registrado!' : 'Pagamento registrado!',
         description: `${data.clientSupplier} - R$ ${data.amount.toFixed(2)}`,
       });
-      reset({ date: new Date(), type: defaultType });
+      reset({ date: new Date(), type: defaultType, accountId: data.accountId, settled: true });
+      setRecurrence(null);
+      setInstallmentCount(1);
+      setPendingFiles([]);
       setOpen(false);
     }
   };
 
+  const handleFilesPicked = (files: FileList | null) => {
+    const picked = Array.from(files || []).filter((file) => {
+      const invalid = validateAttachmentFile(file);
+      if (invalid) {
+        toast({ variant: 'destructive', title: 'Arquivo não anexado', description: invalid });
+      }
+      return !invalid;
+    });
+    setPendingFiles((prev) => [...prev, ...picked]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
   const canSelectBoth = canInsertExpense && canInsertIncome;
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
-      <DialogTrigger asChild>
-        <Button className="gap-2 shadow-md transition-all hover:shadow-lg">
-          <Plus className="h-4 w-4" />
-          Nova Transação
-        </Button>
-      </DialogTrigger>
+      {controlledOpen === undefined && (
+        <DialogTrigger asChild>
+          <Button className="gap-2 shadow-md transition-all hover:shadow-lg">
+            <Plus className="h-4 w-4" />
+            Nova Transação
+          </Button>
+        </DialogTrigger>
+      )}
       <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
         <DialogHeader>
-          <DialogTitle className="text-xl font-semibold">Nova Transação</DialogTitle>
+          <DialogTitle className="text-xl font-semibold">{isEditing ? 'Editar Transação' : 'Nova Transação'}</DialogTitle>
         </DialogHeader>
         <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-5 pt-4">
           {/* Type Selection */}
@@ -189,6 +351,7 @@ export const TransactionForm = ({ onSubmit, canInsertExpense, canInsertIncome }:
                       setCalendarOpen(false);
                     }
                   }}
+                  disabled={isDateClosed}
                   locale={ptBR}
                   initialFocus
                 />
@@ -197,15 +360,118 @@ export const TransactionForm = ({ onSubmit, canInsertExpense, canInsertIncome }:
             {errors.date && <p className="text-sm text-destructive">{errors.date.message}</p>}
           </div>
 
+          {/* Recurrence */}
+          {!isEditing && !isInstallment && (
+            <div className="flex items-center justify-between rounded-lg border border-border p-3">
+              <Label htmlFor="recurring" className="cursor-pointer">
+                Repetir lançamento
+              </Label>
+              <Switch
+                id="recurring"
+                checked={recurrence !== null}
+                onCheckedChange={(checked) => {
+                  setRecurrence(checked ? DEFAULT_RECURRENCE : null);
+                  if (checked) setValue('settled', true);
+                }}
+              />
+            </div>
+          )}
+
+          {recurrence && <RecurrenceFields value={recurrence} onChange={setRecurrence} />}
+
+          {/* Status */}
+          {!recurrence && !isInstallment && transaction?.status !== 'cancelled' && (
+            <div className="flex items-center justify-between rounded-lg border border-border p-3">
+              <Label htmlFor="settled" className="cursor-pointer">
+                {selectedType === 'income' ? 'Já foi recebido' : 'Já foi pago'}
+              </Label>
+              <Switch
+                id="settled"
+                checked={settled}
+                onCheckedChange={(checked) => setValue('settled', checked)}
+              />
+            </div>
+          )}
+
+          {/* Due Date */}
+          {(isInstallment || (!settled && !recurrence && transaction?.status !== 'cancelled')) && (
+            <div className="space-y-2">
+              <Label>{isInstallment ? 'Vencimento da 1ª parcela' : 'Vencimento'}</Label>
+              <Popover open={dueCalendarOpen} onOpenChange={setDueCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className={cn(
+                      'w-full justify-start text-left font-normal',
+                      !selectedDueDate && 'text-muted-foreground'
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {selectedDueDate
+                      ? format(selectedDueDate, "dd 'de' MMMM 'de' yyyy", { locale: ptBR })
+                      : 'Selecione o vencimento'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={selectedDueDate}
+                    onSelect={(date) => {
+                      if (date) {
+                        setValue('dueDate', date, { shouldValidate: true });
+                        setDueCalendarOpen(false);
+                      }
+                    }}
+                    locale={ptBR}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              {errors.dueDate && <p className="text-sm text-destructive">{errors.dueDate.message}</p>}
+            </div>
+          )}
+
+          {/* Category */}
+          <div className="space-y-2">
+            <Label>Categoria</Label>
+            <Select
+              value={selectedCategoryId || NO_CATEGORY}
+              onValueChange={(value) => setValue('categoryId', value === NO_CATEGORY ? undefined : value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione..." />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CATEGORY}>Sem categoria</SelectItem>
+                {categoryOptions.map(({ category, depth }) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    <span style={{ paddingLeft: `${depth * 12}px` }}>{category.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Client/Supplier */}
           <div className="space-y-2">
             <Label htmlFor="clientSupplier">
               {selectedType === 'income' ? 'Cliente' : 'Fornecedor'}
             </Label>
-            <Input
+            <ContactCombobox
               id="clientSupplier"
+              value={clientSupplier || ''}
+              contactId={selectedContactId || null}
+              contacts={contacts}
               placeholder={selectedType === 'income' ? 'Nome do cliente' : 'Nome do fornecedor'}
-              {...register('clientSupplier')}
+              onChange={(name, contact) => {
+                setValue('clientSupplier', name, { shouldValidate: true });
+                setValue('contactId', contact?.id ?? null);
+                // A new entry starts with the contact's usual payment method
+                if (contact?.defaultPaymentMethod && !isEditing) {
+                  setValue('paymentMethod', contact.defaultPaymentMethod, { shouldValidate: true });
+                }
+              }}
             />
             {errors.clientSupplier && (
               <p className="text-sm text-destructive">{errors.clientSupplier.message}</p>
@@ -247,7 +513,10 @@ export const TransactionForm = ({ onSubmit, canInsertExpense, canInsertIncome }:
           {/* Payment Method */}
           <div className="space-y-2">
             <Label>Forma de {selectedType === 'income' ? 'Recebimento' : 'Pagamento'}</Label>
-            <Select onValueChange={(value) => setValue('paymentMethod', value as PaymentMethod)}>
+            <Select
+              value={selectedPaymentMethod}
+              onValueChange={(value) => setValue('paymentMethod', value as PaymentMethod)}
+            >
               <SelectTrigger>
                 <SelectValue placeholder="Selecione..." />
               </SelectTrigger>
@@ -264,6 +533,112 @@ export const TransactionForm = ({ onSubmit, canInsertExpense, canInsertIncome }:
             )}
           </div>
 
+          {/* Installments */}
+          {selectedPaymentMethod === 'cartao_credito' && !recurrence && !isEditing && (
+            <div className="space-y-2">
+              <Label>Parcelas</Label>
+              <Select
+                value={String(installmentCount)}
+                onValueChange={(value) => {
+                  setInstallmentCount(Number(value));
+                  // Each installment is recorded as pending until its due date
+                  if (Number(value) > 1) setValue('settled', false);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INSTALLMENT_OPTIONS.map((count) => (
+                    <SelectItem key={count} value={String(count)}>
+                      {count === 1
+                        ? 'À vista'
+                        : amount > 0
+                          ? `${count}x de R$ ${(Math.floor(Math.round(amount * 100) / count) / 100).toFixed(2)}`
+                          : `${count}x`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Account */}
+          <div className="space-y-2">
+            <Label>Conta</Label>
+            <Select value={selectedAccountId} onValueChange={(value) => setValue('accountId', value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione..." />
+              </SelectTrigger>
+              <SelectContent>
+                {activeAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.accountId && (
+              <p className="text-sm text-destructive">{errors.accountId.message}</p>
+            )}
+          </div>
+
+          {/* Attachments: managed live when editing, uploaded after saving a new single entry */}
+          {isEditing ? (
+            <div className="space-y-2">
+              <Label>Comprovantes</Label>
+              <AttachmentGallery transactionId={transaction.id} canManage />
+            </div>
+          ) : (
+            !recurrence &&
+            !isInstallment && (
+              <div className="space-y-2">
+                <Label>Comprovantes</Label>
+                {pendingFiles.length > 0 && (
+                  <ul className="space-y-1">
+                    {pendingFiles.map((file, index) => (
+                      <li
+                        key={`${file.name}-${index}`}
+                        className="flex items-center gap-2 rounded-md border border-border px-3 py-1.5 text-sm"
+                      >
+                        <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <span className="min-w-0 flex-1 truncate">{file.name}</span>
+                        <span className="shrink-0 text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => setPendingFiles((prev) => prev.filter((_, i) => i !== index))}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={ATTACHMENT_ACCEPT}
+                  multiple
+                  className="hidden"
+                  onChange={(e) => handleFilesPicked(e.target.files)}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <Paperclip className="h-4 w-4" />
+                  Anexar comprovante
+                </Button>
+              </div>
+            )
+          )}
+
           {/* Submit */}
           <div className="flex gap-3 pt-2">
             <Button type="button" variant="outline" className="flex-1" onClick={() => setOpen(false)}>
@@ -0,0 +1,70 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AuditChanges } from '@/components/AuditChanges';
+import { useTransactionHistory } from '@/hooks/useAuditLog';
+import { Account, Category, Transaction, auditActionLabels } from '@/types/transaction';
+
+interface TransactionHistoryDialogProps {
+  transaction: Transaction | null;
+  onOpenChange: (open: boolean) => void;
+  categories: Category[];
+  accounts: Account[];
+}
+
+export const TransactionHistoryDialog = ({
+  transaction,
+  onOpenChange,
+  categories,
+  accounts,
+}: TransactionHistoryDialogProps) => {
+  const { entries, loading } = useTransactionHistory(transaction?.id ?? null);
+
+  return (
+    <Dialog open={transaction !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Histórico</DialogTitle>
+          {transaction && (
+            <DialogDescription>
+              {transaction.clientSupplier} · {transaction.description}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Nenhuma alteração registrada para esta transação.
+          </p>
+        ) : (
+          <ol className="space-y-4 border-l border-border pl-4">
+            {entries.map((entry) => (
+              <li key={entry.id} className="space-y-2">
+                <div>
+                  <p className="text-sm font-medium text-foreground">
+                    {auditActionLabels[entry.action]} por {entry.actorName || entry.actorEmail || 'usuário removido'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(entry.createdAt, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                  </p>
+                </div>
+                <AuditChanges entry={entry} categories={categories} accounts={accounts} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
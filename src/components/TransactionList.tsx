@@ -1,10 +1,12 @@
+import { useEffect, useRef, useState } from 'react';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { ArrowDownCircle, ArrowUpCircle, MoreVertical, Trash2 } from 'lucide-react';
+import { ArrowDownCircle, ArrowUpCircle, Ban, CheckCircle2, CreditCard, History, Loader2, Lock, MoreVertical, Paperclip, Pencil, Repeat, StopCircle, Trash2 } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
@@ -20,14 +22,50 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { cn } from '@/lib/utils';
-import { Transaction, paymentMethodLabels } from '@/types/transaction';
+import {
+  Transaction,
+  NewTransaction,
+  TransactionStatus,
+  Category,
+  Account,
+  paymentMethodLabels,
+  transactionStatusLabels,
+} from '@/types/transaction';
+import { getCategoryPath } from '@/lib/categories';
+import { SettleTransactionDialog } from '@/components/SettleTransactionDialog';
+import { TransactionHistoryDialog } from '@/components/TransactionHistoryDialog';
+import { TransactionDetailDialog } from '@/components/TransactionDetailDialog';
+import { EditOccurrenceDialog } from '@/components/EditOccurrenceDialog';
 
 interface TransactionListProps {
   transactions: Transaction[];
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  categories: Category[];
+  accounts: Account[];
   onDelete: (id: string) => void;
+  onSettle?: (id: string, paidAt: Date) => Promise<boolean>;
+  onCancel?: (id: string) => void;
+  onEdit?: (transaction: Transaction) => void;
+  onUpdate?: (id: string, transaction: Partial<NewTransaction>) => Promise<boolean>;
+  onUpdateFuture?: (id: string, transaction: Partial<NewTransaction>) => Promise<boolean>;
+  onEndRecurrence?: (id: string) => Promise<boolean>;
+  onCancelInstallments?: (id: string) => Promise<boolean>;
   canDelete?: boolean;
+  canEdit?: boolean;
+  isDateClosed?: (date: Date) => boolean;
+  /** Whether receipts can be attached to or removed from an entry */
+  canAttach?: (transaction: Transaction) => boolean;
 }
 
+const statusStyles: Record<TransactionStatus, string> = {
+  pending: 'bg-amber-500/10 text-amber-600',
+  paid: 'bg-success/10 text-success',
+  overdue: 'bg-destructive/10 text-destructive',
+  cancelled: 'bg-muted text-muted-foreground line-through',
+};
+
 const formatCurrency = (value: number) => {
   return new Intl.NumberFormat('pt-BR', {
     style: 'currency',
@@ -35,7 +73,52 @@ const formatCurrency = (value: number) => {
   }).format(value);
 };
 
-export const TransactionList = ({ transactions, onDelete, canDelete = false }: TransactionListProps) => {
+export const TransactionList = ({
+  transactions,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  categories,
+  accounts,
+  onDelete,
+  onSettle,
+  onCancel,
+  onEdit,
+  onUpdate,
+  onUpdateFuture,
+  onEndRecurrence,
+  onCancelInstallments,
+  canDelete = false,
+  canEdit = false,
+  isDateClosed,
+  canAttach,
+}: TransactionListProps) => {
+  const [settling, setSettling] = useState<Transaction | null>(null);
+  const [editingOccurrence, setEditingOccurrence] = useState<Transaction | null>(null);
+  const [endingRecurrence, setEndingRecurrence] = useState<Transaction | null>(null);
+  const [cancellingInstallments, setCancellingInstallments] = useState<Transaction | null>(null);
+  const [viewingHistory, setViewingHistory] = useState<Transaction | null>(null);
+  const [viewingDetails, setViewingDetails] = useState<Transaction | null>(null);
+
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const getAccountName = (id: string) => accounts.find((a) => a.id === id)?.name;
+
+  // Loads the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) onLoadMore();
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore]);
+
   if (transactions.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center rounded-xl bg-card py-16 text-center shadow-card">
@@ -50,8 +133,84 @@ export const TransactionList = ({ transactions, onDelete, canDelete = false }: T
     );
   }
 
+  // Entries dated in a closed period can only be looked at
+  const isLocked = (transaction: Transaction) => isDateClosed?.(transaction.date) ?? false;
+  const canEditRow = (transaction: Transaction) => canEdit && !isLocked(transaction);
+  const canDeleteRow = (transaction: Transaction) => canDelete && !isLocked(transaction);
+
   return (
     <div className="space-y-3">
+      <TransactionHistoryDialog
+        transaction={viewingHistory}
+        onOpenChange={(open) => !open && setViewingHistory(null)}
+        categories={categories}
+        accounts={accounts}
+      />
+
+      <TransactionDetailDialog
+        transaction={viewingDetails}
+        onOpenChange={(open) => !open && setViewingDetails(null)}
+        categories={categories}
+        accounts={accounts}
+        canManageAttachments={!!viewingDetails && (canAttach?.(viewingDetails) ?? false)}
+      />
+
+      <SettleTransactionDialog
+        transaction={settling}
+        onOpenChange={(open) => !open && setSettling(null)}
+        onConfirm={(id, paidAt) => (onSettle ? onSettle(id, paidAt) : Promise.resolve(false))}
+      />
+
+      <EditOccurrenceDialog
+        transaction={editingOccurrence}
+        onOpenChange={(open) => !open && setEditingOccurrence(null)}
+        onUpdate={(id, changes) => (onUpdate ? onUpdate(id, changes) : Promise.resolve(false))}
+        onUpdateFuture={(id, changes) => (onUpdateFuture ? onUpdateFuture(id, changes) : Promise.resolve(false))}
+      />
+
+      <AlertDialog open={endingRecurrence !== null} onOpenChange={(open) => !open && setEndingRecurrence(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Encerrar recorrência?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Esta ocorrência e as próximas ainda pendentes serão removidas. Lançamentos já pagos são mantidos.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => endingRecurrence && onEndRecurrence?.(endingRecurrence.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Encerrar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={cancellingInstallments !== null}
+        onOpenChange={(open) => !open && setCancellingInstallments(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar parcelas restantes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Esta parcela e as próximas ainda pendentes serão canceladas. Parcelas já pagas são mantidas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => cancellingInstallments && onCancelInstallments?.(cancellingInstallments.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Cancelar parcelas
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {transactions.map((transaction, index) => (
         <div
           key={transaction.id}
@@ -59,7 +218,7 @@ export const TransactionList = ({ transactions, onDelete, canDelete = false }: T
             'group flex items-center gap-4 rounded-xl bg-card p-4 shadow-card transition-all hover:shadow-elevated',
             'animate-fade-in'
           )}
-          style={{ animationDelay: `${index * 50}ms` }}
+          style={{ animationDelay: `${Math.min(index, 10) * 50}ms` }}
         >
           {/* Icon */}
           <div
@@ -86,13 +245,52 @@ export const TransactionList = ({ transactions, onDelete, canDelete = false }: T
               <span className="shrink-0 rounded-md bg-muted px-2 py-0.5 text-xs text-muted-foreground">
                 {paymentMethodLabels[transaction.paymentMethod]}
               </span>
+              {transaction.status !== 'paid' && (
+                <span className={cn('shrink-0 rounded-md px-2 py-0.5 text-xs', statusStyles[transaction.status])}>
+                  {transactionStatusLabels[transaction.status]}
+                </span>
+              )}
+              {transaction.recurrenceId && (
+                <span className="flex shrink-0 items-center gap-1 rounded-md bg-primary/10 px-2 py-0.5 text-xs text-primary">
+                  <Repeat className="h-3 w-3" />
+                  Recorrente
+                </span>
+              )}
+              {transaction.installmentGroupId && (
+                <span className="flex shrink-0 items-center gap-1 rounded-md bg-primary/10 px-2 py-0.5 text-xs text-primary">
+                  <CreditCard className="h-3 w-3" />
+                  {transaction.installmentNumber}/{transaction.installmentCount}
+                </span>
+              )}
+              {isLocked(transaction) && (
+                <span
+                  className="flex shrink-0 items-center gap-1 rounded-md bg-muted px-2 py-0.5 text-xs text-muted-foreground"
+                  title="Período fechado"
+                >
+                  <Lock className="h-3 w-3" />
+                </span>
+              )}
             </div>
             <p className="truncate text-sm text-muted-foreground">{transaction.description}</p>
             <p className="text-xs text-muted-foreground">
               {format(transaction.date, "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+              {getAccountName(transaction.accountId) && ` · ${getAccountName(transaction.accountId)}`}
+              {(transaction.status === 'pending' || transaction.status === 'overdue') &&
+                ` · vence em ${format(transaction.dueDate, 'dd/MM/yyyy')}`}
             </p>
           </div>
 
+          {/* Category */}
+          <div className="hidden w-44 shrink-0 md:block">
+            {transaction.categoryId ? (
+              <p className="truncate text-sm text-foreground" title={getCategoryPath(categories, transaction.categoryId)}>
+                {getCategoryPath(categories, transaction.categoryId)}
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">Sem categoria</p>
+            )}
+          </div>
+
           {/* Amount */}
           <div className="shrink-0 text-right">
             <p
@@ -106,48 +304,105 @@ export const TransactionList = ({ transactions, onDelete, canDelete = false }: T
           </div>
 
           {/* Actions */}
-          {canDelete && (
-            <AlertDialog>
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-8 w-8 shrink-0 opacity-0 transition-opacity group-hover:opacity-100"
-                  >
-                    <MoreVertical className="h-4 w-4" />
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end">
+          <AlertDialog>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0 opacity-0 transition-opacity group-hover:opacity-100"
+                >
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {canEditRow(transaction) && onEdit && (
+                  <DropdownMenuItem onClick={() => onEdit(transaction)}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Editar
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={() => setViewingDetails(transaction)}>
+                  <Paperclip className="mr-2 h-4 w-4" />
+                  Detalhes e anexos
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setViewingHistory(transaction)}>
+                  <History className="mr-2 h-4 w-4" />
+                  Histórico
+                </DropdownMenuItem>
+                {(canEditRow(transaction) || canDeleteRow(transaction)) && <DropdownMenuSeparator />}
+                {canEditRow(transaction) && (transaction.status === 'pending' || transaction.status === 'overdue') && (
+                  <>
+                    <DropdownMenuItem onClick={() => setSettling(transaction)}>
+                      <CheckCircle2 className="mr-2 h-4 w-4" />
+                      {transaction.type === 'income' ? 'Marcar como recebido' : 'Marcar como pago'}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onCancel?.(transaction.id)}>
+                      <Ban className="mr-2 h-4 w-4" />
+                      {transaction.installmentGroupId ? 'Cancelar esta parcela' : 'Cancelar lançamento'}
+                    </DropdownMenuItem>
+                    {transaction.installmentGroupId && transaction.installmentNumber !== transaction.installmentCount && (
+                      <DropdownMenuItem onClick={() => setCancellingInstallments(transaction)}>
+                        <Ban className="mr-2 h-4 w-4" />
+                        Cancelar parcelas restantes
+                      </DropdownMenuItem>
+                    )}
+                    {canDeleteRow(transaction) && <DropdownMenuSeparator />}
+                  </>
+                )}
+                {transaction.recurrenceId && (canEditRow(transaction) || canDeleteRow(transaction)) && (
+                  <>
+                    {canEditRow(transaction) && (
+                      <DropdownMenuItem onClick={() => setEditingOccurrence(transaction)}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Editar recorrência
+                      </DropdownMenuItem>
+                    )}
+                    {canDeleteRow(transaction) && (
+                      <DropdownMenuItem onClick={() => setEndingRecurrence(transaction)}>
+                        <StopCircle className="mr-2 h-4 w-4" />
+                        Encerrar recorrência a partir desta
+                      </DropdownMenuItem>
+                    )}
+                    {canDeleteRow(transaction) && <DropdownMenuSeparator />}
+                  </>
+                )}
+                {canDeleteRow(transaction) && (
                   <AlertDialogTrigger asChild>
                     <DropdownMenuItem className="text-destructive focus:text-destructive">
                       <Trash2 className="mr-2 h-4 w-4" />
                       Excluir
                     </DropdownMenuItem>
                   </AlertDialogTrigger>
-                </DropdownMenuContent>
-              </DropdownMenu>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle>Excluir transação?</AlertDialogTitle>
-                  <AlertDialogDescription>
-                    Esta ação não pode ser desfeita. A transação será permanentemente removida.
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogFooter>
-                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                  <AlertDialogAction
-                    onClick={() => onDelete(transaction.id)}
-                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                  >
-                    Excluir
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
-          )}
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Excluir transação?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  A transação será movida para a lixeira e poderá ser restaurada.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => onDelete(transaction.id)}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Excluir
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
         </div>
       ))}
+
+      {hasMore && (
+        <div ref={loadMoreRef} className="flex justify-center py-4">
+          {loadingMore && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+        </div>
+      )}
     </div>
   );
 };
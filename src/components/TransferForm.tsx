@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowLeftRight, CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { Account, Transfer } from '@/types/transaction';
+import { toast } from '@/hooks/use-toast';
+
+const formSchema = z.object({
+  date: z.date({ required_error: 'Selecione uma data' }),
+  fromAccountId: z.string({ required_error: 'Selecione a conta de origem' }).min(1, 'Selecione a conta de origem'),
+  toAccountId: z.string({ required_error: 'Selecione a conta de destino' }).min(1, 'Selecione a conta de destino'),
+  amount: z.number({ required_error: 'Informe o valor' }).positive('O valor deve ser positivo'),
+  description: z.string().max(500).optional(),
+}).refine((data) => data.fromAccountId !== data.toAccountId, {
+  message: 'As contas de origem e destino devem ser diferentes',
+  path: ['toAccountId'],
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+interface TransferFormProps {
+  onSubmit: (transfer: Omit<Transfer, 'id' | 'createdAt'>) => Promise<boolean>;
+  accounts: Account[];
+}
+
+export const TransferForm = ({ onSubmit, accounts }: TransferFormProps) => {
+  const [open, setOpen] = useState(false);
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const activeAccounts = accounts.filter((a) => !a.archived);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      date: new Date(),
+    },
+  });
+
+  const selectedDate = watch('date');
+  const fromAccountId = watch('fromAccountId');
+  const toAccountId = watch('toAccountId');
+
+  const handleFormSubmit = async (data: FormData) => {
+    setIsSubmitting(true);
+    const success = await onSubmit({
+      date: data.date,
+      fromAccountId: data.fromAccountId,
+      toAccountId: data.toAccountId,
+      amount: data.amount,
+      description: data.description?.trim() || '',
+    });
+    setIsSubmitting(false);
+
+    if (success) {
+      toast({
+        title: 'Transferência registrada!',
+        description: `R$ ${data.amount.toFixed(2)}`,
+      });
+      reset({ date: new Date() });
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <ArrowLeftRight className="h-4 w-4" />
+          <span className="hidden sm:inline">Transferência</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold">Transferência entre Contas</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-5 pt-4">
+          {/* Date */}
+          <div className="space-y-2">
+            <Label>Data</Label>
+            <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
+              <PopoverTrigger asChild>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className={cn(
+                    'w-full justify-start text-left font-normal',
+                    !selectedDate && 'text-muted-foreground'
+                  )}
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {selectedDate
+                    ? format(selectedDate, "dd 'de' MMMM 'de' yyyy", { locale: ptBR })
+                    : 'Selecione uma data'}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={selectedDate}
+                  onSelect={(date) => {
+                    if (date) {
+                      setValue('date', date);
+                      setCalendarOpen(false);
+                    }
+                  }}
+                  locale={ptBR}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+            {errors.date && <p className="text-sm text-destructive">{errors.date.message}</p>}
+          </div>
+
+          {/* Accounts */}
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>De</Label>
+              <Select value={fromAccountId} onValueChange={(value) => setValue('fromAccountId', value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Conta de origem" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.fromAccountId && (
+                <p className="text-sm text-destructive">{errors.fromAccountId.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Para</Label>
+              <Select value={toAccountId} onValueChange={(value) => setValue('toAccountId', value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Conta de destino" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.toAccountId && (
+                <p className="text-sm text-destructive">{errors.toAccountId.message}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Amount */}
+          <div className="space-y-2">
+            <Label htmlFor="transfer-amount">Valor (R$)</Label>
+            <Input
+              id="transfer-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0,00"
+              {...register('amount', { valueAsNumber: true })}
+            />
+            {errors.amount && <p className="text-sm text-destructive">{errors.amount.message}</p>}
+          </div>
+
+          {/* Description */}
+          <div className="space-y-2">
+            <Label htmlFor="transfer-description">Descrição</Label>
+            <Input
+              id="transfer-description"
+              placeholder="Ex.: Depósito do caixa no banco"
+              {...register('description')}
+            />
+          </div>
+
+          {/* Submit */}
+          <div className="flex gap-3 pt-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="flex-1" disabled={isSubmitting}>
+              {isSubmitting ? 'Salvando...' : 'Salvar'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { UserAccessFields } from '@/components/UserAccessFields';
+import { AppRole, ManagedUser, PermissionProfile } from '@/types/transaction';
+
+interface UserAccessDialogProps {
+  /** The user being edited; the dialog is closed while null */
+  user: ManagedUser | null;
+  profiles: PermissionProfile[];
+  /** Approving a pending signup starts from view only instead of the user's current roles */
+  mode?: 'edit' | 'approve';
+  onClose: () => void;
+  onSave: (roles: AppRole[], profileIds: string[]) => Promise<boolean>;
+}
+
+// Roles and permission profiles of a user; the user gets everything any of
+// them allows
+export const UserAccessDialog = ({ user, profiles, mode = 'edit', onClose, onSave }: UserAccessDialogProps) => {
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [profileIds, setProfileIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      setRoles(mode === 'approve' ? ['view_only'] : user.roles);
+      setProfileIds(mode === 'approve' ? [] : user.profileIds);
+    }
+  }, [user, mode]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await onSave(roles, profileIds);
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <Dialog open={user !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{mode === 'approve' ? 'Aprovar Cadastro' : 'Permissões'}</DialogTitle>
+          <DialogDescription>
+            {user?.fullName || user?.email}: combine funções e perfis; o usuário recebe tudo o que qualquer um
+            deles permitir.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 pt-2">
+          <UserAccessFields
+            roles={roles}
+            profileIds={profileIds}
+            profiles={profiles}
+            onRolesChange={setRoles}
+            onProfileIdsChange={setProfileIds}
+          />
+
+          <div className="flex gap-3">
+            <Button type="button" variant="outline" className="flex-1" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={handleSave}
+              disabled={isSaving || (roles.length === 0 && profileIds.length === 0)}
+            >
+              {isSaving ? 'Salvando...' : mode === 'approve' ? 'Aprovar' : 'Salvar'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,70 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { AppRole, PermissionProfile, profilePermissionLabels, roleLabels } from '@/types/transaction';
+
+interface UserAccessFieldsProps {
+  roles: AppRole[];
+  profileIds: string[];
+  profiles: PermissionProfile[];
+  onRolesChange: (roles: AppRole[]) => void;
+  onProfileIdsChange: (profileIds: string[]) => void;
+}
+
+const toggle = <T,>(list: T[], item: T, checked: boolean) =>
+  checked ? [...list, item] : list.filter((value) => value !== item);
+
+// Role and permission profile checkboxes, shared by the permissions,
+// approval and invitation dialogs
+export const UserAccessFields = ({
+  roles,
+  profileIds,
+  profiles,
+  onRolesChange,
+  onProfileIdsChange,
+}: UserAccessFieldsProps) => (
+  <div className="space-y-5">
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-muted-foreground">Funções</p>
+      {(Object.entries(roleLabels) as [AppRole, string][]).map(([role, label]) => (
+        <div key={role} className="flex items-center gap-2">
+          <Checkbox
+            id={`user-role-${role}`}
+            checked={roles.includes(role)}
+            onCheckedChange={(checked) => onRolesChange(toggle(roles, role, checked === true))}
+          />
+          <Label htmlFor={`user-role-${role}`} className="cursor-pointer font-normal">
+            {label}
+          </Label>
+        </div>
+      ))}
+    </div>
+
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-muted-foreground">Perfis personalizados</p>
+      {profiles.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum perfil cadastrado.</p>
+      ) : (
+        profiles.map((profile) => (
+          <div key={profile.id} className="flex items-start gap-2">
+            <Checkbox
+              id={`user-profile-${profile.id}`}
+              className="mt-0.5"
+              checked={profileIds.includes(profile.id)}
+              onCheckedChange={(checked) => onProfileIdsChange(toggle(profileIds, profile.id, checked === true))}
+            />
+            <Label htmlFor={`user-profile-${profile.id}`} className="cursor-pointer font-normal">
+              {profile.name}
+              <span className="block text-xs text-muted-foreground">
+                {profile.permissions.map((p) => profilePermissionLabels[p]).join(', ')}
+              </span>
+            </Label>
+          </div>
+        ))
+      )}
+    </div>
+
+    {roles.length === 0 && profileIds.length === 0 && (
+      <p className="text-sm text-destructive">Escolha ao menos uma função ou perfil.</p>
+    )}
+  </div>
+);
@@ -1,6 +1,6 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { dbCall } from '@/lib/db';
-import { AppRole, UserProfile } from '@/types/transaction';
+import { dbCall, getStoredSession, onSessionExpired, Session, storeSession } from '@/lib/db';
+import { AppRole, Permission, UserProfile } from '@/types/transaction';
 
 interface User {
   id: string;
@@ -14,28 +14,61 @@ interface DbUser {
   full_name: string | null;
   created_at: string;
   roles: Array<{ role: AppRole }>;
+  permissions: Permission[];
+  two_factor_enabled: boolean;
+  two_factor_setup_required: boolean;
+}
+
+interface LoginResponse {
+  user: DbUser;
+  session: Session;
+}
+
+/** Answer to a login whose password matched when the user has 2FA enabled */
+interface TwoFactorChallenge {
+  two_factor_required: true;
+  challenge_token: string;
 }
 
 interface AuthContextType {
   user: User | null;
   profile: UserProfile | null;
   roles: AppRole[];
+  /** Granted by the roles and permission profiles together, as computed by the server */
+  permissions: Permission[];
   loading: boolean;
-  signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
-  signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
+  /** challengeToken: the password matched and verifyTwoFactor has to finish the login */
+  signIn: (email: string, password: string) => Promise<{ error: Error | null; challengeToken?: string }>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<{ error: Error | null; code?: string }>;
+  /** pending: the account waits for an admin to approve it before it can log in */
+  signUp: (
+    email: string,
+    password: string,
+    fullName: string,
+    inviteToken?: string
+  ) => Promise<{ error: Error | null; pending: boolean }>;
   signOut: () => Promise<void>;
+  /** Reloads the user, e.g. after enabling 2FA */
+  refreshUser: () => Promise<void>;
+  twoFactorEnabled: boolean;
+  /** 2FA is required for the user and not enabled yet; nothing else works until it is */
+  twoFactorSetupRequired: boolean;
   canView: boolean;
   canEdit: boolean;
   canInsertExpense: boolean;
   canInsertIncome: boolean;
   canDelete: boolean;
+  canManageCategories: boolean;
+  canManageContacts: boolean;
+  canOperateCashRegister: boolean;
+  canExport: boolean;
+  canManageUsers: boolean;
+  canClosePeriods: boolean;
   isAdmin: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const USER_STORAGE_KEY = 'cash_flow_user';
-
 export const useAuth = () => {
   const context = useContext(AuthContext);
   if (!context) {
@@ -48,6 +81,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [roles, setRoles] = useState<AppRole[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [twoFactorEnabled, setTwoFactorEnabled] = useState(false);
+  const [twoFactorSetupRequired, setTwoFactorSetupRequired] = useState(false);
   const [loading, setLoading] = useState(true);
 
   const setUserData = (userData: DbUser | null) => {
@@ -64,66 +100,102 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         created_at: userData.created_at,
       });
       setRoles(userData.roles.map((r) => r.role));
-      localStorage.setItem(USER_STORAGE_KEY, userData.id);
+      setPermissions(userData.permissions);
+      setTwoFactorEnabled(userData.two_factor_enabled);
+      setTwoFactorSetupRequired(userData.two_factor_setup_required);
     } else {
       setUser(null);
       setProfile(null);
       setRoles([]);
-      localStorage.removeItem(USER_STORAGE_KEY);
+      setPermissions([]);
+      setTwoFactorEnabled(false);
+      setTwoFactorSetupRequired(false);
     }
   };
 
   useEffect(() => {
     const checkSession = async () => {
-      const storedUserId = localStorage.getItem(USER_STORAGE_KEY);
-      if (storedUserId) {
-        const { data, error } = await dbCall<DbUser>('getUser', { userId: storedUserId });
+      if (getStoredSession()) {
+        const { data, error } = await dbCall<DbUser>('getUser');
         if (data && !error) {
           setUserData(data);
         } else {
-          localStorage.removeItem(USER_STORAGE_KEY);
+          storeSession(null);
         }
       }
       setLoading(false);
     };
 
     checkSession();
+
+    return onSessionExpired(() => setUserData(null));
   }, []);
 
   const signIn = async (email: string, password: string) => {
-    const { data, error } = await dbCall<DbUser>('login', { email, password });
+    const { data, error } = await dbCall<LoginResponse | TwoFactorChallenge>('login', { email, password });
     
     if (error) {
       return { error: new Error(error) };
     }
-    
+
     if (data) {
-      setUserData(data);
+      if ('two_factor_required' in data) {
+        return { error: null, challengeToken: data.challenge_token };
+      }
+      storeSession(data.session);
+      setUserData(data.user);
     }
     
     return { error: null };
   };
 
-  const signUp = async (email: string, password: string, fullName: string) => {
-    const { data, error } = await dbCall<DbUser>('signup', { email, password, fullName });
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    const { data, error, code: errorCode } = await dbCall<LoginResponse>('verifyTwoFactor', { challengeToken, code });
+
+    if (error || !data) {
+      return { error: new Error(error || 'Invalid code'), code: errorCode };
+    }
+
+    storeSession(data.session);
+    setUserData(data.user);
+    return { error: null };
+  };
+
+  const refreshUser = async () => {
+    const { data, error } = await dbCall<DbUser>('getUser');
+    if (data && !error) {
+      setUserData(data);
+    }
+  };
+
+  const signUp = async (email: string, password: string, fullName: string, inviteToken?: string) => {
+    const { data, error } = await dbCall<{ pending: boolean }>('signup', { email, password, fullName, inviteToken });
     
     if (error) {
-      return { error: new Error(error) };
+      return { error: new Error(error), pending: false };
     }
     
-    return { error: null };
+    return { error: null, pending: !!data?.pending };
   };
 
   const signOut = async () => {
+    await dbCall('logout');
+    storeSession(null);
     setUserData(null);
   };
 
   const isAdmin = roles.includes('admin');
-  const canView = roles.length > 0;
-  const canEdit = isAdmin || roles.includes('edit');
-  const canInsertExpense = isAdmin || roles.includes('edit') || roles.includes('insert_expenses');
-  const canInsertIncome = isAdmin || roles.includes('edit') || roles.includes('insert_income');
-  const canDelete = isAdmin || roles.includes('edit');
+  const canView = permissions.includes('view');
+  const canEdit = permissions.includes('edit');
+  const canInsertExpense = permissions.includes('insert_expense');
+  const canInsertIncome = permissions.includes('insert_income');
+  const canDelete = permissions.includes('delete');
+  const canManageCategories = permissions.includes('manage_categories');
+  const canManageContacts = permissions.includes('manage_contacts');
+  const canOperateCashRegister = permissions.includes('operate_cash_register');
+  const canExport = permissions.includes('export');
+  const canManageUsers = permissions.includes('manage_users');
+  const canClosePeriods = permissions.includes('close_periods');
 
   return (
     <AuthContext.Provider
@@ -131,15 +203,26 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         user,
         profile,
         roles,
+        permissions,
         loading,
         signIn,
+        verifyTwoFactor,
         signUp,
         signOut,
+        refreshUser,
+        twoFactorEnabled,
+        twoFactorSetupRequired,
         canView,
         canEdit,
         canInsertExpense,
         canInsertIncome,
         canDelete,
+        canManageCategories,
+        canManageContacts,
+        canOperateCashRegister,
+        canExport,
+        canManageUsers,
+        canClosePeriods,
         isAdmin,
       }}
     >
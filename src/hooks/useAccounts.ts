@@ -0,0 +1,199 @@
+import { useState, useCallback, useEffect } from 'react';
+import { dbCall } from '@/lib/db';
+import { Account, AccountKind, Transfer } from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+interface DbAccount {
+  id: string;
+  name: string;
+  kind: string;
+  opening_balance: number;
+  balance: number;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DbTransfer {
+  id: string;
+  user_id: string;
+  date: string;
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  description: string | null;
+  created_at: string;
+}
+
+const mapDbToAccount = (a: DbAccount): Account => ({
+  id: a.id,
+  name: a.name,
+  kind: a.kind as AccountKind,
+  openingBalance: Number(a.opening_balance),
+  balance: Number(a.balance ?? a.opening_balance),
+  archived: !!a.archived_at,
+});
+
+const mapDbToTransfer = (t: DbTransfer): Transfer => ({
+  id: t.id,
+  date: new Date(t.date),
+  fromAccountId: t.from_account_id,
+  toAccountId: t.to_account_id,
+  amount: Number(t.amount),
+  description: t.description || '',
+  createdAt: new Date(t.created_at),
+});
+
+export const useAccounts = () => {
+  const { user } = useAuth();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAccounts = useCallback(async () => {
+    if (!user) return;
+
+    const [accountsRes, transfersRes] = await Promise.all([
+      dbCall<DbAccount[]>('getAccounts'),
+      dbCall<DbTransfer[]>('getTransfers'),
+    ]);
+
+    const error = accountsRes.error || transfersRes.error;
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar contas',
+        description: error,
+      });
+    } else {
+      setAccounts((accountsRes.data || []).map(mapDbToAccount));
+      setTransfers((transfersRes.data || []).map(mapDbToTransfer));
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const addAccount = useCallback(async (account: Pick<Account, 'name' | 'kind' | 'openingBalance'>) => {
+    const { data, error } = await dbCall<DbAccount>('insertAccount', {
+      data: {
+        name: account.name,
+        kind: account.kind,
+        opening_balance: account.openingBalance,
+      },
+    });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao salvar conta',
+        description: error,
+      });
+      return false;
+    }
+
+    if (data) {
+      setAccounts((prev) => [...prev, mapDbToAccount(data)]);
+    }
+    return true;
+  }, []);
+
+  const updateAccount = useCallback(
+    async (id: string, account: Partial<Pick<Account, 'name' | 'kind' | 'openingBalance' | 'archived'>>) => {
+      const data: Record<string, unknown> = {};
+      if (account.name !== undefined) data.name = account.name;
+      if (account.kind !== undefined) data.kind = account.kind;
+      if (account.openingBalance !== undefined) data.opening_balance = account.openingBalance;
+      if (account.archived !== undefined) data.archived = account.archived;
+
+      const { error } = await dbCall('updateAccount', { id, data });
+
+      if (error) {
+        toast({
+          variant: 'destructive',
+          title: 'Erro ao atualizar conta',
+          description: error,
+        });
+        return false;
+      }
+
+      // The balance depends on the opening balance, so reload it from the server
+      await fetchAccounts();
+      return true;
+    },
+    [fetchAccounts]
+  );
+
+  const deleteAccount = useCallback(async (id: string) => {
+    const { error, code } = await dbCall('deleteAccount', { id });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao excluir conta',
+        description: code === 'account_in_use'
+          ? 'Esta conta possui lançamentos. Arquive-a em vez de excluir.'
+          : error,
+      });
+      return false;
+    }
+
+    setAccounts((prev) => prev.filter((a) => a.id !== id));
+    return true;
+  }, []);
+
+  const addTransfer = useCallback(async (transfer: Omit<Transfer, 'id' | 'createdAt'>) => {
+    const { error } = await dbCall<DbTransfer>('insertTransfer', {
+      data: {
+        date: transfer.date.toISOString().split('T')[0],
+        from_account_id: transfer.fromAccountId,
+        to_account_id: transfer.toAccountId,
+        amount: transfer.amount,
+        description: transfer.description,
+      },
+    });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao registrar transferência',
+        description: error,
+      });
+      return false;
+    }
+
+    await fetchAccounts();
+    return true;
+  }, [fetchAccounts]);
+
+  const deleteTransfer = useCallback(async (id: string) => {
+    const { error } = await dbCall('deleteTransfer', { id });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao excluir transferência',
+        description: error,
+      });
+      return false;
+    }
+
+    await fetchAccounts();
+    return true;
+  }, [fetchAccounts]);
+
+  return {
+    accounts,
+    transfers,
+    loading,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    addTransfer,
+    deleteTransfer,
+    refetch: fetchAccounts,
+  };
+};
@@ -0,0 +1,64 @@
+import { useState, useCallback, useEffect } from 'react';
+import { dbCall } from '@/lib/db';
+import { AppSettings } from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+interface DbAppSettings {
+  require_signup_approval: boolean;
+  require_two_factor: boolean;
+}
+
+const mapDbToAppSettings = (s: DbAppSettings): AppSettings => ({
+  requireSignupApproval: s.require_signup_approval,
+  requireTwoFactor: s.require_two_factor,
+});
+
+// System wide settings; only available with the manage users permission
+export const useAppSettings = () => {
+  const { user, canManageUsers, refreshUser } = useAuth();
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+
+  useEffect(() => {
+    if (!user || !canManageUsers) return;
+
+    dbCall<DbAppSettings>('getAppSettings').then(({ data, error }) => {
+      if (error || !data) {
+        toast({
+          variant: 'destructive',
+          title: 'Erro ao carregar configurações',
+          description: error,
+        });
+      } else {
+        setSettings(mapDbToAppSettings(data));
+      }
+    });
+  }, [user, canManageUsers]);
+
+  const updateSettings = useCallback(async (changes: Partial<AppSettings>) => {
+    const { data, error } = await dbCall<DbAppSettings>('updateAppSettings', {
+      data: {
+        require_signup_approval: changes.requireSignupApproval,
+        require_two_factor: changes.requireTwoFactor,
+      },
+    });
+
+    if (error || !data) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao salvar configurações',
+        description: error,
+      });
+      return false;
+    }
+
+    setSettings(mapDbToAppSettings(data));
+    // Requiring 2FA may apply to the admin who just turned it on
+    if (changes.requireTwoFactor !== undefined) {
+      await refreshUser();
+    }
+    return true;
+  }, [refreshUser]);
+
+  return { settings, updateSettings };
+};
@@ -0,0 +1,172 @@
+import { useState, useCallback, useEffect } from 'react';
+import { dbCall } from '@/lib/db';
+import { downloadFile } from '@/lib/export';
+import { isImageAttachment, readFileAsBase64, toDataUrl, validateAttachmentFile } from '@/lib/attachments';
+import { Attachment } from '@/types/transaction';
+import { toast } from '@/hooks/use-toast';
+
+interface DbAttachment {
+  id: string;
+  transaction_id: string;
+  file_name: string;
+  content_type: string;
+  size: number;
+  uploaded_by_name?: string | null;
+  uploaded_by_email?: string | null;
+  created_at: string;
+}
+
+const mapDbToAttachment = (a: DbAttachment): Attachment => ({
+  id: a.id,
+  transactionId: a.transaction_id,
+  fileName: a.file_name,
+  contentType: a.content_type,
+  size: a.size,
+  uploadedByName: a.uploaded_by_name || a.uploaded_by_email || null,
+  createdAt: new Date(a.created_at),
+});
+
+const attachmentErrorMessages: Record<string, string> = {
+  invalid_attachment: 'Apenas imagens (JPG, PNG, WebP) e PDF podem ser anexados.',
+  attachment_too_large: 'O arquivo excede o limite de 5 MB.',
+};
+
+// Opens an attachment in a new tab. The tab is opened before the content
+// arrives so popup blockers still see it as a response to the click.
+export const openAttachment = async (attachment: Attachment) => {
+  const tab = window.open('', '_blank');
+  const { data, error } = await dbCall<{ content: string }>('getAttachment', { id: attachment.id });
+
+  if (error || !data) {
+    tab?.close();
+    toast({
+      variant: 'destructive',
+      title: 'Erro ao abrir anexo',
+      description: error,
+    });
+    return;
+  }
+
+  const blob = await (await fetch(toDataUrl(attachment.contentType, data.content))).blob();
+  if (tab) {
+    tab.location.href = URL.createObjectURL(blob);
+  } else {
+    // Popup blocked: download it instead
+    downloadFile(blob, attachment.fileName, attachment.contentType);
+  }
+};
+
+// Uploads files one by one; returns those that were stored. Files that fail
+// validation are reported and skipped.
+export const uploadAttachments = async (transactionId: string, files: File[]) => {
+  const uploaded: Attachment[] = [];
+
+  for (const file of files) {
+    const invalid = validateAttachmentFile(file);
+    if (invalid) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao anexar arquivo',
+        description: invalid,
+      });
+      continue;
+    }
+
+    const { data, error, code } = await dbCall<DbAttachment>('uploadAttachment', {
+      id: transactionId,
+      data: {
+        file_name: file.name,
+        content_type: file.type,
+        content: await readFileAsBase64(file),
+      },
+    });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao anexar arquivo',
+        description: `${file.name}: ${(code && attachmentErrorMessages[code]) || error}`,
+      });
+    } else if (data) {
+      uploaded.push(mapDbToAttachment(data));
+    }
+  }
+
+  return uploaded;
+};
+
+// Files attached to one transaction, with image previews as data URLs.
+// Nothing is loaded while transactionId is null.
+export const useAttachments = (transactionId: string | null) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  const loadPreviews = useCallback(async (items: Attachment[]) => {
+    for (const attachment of items.filter((a) => isImageAttachment(a.contentType))) {
+      const { data } = await dbCall<{ content: string }>('getAttachment', { id: attachment.id });
+      if (data) {
+        setPreviews((prev) => ({ ...prev, [attachment.id]: toDataUrl(attachment.contentType, data.content) }));
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    setAttachments([]);
+    setPreviews({});
+    if (!transactionId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    dbCall<DbAttachment[]>('getAttachments', { id: transactionId }).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        toast({
+          variant: 'destructive',
+          title: 'Erro ao carregar anexos',
+          description: error,
+        });
+      } else {
+        const items = (data || []).map(mapDbToAttachment);
+        setAttachments(items);
+        loadPreviews(items);
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [transactionId, loadPreviews]);
+
+  const upload = useCallback(async (files: File[]) => {
+    if (!transactionId) return false;
+
+    setUploading(true);
+    const uploaded = await uploadAttachments(transactionId, files);
+    setUploading(false);
+
+    setAttachments((prev) => [...prev, ...uploaded]);
+    loadPreviews(uploaded);
+    return uploaded.length === files.length;
+  }, [transactionId, loadPreviews]);
+
+  const remove = useCallback(async (id: string) => {
+    const { error } = await dbCall('deleteAttachment', { id });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao remover anexo',
+        description: error,
+      });
+      return false;
+    }
+
+    setAttachments((prev) => prev.filter((a) => a.id !== id));
+    return true;
+  }, []);
+
+  return { attachments, previews, loading, uploading, upload, remove };
+};
@@ -0,0 +1,139 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { dbCall } from '@/lib/db';
+import { AuditAction, AuditEntityType, AuditEntry } from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+interface DbAuditEntry {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_name: string | null;
+  entity_type: string;
+  entity_id: string;
+  user_label?: string | null;
+  action: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
+interface DbAuditPage {
+  rows: DbAuditEntry[];
+  nextCursor: string | null;
+}
+
+const PAGE_SIZE = 50;
+
+const mapDbToAuditEntry = (e: DbAuditEntry): AuditEntry => ({
+  id: e.id,
+  actorName: e.actor_name,
+  actorEmail: e.actor_email,
+  entityType: e.entity_type as AuditEntityType,
+  entityId: e.entity_id,
+  userLabel: e.user_label,
+  action: e.action as AuditAction,
+  before: e.before,
+  after: e.after,
+  createdAt: new Date(e.created_at),
+});
+
+// Full audit trail, newest first; only available to admins
+export const useAuditLog = (entityType?: AuditEntityType) => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const requestId = useRef(0);
+
+  const fetchEntries = useCallback(async () => {
+    if (!user) return;
+
+    const id = ++requestId.current;
+    const { data, error } = await dbCall<DbAuditPage>('getAuditLog', { entityType, limit: PAGE_SIZE });
+    if (id !== requestId.current) return;
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar histórico',
+        description: error,
+      });
+    } else if (data) {
+      setEntries(data.rows.map(mapDbToAuditEntry));
+      setNextCursor(data.nextCursor);
+    }
+    setLoading(false);
+  }, [user, entityType]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const id = requestId.current;
+    setLoadingMore(true);
+    const { data, error } = await dbCall<DbAuditPage>('getAuditLog', {
+      entityType,
+      cursor: nextCursor,
+      limit: PAGE_SIZE,
+    });
+    setLoadingMore(false);
+    if (id !== requestId.current) return;
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar histórico',
+        description: error,
+      });
+    } else if (data) {
+      setEntries((prev) => [...prev, ...data.rows.map(mapDbToAuditEntry)]);
+      setNextCursor(data.nextCursor);
+    }
+  }, [nextCursor, loadingMore, entityType]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return {
+    entries,
+    loading,
+    loadingMore,
+    hasMore: nextCursor !== null,
+    loadMore,
+  };
+};
+
+// Changes made to a single transaction, oldest first. Nothing is loaded
+// while transactionId is null.
+export const useTransactionHistory = (transactionId: string | null) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!transactionId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    dbCall<DbAuditEntry[]>('getTransactionHistory', { id: transactionId }).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        toast({
+          variant: 'destructive',
+          title: 'Erro ao carregar histórico',
+          description: error,
+        });
+      } else {
+        setEntries((data || []).map(mapDbToAuditEntry));
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [transactionId]);
+
+  return { entries, loading };
+};
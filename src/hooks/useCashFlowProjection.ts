@@ -0,0 +1,98 @@
+import { useState, useEffect, useRef } from 'react';
+import { dbCall } from '@/lib/db';
+import {
+  CashFlowProjection,
+  PaymentMethod,
+  ProjectedEntry,
+  ProjectionDay,
+  ProjectionLength,
+  TransactionType,
+} from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+interface DbProjectedEntry {
+  id: string;
+  type: string;
+  client_supplier: string;
+  description: string | null;
+  amount: number | string;
+  payment_method: string;
+  account_id: string;
+  date: string;
+  overdue: boolean;
+}
+
+interface DbCashFlowProjection {
+  start_date: string;
+  opening_balance: number | string;
+  entries: DbProjectedEntry[];
+}
+
+const DAY_MS = 86400000;
+
+const mapDbToProjectedEntry = (e: DbProjectedEntry): ProjectedEntry => ({
+  id: e.id,
+  type: e.type as TransactionType,
+  clientSupplier: e.client_supplier,
+  description: e.description || '',
+  amount: Number(e.amount),
+  paymentMethod: e.payment_method as PaymentMethod,
+  accountId: e.account_id,
+  overdue: e.overdue,
+});
+
+// Spreads the entries over every day of the range, today included, carrying
+// the balance from one day to the next. Dates stay in UTC like the server's.
+const mapDbToProjection = (p: DbCashFlowProjection, length: ProjectionLength): CashFlowProjection => {
+  const openingBalance = Number(p.opening_balance);
+  const start = new Date(p.start_date).getTime();
+  let balance = openingBalance;
+
+  const days: ProjectionDay[] = Array.from({ length: length + 1 }, (_, i) => {
+    const date = new Date(start + i * DAY_MS);
+    const key = date.toISOString().slice(0, 10);
+    const entries = p.entries.filter((e) => e.date === key).map(mapDbToProjectedEntry);
+    const income = entries.filter((e) => e.type === 'income').reduce((sum, e) => sum + e.amount, 0);
+    const expense = entries.filter((e) => e.type === 'expense').reduce((sum, e) => sum + e.amount, 0);
+    balance += income - expense;
+    return { date, income, expense, balance, entries };
+  });
+
+  return { openingBalance, days };
+};
+
+export const useCashFlowProjection = (length: ProjectionLength) => {
+  const { user } = useAuth();
+  const [projection, setProjection] = useState<CashFlowProjection | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Responses to an outdated query are ignored
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchProjection = async () => {
+      const id = ++requestId.current;
+      setLoading(true);
+
+      const { data, error } = await dbCall<DbCashFlowProjection>('getCashFlowProjection', { days: length });
+      if (id !== requestId.current) return;
+
+      if (error || !data) {
+        toast({
+          variant: 'destructive',
+          title: 'Erro ao carregar projeção',
+          description: error || undefined,
+        });
+      } else {
+        setProjection(mapDbToProjection(data, length));
+      }
+      setLoading(false);
+    };
+
+    fetchProjection();
+  }, [user, length]);
+
+  return { projection, loading };
+};
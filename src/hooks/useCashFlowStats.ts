@@ -0,0 +1,105 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { dbCall } from '@/lib/db';
+import { CashFlowCounterparty, CashFlowStats, Filters, PaymentMethod } from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { SEARCH_DEBOUNCE_MS, toDbFilters } from '@/hooks/useTransactions';
+
+interface DbCashFlowCounterparty {
+  client_supplier: string;
+  type: 'income' | 'expense';
+  total: number | string;
+  count: number;
+}
+
+interface DbCashFlowStats {
+  opening_balance: number | string;
+  account_balance: boolean;
+  months: { month: string; income: number | string; expense: number | string }[];
+  days: { date: string; net: number | string }[];
+  transfers: { date: string; net: number | string }[];
+  payment_methods: { payment_method: string; income: number | string; expense: number | string }[];
+  top_counterparties: DbCashFlowCounterparty[];
+}
+
+const mapDbToCounterparty = (c: DbCashFlowCounterparty): CashFlowCounterparty => ({
+  name: c.client_supplier,
+  total: Number(c.total),
+  count: c.count,
+});
+
+// Days come as "yyyy-MM-dd", so sorting the keys sorts them by date
+const mapDbToDays = (s: DbCashFlowStats, openingBalance: number) => {
+  const byDate = new Map<string, { net: number; transfers: number }>();
+  s.days.forEach((d) => byDate.set(d.date, { net: Number(d.net), transfers: 0 }));
+  s.transfers.forEach((t) => {
+    const day = byDate.get(t.date) || { net: 0, transfers: 0 };
+    byDate.set(t.date, { ...day, transfers: Number(t.net) });
+  });
+
+  let balance = openingBalance;
+  return [...byDate.keys()].sort().map((date) => {
+    const { net, transfers } = byDate.get(date)!;
+    balance += net + transfers;
+    return { date: new Date(date), net, transfers, balance };
+  });
+};
+
+const mapDbToStats = (s: DbCashFlowStats): CashFlowStats => {
+  const openingBalance = Number(s.opening_balance);
+
+  return {
+    openingBalance,
+    accountBalance: s.account_balance,
+    months: s.months.map((m) => ({ month: m.month, income: Number(m.income), expense: Number(m.expense) })),
+    days: mapDbToDays(s, openingBalance),
+    paymentMethods: s.payment_methods.map((p) => ({
+      paymentMethod: p.payment_method as PaymentMethod,
+      income: Number(p.income),
+      expense: Number(p.expense),
+    })),
+    topClients: s.top_counterparties.filter((c) => c.type === 'income').map(mapDbToCounterparty),
+    topSuppliers: s.top_counterparties.filter((c) => c.type === 'expense').map(mapDbToCounterparty),
+  };
+};
+
+// Dashboard aggregates for the same filters as the transaction list
+export const useCashFlowStats = (filters: Filters) => {
+  const { user } = useAuth();
+  const [stats, setStats] = useState<CashFlowStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Responses to an outdated query are ignored
+  const requestId = useRef(0);
+
+  const queryKey = JSON.stringify(toDbFilters(filters));
+  const dbFilters = useMemo(() => JSON.parse(queryKey) as ReturnType<typeof toDbFilters>, [queryKey]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchStats = async () => {
+      const id = ++requestId.current;
+      setLoading(true);
+
+      const { data, error } = await dbCall<DbCashFlowStats>('getCashFlowStats', { filters: dbFilters });
+      if (id !== requestId.current) return;
+
+      if (error || !data) {
+        toast({
+          variant: 'destructive',
+          title: 'Erro ao carregar gráficos',
+          description: error || undefined,
+        });
+      } else {
+        setStats(mapDbToStats(data));
+      }
+      setLoading(false);
+    };
+
+    // Typing in the search box reloads once the user pauses
+    const timeout = setTimeout(fetchStats, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [user, dbFilters]);
+
+  return { stats, loading };
+};
@@ -0,0 +1,53 @@
+import { useState, useCallback } from 'react';
+import { dbCall } from '@/lib/db';
+import { CashReport, buildCashReport } from '@/lib/cashReport';
+import { Filters } from '@/types/transaction';
+import { toast } from '@/hooks/use-toast';
+import { DbTransaction, mapDbToTransaction, toDbFilters } from '@/hooks/useTransactions';
+
+interface DbCashReport {
+  opening_balance: number | string;
+  account_balance: boolean;
+  transfers: { date: string; net: number | string }[];
+  transactions: DbTransaction[];
+}
+
+// Loads the paid entries matching the filters between startDate and endDate
+// and assembles the cash report from them
+export const useCashReport = () => {
+  const [loading, setLoading] = useState(false);
+
+  const loadReport = useCallback(
+    async (filters: Filters, startDate: Date, endDate: Date, filterLabels: string[] = []): Promise<CashReport | null> => {
+      setLoading(true);
+      const { data, error } = await dbCall<DbCashReport>('getCashReport', {
+        filters: toDbFilters({ ...filters, startDate, endDate }),
+      });
+      setLoading(false);
+
+      if (error || !data) {
+        toast({
+          variant: 'destructive',
+          title: 'Erro ao gerar relatório',
+          description: error,
+        });
+        return null;
+      }
+
+      return buildCashReport(
+        data.transactions.map(mapDbToTransaction),
+        Number(data.opening_balance),
+        startDate,
+        endDate,
+        filterLabels,
+        {
+          accountBalance: data.account_balance,
+          transfers: data.transfers.map((t) => ({ date: new Date(t.date), net: Number(t.net) })),
+        }
+      );
+    },
+    []
+  );
+
+  return { loading, loadReport };
+};
@@ -0,0 +1,157 @@
+import { useState, useCallback, useEffect } from 'react';
+import { dbCall } from '@/lib/db';
+import { CashCounts, CashSession, CashSessionDetail } from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { DbTransaction, mapDbToTransaction } from '@/hooks/useTransactions';
+
+interface DbCashSession {
+  id: string;
+  account_id: string;
+  account_name: string;
+  opened_at: string;
+  opened_by_name: string | null;
+  opened_by_email: string | null;
+  opening_amount: number | string;
+  expected_amount: number | string;
+  closed_at: string | null;
+  closed_by_name: string | null;
+  closed_by_email: string | null;
+  closing_amount: number | string | null;
+  difference: number | string | null;
+  notes: string | null;
+  opening_counts?: CashCounts;
+  closing_counts?: CashCounts | null;
+}
+
+const toNumberOrNull = (value: number | string | null) => (value === null ? null : Number(value));
+
+const mapDbToCashSession = (s: DbCashSession): CashSession => ({
+  id: s.id,
+  accountId: s.account_id,
+  accountName: s.account_name,
+  openedAt: new Date(s.opened_at),
+  openedByName: s.opened_by_name || s.opened_by_email,
+  openingAmount: Number(s.opening_amount),
+  expectedAmount: Number(s.expected_amount),
+  closedAt: s.closed_at ? new Date(s.closed_at) : null,
+  closedByName: s.closed_by_name || s.closed_by_email,
+  closingAmount: toNumberOrNull(s.closing_amount),
+  difference: toNumberOrNull(s.difference),
+  notes: s.notes || '',
+});
+
+const sessionErrorMessages: Record<string, string> = {
+  session_open: 'Já existe um caixa aberto para esta conta.',
+  session_closed: 'Este caixa já foi fechado.',
+};
+
+// Every cash register session, open ones first
+export const useCashSessions = () => {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<CashSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSessions = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await dbCall<DbCashSession[]>('getCashSessions');
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar caixas',
+        description: error,
+      });
+    } else {
+      setSessions((data || []).map(mapDbToCashSession));
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const openSession = useCallback(async (accountId: string, counts: CashCounts, notes: string) => {
+    const { error, code } = await dbCall('openCashSession', {
+      data: { account_id: accountId, counts, notes },
+    });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao abrir caixa',
+        description: (code && sessionErrorMessages[code]) || error,
+      });
+      return false;
+    }
+
+    await fetchSessions();
+    return true;
+  }, [fetchSessions]);
+
+  const closeSession = useCallback(async (id: string, counts: CashCounts, notes: string) => {
+    const { error, code } = await dbCall('closeCashSession', { id, data: { counts, notes } });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao fechar caixa',
+        description: (code && sessionErrorMessages[code]) || error,
+      });
+      return false;
+    }
+
+    await fetchSessions();
+    return true;
+  }, [fetchSessions]);
+
+  return {
+    sessions,
+    loading,
+    openSession,
+    closeSession,
+    refetch: fetchSessions,
+  };
+};
+
+// One session with its counts and entries. Nothing is loaded while id is null.
+export const useCashSession = (id: string | null) => {
+  const [session, setSession] = useState<CashSessionDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setSession(null);
+    if (!id) return;
+
+    let cancelled = false;
+    setLoading(true);
+    dbCall<{ session: DbCashSession; transactions: DbTransaction[] }>('getCashSession', { id }).then(
+      ({ data, error }) => {
+        if (cancelled) return;
+        if (error || !data) {
+          toast({
+            variant: 'destructive',
+            title: 'Erro ao carregar caixa',
+            description: error,
+          });
+        } else {
+          setSession({
+            ...mapDbToCashSession(data.session),
+            openingCounts: data.session.opening_counts || {},
+            closingCounts: data.session.closing_counts ?? null,
+            transactions: data.transactions.map(mapDbToTransaction),
+          });
+        }
+        setLoading(false);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  return { session, loading };
+};
@@ -0,0 +1,122 @@
+import { useState, useCallback, useEffect } from 'react';
+import { dbCall } from '@/lib/db';
+import { Category, TransactionType } from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+interface DbCategory {
+  id: string;
+  name: string;
+  type: 'income' | 'expense';
+  parent_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const mapDbToCategory = (c: DbCategory): Category => ({
+  id: c.id,
+  name: c.name,
+  type: c.type as TransactionType,
+  parentId: c.parent_id,
+});
+
+export const useCategories = () => {
+  const { user } = useAuth();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCategories = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const { data, error } = await dbCall<DbCategory[]>('getCategories');
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar categorias',
+        description: error,
+      });
+    } else {
+      setCategories((data || []).map(mapDbToCategory));
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  const addCategory = useCallback(async (category: Omit<Category, 'id'>) => {
+    const { data, error } = await dbCall<DbCategory>('insertCategory', {
+      data: {
+        name: category.name,
+        type: category.type,
+        parent_id: category.parentId,
+      },
+    });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao salvar categoria',
+        description: error,
+      });
+      return false;
+    }
+
+    if (data) {
+      setCategories((prev) => [...prev, mapDbToCategory(data)]);
+    }
+    return true;
+  }, []);
+
+  const updateCategory = useCallback(async (id: string, category: Partial<Pick<Category, 'name' | 'parentId'>>) => {
+    const payload: Record<string, unknown> = {};
+    if (category.name !== undefined) payload.name = category.name;
+    if (category.parentId !== undefined) payload.parent_id = category.parentId;
+
+    const { data, error } = await dbCall<DbCategory>('updateCategory', { id, data: payload });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao atualizar categoria',
+        description: error,
+      });
+      return false;
+    }
+
+    if (data) {
+      setCategories((prev) => prev.map((c) => (c.id === id ? mapDbToCategory(data) : c)));
+    }
+    return true;
+  }, []);
+
+  const deleteCategory = useCallback(async (id: string) => {
+    const { error, code } = await dbCall('deleteCategory', { id });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao excluir categoria',
+        description: code === 'category_has_children'
+          ? 'Exclua ou mova as subcategorias antes de excluir esta categoria.'
+          : error,
+      });
+      return false;
+    }
+
+    setCategories((prev) => prev.filter((c) => c.id !== id));
+    return true;
+  }, []);
+
+  return {
+    categories,
+    loading,
+    addCategory,
+    updateCategory,
+    deleteCategory,
+    refetch: fetchCategories,
+  };
+};
@@ -0,0 +1,92 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { dbCall } from '@/lib/db';
+import { ClosedPeriod } from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+interface DbClosedPeriod {
+  month: string;
+  closed_at: string;
+  closed_by_email: string | null;
+  closed_by_name: string | null;
+}
+
+const mapDbToClosedPeriod = (p: DbClosedPeriod): ClosedPeriod => ({
+  month: p.month,
+  closedAt: new Date(p.closed_at),
+  closedByName: p.closed_by_name || p.closed_by_email,
+});
+
+export const useClosedPeriods = () => {
+  const { user } = useAuth();
+  const [periods, setPeriods] = useState<ClosedPeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPeriods = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await dbCall<DbClosedPeriod[]>('getClosedPeriods');
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar períodos fechados',
+        description: error,
+      });
+    } else {
+      setPeriods((data || []).map(mapDbToClosedPeriod));
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchPeriods();
+  }, [fetchPeriods]);
+
+  const closePeriod = useCallback(async (month: string) => {
+    const { error } = await dbCall('closePeriod', { data: { month } });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao fechar período',
+        description: error,
+      });
+      return false;
+    }
+
+    await fetchPeriods();
+    return true;
+  }, [fetchPeriods]);
+
+  const reopenPeriod = useCallback(async (month: string) => {
+    const { error } = await dbCall('reopenPeriod', { data: { month } });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao reabrir período',
+        description: error,
+      });
+      return false;
+    }
+
+    setPeriods((prev) => prev.filter((p) => p.month !== month));
+    return true;
+  }, []);
+
+  // Dates are compared the way they are sent to the server, as UTC calendar days
+  const isDateClosed = useMemo(() => {
+    const closedMonths = new Set(periods.map((p) => p.month));
+    return (date: Date) => closedMonths.has(date.toISOString().slice(0, 7));
+  }, [periods]);
+
+  return {
+    periods,
+    loading,
+    closePeriod,
+    reopenPeriod,
+    isDateClosed,
+    refetch: fetchPeriods,
+  };
+};
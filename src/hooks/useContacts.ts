@@ -0,0 +1,183 @@
+import { useState, useCallback, useEffect } from 'react';
+import { dbCall } from '@/lib/db';
+import { Contact, ContactStatement, NewContact, PaymentMethod } from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { DbTransaction, mapDbToTransaction } from '@/hooks/useTransactions';
+
+interface DbContact {
+  id: string;
+  name: string;
+  document: string | null;
+  phone: string | null;
+  email: string | null;
+  default_payment_method: string | null;
+  notes: string | null;
+  transaction_count?: number;
+  balance?: number | string;
+}
+
+interface DbContactStatement {
+  contact: DbContact;
+  transactions: DbTransaction[];
+  totals: {
+    income: number | string;
+    expense: number | string;
+    pending_income: number | string;
+    pending_expense: number | string;
+  };
+}
+
+const mapDbToContact = (c: DbContact): Contact => ({
+  id: c.id,
+  name: c.name,
+  document: c.document,
+  phone: c.phone,
+  email: c.email,
+  defaultPaymentMethod: c.default_payment_method as PaymentMethod | null,
+  notes: c.notes || '',
+  transactionCount: c.transaction_count ?? 0,
+  balance: Number(c.balance ?? 0),
+});
+
+const toDbContact = (contact: Partial<NewContact>) => {
+  const data: Record<string, unknown> = {};
+  if (contact.name !== undefined) data.name = contact.name;
+  if (contact.document !== undefined) data.document = contact.document;
+  if (contact.phone !== undefined) data.phone = contact.phone;
+  if (contact.email !== undefined) data.email = contact.email;
+  if (contact.defaultPaymentMethod !== undefined) data.default_payment_method = contact.defaultPaymentMethod;
+  if (contact.notes !== undefined) data.notes = contact.notes;
+  return data;
+};
+
+const contactErrorMessages: Record<string, string> = {
+  invalid_document: 'CPF/CNPJ inválido.',
+  document_in_use: 'Já existe um contato com este CPF/CNPJ.',
+};
+
+export const useContacts = () => {
+  const { user } = useAuth();
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchContacts = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await dbCall<DbContact[]>('getContacts');
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar contatos',
+        description: error,
+      });
+    } else {
+      setContacts((data || []).map(mapDbToContact));
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchContacts();
+  }, [fetchContacts]);
+
+  const addContact = useCallback(async (contact: NewContact) => {
+    const { data, error, code } = await dbCall<DbContact>('insertContact', { data: toDbContact(contact) });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao salvar contato',
+        description: (code && contactErrorMessages[code]) || error,
+      });
+      return false;
+    }
+
+    if (data) {
+      const added = mapDbToContact(data);
+      setContacts((prev) => [...prev, added].sort((a, b) => a.name.localeCompare(b.name, 'pt-BR')));
+    }
+    return true;
+  }, []);
+
+  const updateContact = useCallback(async (id: string, contact: Partial<NewContact>) => {
+    const { error, code } = await dbCall('updateContact', { id, data: toDbContact(contact) });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao atualizar contato',
+        description: (code && contactErrorMessages[code]) || error,
+      });
+      return false;
+    }
+
+    await fetchContacts();
+    return true;
+  }, [fetchContacts]);
+
+  const deleteContact = useCallback(async (id: string) => {
+    const { error } = await dbCall('deleteContact', { id });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao excluir contato',
+        description: error,
+      });
+      return false;
+    }
+
+    setContacts((prev) => prev.filter((c) => c.id !== id));
+    return true;
+  }, []);
+
+  return {
+    contacts,
+    loading,
+    addContact,
+    updateContact,
+    deleteContact,
+    refetch: fetchContacts,
+  };
+};
+
+export const useContactStatement = (id: string | undefined) => {
+  const { user } = useAuth();
+  const [statement, setStatement] = useState<ContactStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchStatement = useCallback(async () => {
+    if (!user || !id) return;
+
+    const { data, error } = await dbCall<DbContactStatement>('getContactStatement', { id });
+
+    if (error || !data) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar extrato',
+        description: error || undefined,
+      });
+    } else {
+      const income = Number(data.totals.income);
+      const expense = Number(data.totals.expense);
+      setStatement({
+        contact: mapDbToContact(data.contact),
+        transactions: data.transactions.map(mapDbToTransaction),
+        income,
+        expense,
+        balance: income - expense,
+        pendingIncome: Number(data.totals.pending_income),
+        pendingExpense: Number(data.totals.pending_expense),
+      });
+    }
+    setLoading(false);
+  }, [user, id]);
+
+  useEffect(() => {
+    fetchStatement();
+  }, [fetchStatement]);
+
+  return { statement, loading, refetch: fetchStatement };
+};
@@ -0,0 +1,109 @@
+import { useState, useCallback, useEffect } from 'react';
+import { dbCall } from '@/lib/db';
+import { AppRole, Invitation } from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+interface DbInvitation {
+  id: string;
+  email: string;
+  roles: string[];
+  profile_ids: string[];
+  invited_by_name?: string | null;
+  invited_by_email?: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
+const mapDbToInvitation = (i: DbInvitation): Invitation => ({
+  id: i.id,
+  email: i.email,
+  roles: i.roles as AppRole[],
+  profileIds: i.profile_ids,
+  invitedByName: i.invited_by_name || i.invited_by_email || null,
+  expiresAt: new Date(i.expires_at),
+  createdAt: new Date(i.created_at),
+});
+
+const invitationErrorMessages: Record<string, string> = {
+  email_in_use: 'Já existe um usuário com este email.',
+  not_found: 'Convite não encontrado.',
+};
+
+// The signup link of an invitation; the token is only known when it is created
+export const getInvitationLink = (token: string) =>
+  `${window.location.origin}/auth?invite=${encodeURIComponent(token)}`;
+
+// Invitations not yet used or revoked; only available with the manage users permission
+export const useInvitations = () => {
+  const { user, canManageUsers } = useAuth();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchInvitations = useCallback(async () => {
+    if (!user || !canManageUsers) return;
+
+    const { data, error } = await dbCall<DbInvitation[]>('getInvitations');
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar convites',
+        description: error,
+      });
+    } else {
+      setInvitations((data || []).map(mapDbToInvitation));
+    }
+    setLoading(false);
+  }, [user, canManageUsers]);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  // Returns the invitation link, or null when it could not be created
+  const createInvitation = useCallback(
+    async (email: string, roles: AppRole[], profileIds: string[]) => {
+      const { data, error, code } = await dbCall<DbInvitation & { token: string }>('createInvitation', {
+        data: { email, roles, profile_ids: profileIds },
+      });
+
+      if (error || !data) {
+        toast({
+          variant: 'destructive',
+          title: 'Erro ao criar convite',
+          description: (code && invitationErrorMessages[code]) || error,
+        });
+        return null;
+      }
+
+      setInvitations((prev) => [mapDbToInvitation(data), ...prev]);
+      return getInvitationLink(data.token);
+    },
+    []
+  );
+
+  const revokeInvitation = useCallback(async (id: string) => {
+    const { error, code } = await dbCall('revokeInvitation', { id });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao revogar convite',
+        description: (code && invitationErrorMessages[code]) || error,
+      });
+      return false;
+    }
+
+    setInvitations((prev) => prev.filter((i) => i.id !== id));
+    return true;
+  }, []);
+
+  return {
+    invitations,
+    loading,
+    createInvitation,
+    revokeInvitation,
+    refetch: fetchInvitations,
+  };
+};
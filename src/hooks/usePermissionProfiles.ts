@@ -0,0 +1,111 @@
+import { useState, useCallback, useEffect } from 'react';
+import { dbCall } from '@/lib/db';
+import { PermissionProfile, ProfilePermission } from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+interface DbPermissionProfile {
+  id: string;
+  name: string;
+  permissions: string[];
+  user_count: number;
+}
+
+const mapDbToPermissionProfile = (p: DbPermissionProfile): PermissionProfile => ({
+  id: p.id,
+  name: p.name,
+  permissions: p.permissions as ProfilePermission[],
+  userCount: p.user_count,
+});
+
+const profileErrorMessages: Record<string, string> = {
+  profile_name_in_use: 'Já existe um perfil com este nome.',
+  profile_in_use: 'Este perfil está atribuído a usuários. Retire-o deles antes de excluir.',
+};
+
+type ProfileFields = Pick<PermissionProfile, 'name' | 'permissions'>;
+
+// Custom permission profiles, by name; only available with the manage users permission
+export const usePermissionProfiles = () => {
+  const { user, canManageUsers } = useAuth();
+  const [profiles, setProfiles] = useState<PermissionProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchProfiles = useCallback(async () => {
+    if (!user || !canManageUsers) return;
+
+    const { data, error } = await dbCall<DbPermissionProfile[]>('getPermissionProfiles');
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar perfis',
+        description: error,
+      });
+    } else {
+      setProfiles((data || []).map(mapDbToPermissionProfile));
+    }
+    setLoading(false);
+  }, [user, canManageUsers]);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  const addProfile = useCallback(async (profile: ProfileFields) => {
+    const { error, code } = await dbCall('insertPermissionProfile', { data: profile });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao salvar perfil',
+        description: (code && profileErrorMessages[code]) || error,
+      });
+      return false;
+    }
+
+    await fetchProfiles();
+    return true;
+  }, [fetchProfiles]);
+
+  const updateProfile = useCallback(async (id: string, profile: ProfileFields) => {
+    const { error, code } = await dbCall('updatePermissionProfile', { id, data: profile });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao atualizar perfil',
+        description: (code && profileErrorMessages[code]) || error,
+      });
+      return false;
+    }
+
+    await fetchProfiles();
+    return true;
+  }, [fetchProfiles]);
+
+  const deleteProfile = useCallback(async (id: string) => {
+    const { error, code } = await dbCall('deletePermissionProfile', { id });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao excluir perfil',
+        description: (code && profileErrorMessages[code]) || error,
+      });
+      return false;
+    }
+
+    setProfiles((prev) => prev.filter((p) => p.id !== id));
+    return true;
+  }, []);
+
+  return {
+    profiles,
+    loading,
+    addProfile,
+    updateProfile,
+    deleteProfile,
+    refetch: fetchProfiles,
+  };
+};
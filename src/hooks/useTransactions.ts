@@ -1,44 +1,245 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { dbCall } from '@/lib/db';
-import { Transaction, TransactionType, PaymentMethod } from '@/types/transaction';
+import { format } from 'date-fns';
+import {
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  TransactionSort,
+  TransactionSortField,
+  TransactionSummary,
+  PaymentMethod,
+  Filters,
+  NewTransaction,
+  RecurrenceRule,
+} from '@/types/transaction';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/hooks/use-toast';
+import { uploadAttachments } from '@/hooks/useAttachments';
 
-interface DbTransaction {
+export interface DbTransaction {
   id: string;
   user_id: string;
   date: string;
   type: 'income' | 'expense';
   client_supplier: string;
+  contact_id: string | null;
   amount: number;
   description: string | null;
   payment_method: string;
+  category_id: string | null;
+  account_id: string;
+  status: 'pending' | 'paid' | 'cancelled';
+  due_date: string;
+  paid_at: string | null;
+  recurrence_id: string | null;
+  recurrence_index: number | null;
+  installment_group_id: string | null;
+  installment_number: number | null;
+  installment_count: number | null;
   created_at: string;
   updated_at: string;
 }
 
-const mapDbToTransaction = (t: DbTransaction): Transaction => ({
+interface DbTransactionPage {
+  rows: DbTransaction[];
+  nextCursor: string | null;
+}
+
+interface DbTransactionTotals {
+  count: number;
+  income: number | string;
+  expense: number | string;
+  forecast_income: number | string;
+  forecast_expense: number | string;
+}
+
+const PAGE_SIZE = 50;
+const EXPORT_PAGE_SIZE = 500;
+// Largest batch accepted by insertTransactions (MAX_BATCH_SIZE in the db function)
+const MAX_IMPORT_SIZE = 1000;
+export const SEARCH_DEBOUNCE_MS = 300;
+
+const sortColumns: Record<TransactionSortField, string> = {
+  date: 'date',
+  dueDate: 'due_date',
+  amount: 'amount',
+  clientSupplier: 'client_supplier',
+  createdAt: 'created_at',
+};
+
+export const DEFAULT_SORT: TransactionSort = { field: 'date', direction: 'desc' };
+
+const EMPTY_SUMMARY: TransactionSummary = {
+  count: 0,
+  income: 0,
+  expense: 0,
+  balance: 0,
+  forecastIncome: 0,
+  forecastExpense: 0,
+  forecastBalance: 0,
+};
+
+// Filter dates are calendar days picked in the local timezone
+export const toDbFilters = (filters: Partial<Filters>) => ({
+  start_date: filters.startDate ? format(filters.startDate, 'yyyy-MM-dd') : undefined,
+  end_date: filters.endDate ? format(filters.endDate, 'yyyy-MM-dd') : undefined,
+  type: filters.type && filters.type !== 'all' ? filters.type : undefined,
+  search: filters.search?.trim() || undefined,
+  category_id: filters.categoryId && filters.categoryId !== 'all' ? filters.categoryId : undefined,
+  account_id: filters.accountId && filters.accountId !== 'all' ? filters.accountId : undefined,
+  status: filters.status && filters.status !== 'all' ? filters.status : undefined,
+  payment_method: filters.paymentMethod && filters.paymentMethod !== 'all' ? filters.paymentMethod : undefined,
+});
+
+const toDbSort = (sort: TransactionSort) => ({
+  orderBy: sortColumns[sort.field],
+  orderDirection: sort.direction === 'asc' ? 'ASC' : 'DESC',
+});
+
+const mapDbToSummary = (t: DbTransactionTotals): TransactionSummary => {
+  const income = Number(t.income);
+  const expense = Number(t.expense);
+  const forecastIncome = Number(t.forecast_income);
+  const forecastExpense = Number(t.forecast_expense);
+  return {
+    count: t.count,
+    income,
+    expense,
+    balance: income - expense,
+    forecastIncome,
+    forecastExpense,
+    forecastBalance: forecastIncome - forecastExpense,
+  };
+};
+
+// Pending entries past their due date are reported as overdue
+const getStatus = (t: DbTransaction): TransactionStatus => {
+  if (t.status === 'pending' && t.due_date.slice(0, 10) < format(new Date(), 'yyyy-MM-dd')) {
+    return 'overdue';
+  }
+  return t.status;
+};
+
+export const mapDbToTransaction = (t: DbTransaction): Transaction => ({
   id: t.id,
   user_id: t.user_id,
   date: new Date(t.date),
   type: t.type as TransactionType,
   clientSupplier: t.client_supplier,
+  contactId: t.contact_id,
   amount: Number(t.amount),
   description: t.description || '',
   paymentMethod: t.payment_method as PaymentMethod,
+  categoryId: t.category_id,
+  accountId: t.account_id,
+  status: getStatus(t),
+  dueDate: new Date(t.due_date),
+  paidAt: t.paid_at ? new Date(t.paid_at) : null,
+  recurrenceId: t.recurrence_id,
+  recurrenceIndex: t.recurrence_index,
+  installmentGroupId: t.installment_group_id,
+  installmentNumber: t.installment_number,
+  installmentCount: t.installment_count,
   createdAt: new Date(t.created_at),
 });
 
-export const useTransactions = () => {
+// Follows the cursor until every matching entry is loaded
+const loadAllTransactions = async (
+  action: 'getTransactions' | 'exportTransactions',
+  params: Record<string, unknown>
+) => {
+  const all: Transaction[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const { data, error } = await dbCall<DbTransactionPage>(action, {
+      ...params,
+      cursor,
+      limit: EXPORT_PAGE_SIZE,
+    });
+    if (error || !data) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar transações',
+        description: error,
+      });
+      return null;
+    }
+    all.push(...data.rows.map(mapDbToTransaction));
+    cursor = data.nextCursor;
+  } while (cursor);
+
+  return all;
+};
+
+// Lists the transactions matching the filters one page at a time; the
+// summary covers every matching entry, not only the pages loaded so far
+export const useTransactions = (filters: Filters, sort: TransactionSort = DEFAULT_SORT) => {
   const { user } = useAuth();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [summary, setSummary] = useState<TransactionSummary>(EMPTY_SUMMARY);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Responses to an outdated query are ignored
+  const requestId = useRef(0);
+
+  // Serialized so a new but equivalent filters object does not trigger a reload
+  const queryKey = JSON.stringify({ filters: toDbFilters(filters), sort: toDbSort(sort) });
+  const query = useMemo(
+    () => JSON.parse(queryKey) as { filters: ReturnType<typeof toDbFilters>; sort: ReturnType<typeof toDbSort> },
+    [queryKey]
+  );
+
+  const refreshTotals = useCallback(async () => {
+    const { data, error } = await dbCall<DbTransactionTotals>('getTransactionTotals', { filters: query.filters });
+    if (!error && data) {
+      setSummary(mapDbToSummary(data));
+    }
+  }, [query]);
 
   const fetchTransactions = useCallback(async () => {
     if (!user) return;
 
-    setLoading(true);
-    const { data, error } = await dbCall<DbTransaction[]>('getTransactions', { userId: user.id });
+    // loading only covers the first load; later reloads keep the current
+    // rows on screen until the new page arrives
+    const id = ++requestId.current;
+    const [page, totals] = await Promise.all([
+      dbCall<DbTransactionPage>('getTransactions', { ...query.sort, filters: query.filters, limit: PAGE_SIZE }),
+      dbCall<DbTransactionTotals>('getTransactionTotals', { filters: query.filters }),
+    ]);
+    if (id !== requestId.current) return;
+
+    if (page.error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar transações',
+        description: page.error,
+      });
+    } else if (page.data) {
+      setTransactions(page.data.rows.map(mapDbToTransaction));
+      setNextCursor(page.data.nextCursor);
+    }
+    if (totals.data) {
+      setSummary(mapDbToSummary(totals.data));
+    }
+    setLoading(false);
+  }, [user, query]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const id = requestId.current;
+    setLoadingMore(true);
+    const { data, error } = await dbCall<DbTransactionPage>('getTransactions', {
+      ...query.sort,
+      filters: query.filters,
+      cursor: nextCursor,
+      limit: PAGE_SIZE,
+    });
+    setLoadingMore(false);
+    if (id !== requestId.current) return;
 
     if (error) {
       toast({
@@ -46,28 +247,57 @@ export const useTransactions = () => {
         title: 'Erro ao carregar transações',
         description: error,
       });
-    } else {
-      setTransactions((data || []).map(mapDbToTransaction));
+    } else if (data) {
+      setTransactions((prev) => [...prev, ...data.rows.map(mapDbToTransaction)]);
+      setNextCursor(data.nextCursor);
     }
-    setLoading(false);
-  }, [user]);
+  }, [nextCursor, loadingMore, query]);
 
+  // Typing in the search box reloads once the user pauses
   useEffect(() => {
-    fetchTransactions();
+    const timeout = setTimeout(fetchTransactions, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
   }, [fetchTransactions]);
 
-  const addTransaction = useCallback(async (transaction: Omit<Transaction, 'id' | 'createdAt' | 'user_id'>) => {
+  // Pages through every matching entry, for duplicate checks. Defaults to
+  // the filters and sort currently on screen.
+  const fetchAllTransactions = useCallback(
+    (otherFilters?: Partial<Filters>) =>
+      loadAllTransactions(
+        'getTransactions',
+        otherFilters
+          ? { ...toDbSort(DEFAULT_SORT), filters: toDbFilters(otherFilters) }
+          : { ...query.sort, filters: query.filters }
+      ),
+    [query]
+  );
+
+  // Same as above with the filters on screen, for the CSV and XLSX exports,
+  // which need the export permission
+  const exportTransactions = useCallback(
+    () => loadAllTransactions('exportTransactions', { ...query.sort, filters: query.filters }),
+    [query]
+  );
+
+  // Files are attached once the entry is saved; an upload that fails is
+  // reported on its own and does not undo the entry
+  const addTransaction = useCallback(async (transaction: NewTransaction, attachments: File[] = []) => {
     if (!user) return;
 
     const { data, error } = await dbCall<DbTransaction>('insertTransaction', {
       data: {
-        user_id: user.id,
         date: transaction.date.toISOString().split('T')[0],
         type: transaction.type,
         client_supplier: transaction.clientSupplier,
         amount: transaction.amount,
         description: transaction.description,
         payment_method: transaction.paymentMethod,
+        category_id: transaction.categoryId,
+        account_id: transaction.accountId,
+        contact_id: transaction.contactId,
+        status: transaction.status === 'overdue' ? 'pending' : transaction.status,
+        due_date: transaction.dueDate.toISOString().split('T')[0],
+        paid_at: transaction.paidAt ? transaction.paidAt.toISOString().split('T')[0] : null,
       },
     });
 
@@ -82,11 +312,191 @@ export const useTransactions = () => {
 
     if (data) {
       setTransactions((prev) => [mapDbToTransaction(data), ...prev]);
+      if (attachments.length > 0) {
+        await uploadAttachments(data.id, attachments);
+      }
+    }
+    refreshTotals();
+    return true;
+  }, [user, refreshTotals]);
+
+  // Inserts settled entries in a single call, so they are saved all or none;
+  // used by the bank statement import
+  const addTransactions = useCallback(async (batch: NewTransaction[]) => {
+    if (batch.length > MAX_IMPORT_SIZE) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao importar transações',
+        description: `Importe no máximo ${MAX_IMPORT_SIZE} lançamentos por vez.`,
+      });
+      return false;
+    }
+
+    const { error } = await dbCall<DbTransaction[]>('insertTransactions', {
+      rows: batch.map((transaction) => ({
+        date: transaction.date.toISOString().split('T')[0],
+        type: transaction.type,
+        client_supplier: transaction.clientSupplier,
+        amount: transaction.amount,
+        description: transaction.description,
+        payment_method: transaction.paymentMethod,
+        category_id: transaction.categoryId,
+        account_id: transaction.accountId,
+      })),
+    });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao importar transações',
+        description: error,
+      });
+      return false;
+    }
+
+    // Imported lines can land anywhere in the current sort order, so reload the list
+    await fetchTransactions();
+    return true;
+  }, [fetchTransactions]);
+
+  // Splits a credit card purchase into installmentCount monthly pending
+  // entries; the first one is due on transaction.dueDate
+  const addInstallmentTransaction = useCallback(async (transaction: NewTransaction, installmentCount: number) => {
+    const { data, error } = await dbCall<DbTransaction[]>('insertInstallments', {
+      data: {
+        date: transaction.date.toISOString().split('T')[0],
+        type: transaction.type,
+        client_supplier: transaction.clientSupplier,
+        amount: transaction.amount,
+        description: transaction.description,
+        payment_method: transaction.paymentMethod,
+        category_id: transaction.categoryId,
+        account_id: transaction.accountId,
+        contact_id: transaction.contactId,
+        due_date: transaction.dueDate.toISOString().split('T')[0],
+        installment_count: installmentCount,
+      },
+    });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao salvar parcelamento',
+        description: error,
+      });
+      return false;
+    }
+
+    if (data) {
+      setTransactions((prev) => [...data.map(mapDbToTransaction), ...prev]);
+    }
+    refreshTotals();
+    return true;
+  }, [refreshTotals]);
+
+  const cancelRemainingInstallments = useCallback(async (id: string) => {
+    const { data, error } = await dbCall<DbTransaction[]>('cancelInstallments', { id });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao cancelar parcelas',
+        description: error,
+      });
+      return false;
+    }
+
+    const cancelledById = new Map((data || []).map((t) => [t.id, mapDbToTransaction(t)]));
+    setTransactions((prev) => prev.map((t) => cancelledById.get(t.id) || t));
+    refreshTotals();
+    return true;
+  }, [refreshTotals]);
+
+  // Creates the recurrence rule; the server materializes the upcoming
+  // occurrences, so the list is reloaded afterwards
+  const addRecurringTransaction = useCallback(async (transaction: NewTransaction, rule: RecurrenceRule) => {
+    const { error } = await dbCall('insertRecurrence', {
+      data: {
+        type: transaction.type,
+        client_supplier: transaction.clientSupplier,
+        amount: transaction.amount,
+        description: transaction.description,
+        payment_method: transaction.paymentMethod,
+        category_id: transaction.categoryId,
+        account_id: transaction.accountId,
+        contact_id: transaction.contactId,
+        frequency: rule.frequency,
+        interval: rule.interval,
+        start_date: transaction.dueDate.toISOString().split('T')[0],
+        end_date: rule.endDate ? rule.endDate.toISOString().split('T')[0] : null,
+        occurrence_count: rule.count,
+      },
+    });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao salvar recorrência',
+        description: error,
+      });
+      return false;
+    }
+
+    await fetchTransactions();
+    return true;
+  }, [fetchTransactions]);
+
+  const updateFutureOccurrences = useCallback(
+    async (
+      id: string,
+      transaction: Partial<Pick<NewTransaction, 'clientSupplier' | 'amount' | 'description' | 'paymentMethod' | 'categoryId' | 'accountId'>>
+    ) => {
+      const data: Record<string, unknown> = {};
+      if (transaction.clientSupplier) data.client_supplier = transaction.clientSupplier;
+      if (transaction.amount !== undefined) data.amount = transaction.amount;
+      if (transaction.description !== undefined) data.description = transaction.description;
+      if (transaction.paymentMethod) data.payment_method = transaction.paymentMethod;
+      if (transaction.categoryId !== undefined) data.category_id = transaction.categoryId;
+      if (transaction.accountId) data.account_id = transaction.accountId;
+
+      const { data: updated, error } = await dbCall<DbTransaction[]>('updateFutureOccurrences', { id, data });
+
+      if (error) {
+        toast({
+          variant: 'destructive',
+          title: 'Erro ao atualizar recorrência',
+          description: error,
+        });
+        return false;
+      }
+
+      const updatedById = new Map((updated || []).map((t) => [t.id, mapDbToTransaction(t)]));
+      setTransactions((prev) => prev.map((t) => updatedById.get(t.id) || t));
+      refreshTotals();
+      return true;
+    },
+    [refreshTotals]
+  );
+
+  const endRecurrence = useCallback(async (id: string) => {
+    const { data, error } = await dbCall<{ deleted: string[] }>('endRecurrence', { id });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao encerrar recorrência',
+        description: error,
+      });
+      return false;
     }
+
+    const deleted = new Set(data?.deleted || []);
+    setTransactions((prev) => prev.filter((t) => !deleted.has(t.id)));
+    refreshTotals();
     return true;
-  }, [user]);
+  }, [refreshTotals]);
 
-  const updateTransaction = useCallback(async (id: string, transaction: Partial<Omit<Transaction, 'id' | 'createdAt' | 'user_id'>>) => {
+  const updateTransaction = useCallback(async (id: string, transaction: Partial<NewTransaction>) => {
     const data: Record<string, unknown> = {};
     if (transaction.date) data.date = transaction.date.toISOString().split('T')[0];
     if (transaction.type) data.type = transaction.type;
@@ -94,21 +504,64 @@ export const useTransactions = () => {
     if (transaction.amount !== undefined) data.amount = transaction.amount;
     if (transaction.description !== undefined) data.description = transaction.description;
     if (transaction.paymentMethod) data.payment_method = transaction.paymentMethod;
+    if (transaction.categoryId !== undefined) data.category_id = transaction.categoryId;
+    if (transaction.accountId) data.account_id = transaction.accountId;
+    if (transaction.contactId !== undefined) data.contact_id = transaction.contactId;
+    if (transaction.dueDate) data.due_date = transaction.dueDate.toISOString().split('T')[0];
+    if (transaction.status) data.status = transaction.status === 'overdue' ? 'pending' : transaction.status;
+    if (transaction.paidAt) data.paid_at = transaction.paidAt.toISOString().split('T')[0];
 
-    const { error } = await dbCall('updateTransaction', { id, data });
+    // Show the change right away and roll it back if the server rejects it
+    let previous: Transaction | undefined;
+    setTransactions((prev) =>
+      prev.map((t) => {
+        if (t.id !== id) return t;
+        previous = t;
+        return { ...t, ...transaction };
+      })
+    );
 
-    if (error) {
+    const { data: updated, error } = await dbCall<DbTransaction>('updateTransaction', { id, data });
+
+    if (error || !updated) {
+      if (previous) {
+        const original = previous;
+        setTransactions((prev) => prev.map((t) => (t.id === id ? original : t)));
+      }
       toast({
         variant: 'destructive',
         title: 'Erro ao atualizar transação',
+        description: error || 'Transação não encontrada',
+      });
+      return false;
+    }
+
+    setTransactions((prev) => prev.map((t) => (t.id === id ? mapDbToTransaction(updated) : t)));
+    refreshTotals();
+    return true;
+  }, [refreshTotals]);
+
+  const settleTransaction = useCallback(async (id: string, paidAt: Date) => {
+    const { data, error } = await dbCall<DbTransaction>('settleTransaction', {
+      id,
+      data: { paid_at: paidAt.toISOString().split('T')[0] },
+    });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao baixar transação',
         description: error,
       });
       return false;
     }
 
-    await fetchTransactions();
+    if (data) {
+      setTransactions((prev) => prev.map((t) => (t.id === id ? mapDbToTransaction(data) : t)));
+    }
+    refreshTotals();
     return true;
-  }, [fetchTransactions]);
+  }, [refreshTotals]);
 
   const deleteTransaction = useCallback(async (id: string) => {
     const { error } = await dbCall('deleteTransaction', { id });
@@ -123,58 +576,47 @@ export const useTransactions = () => {
     }
 
     setTransactions((prev) => prev.filter((t) => t.id !== id));
+    refreshTotals();
     return true;
-  }, []);
-
-  const getFilteredTransactions = useCallback(
-    (filters: {
-      startDate?: Date;
-      endDate?: Date;
-      type?: TransactionType | 'all';
-      search?: string;
-    }) => {
-      return transactions.filter((t) => {
-        if (filters.startDate && t.date < filters.startDate) return false;
-        if (filters.endDate && t.date > filters.endDate) return false;
-        if (filters.type && filters.type !== 'all' && t.type !== filters.type) return false;
-        if (filters.search) {
-          const searchLower = filters.search.toLowerCase();
-          return (
-            t.clientSupplier.toLowerCase().includes(searchLower) ||
-            t.description.toLowerCase().includes(searchLower)
-          );
-        }
-        return true;
+  }, [refreshTotals]);
+
+  // Undoes a deletion; the list is reloaded so the entry lands in its sorted place
+  const restoreTransaction = useCallback(async (id: string) => {
+    const { error } = await dbCall('restoreTransaction', { id });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao restaurar transação',
+        description: error,
       });
-    },
-    [transactions]
-  );
+      return false;
+    }
 
-  const getSummary = useCallback(
-    (filteredTransactions: Transaction[]) => {
-      const income = filteredTransactions
-        .filter((t) => t.type === 'income')
-        .reduce((sum, t) => sum + t.amount, 0);
-      const expense = filteredTransactions
-        .filter((t) => t.type === 'expense')
-        .reduce((sum, t) => sum + t.amount, 0);
-      return {
-        income,
-        expense,
-        balance: income - expense,
-      };
-    },
-    []
-  );
+    await fetchTransactions();
+    return true;
+  }, [fetchTransactions]);
 
   return {
     transactions,
+    summary,
     loading,
+    loadingMore,
+    hasMore: nextCursor !== null,
+    loadMore,
+    fetchAllTransactions,
+    exportTransactions,
     addTransaction,
+    addRecurringTransaction,
+    addTransactions,
+    addInstallmentTransaction,
+    cancelRemainingInstallments,
     updateTransaction,
+    updateFutureOccurrences,
+    endRecurrence,
+    settleTransaction,
     deleteTransaction,
-    getFilteredTransactions,
-    getSummary,
+    restoreTransaction,
     refetch: fetchTransactions,
   };
 };
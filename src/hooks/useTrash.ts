@@ -0,0 +1,86 @@
+import { useState, useCallback, useEffect } from 'react';
+import { dbCall } from '@/lib/db';
+import { DeletedTransaction } from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { DbTransaction, mapDbToTransaction } from '@/hooks/useTransactions';
+
+interface DbDeletedTransaction extends DbTransaction {
+  deleted_at: string;
+  deleted_by_email: string | null;
+  deleted_by_name: string | null;
+}
+
+const mapDbToDeletedTransaction = (t: DbDeletedTransaction): DeletedTransaction => ({
+  ...mapDbToTransaction(t),
+  deletedAt: new Date(t.deleted_at),
+  deletedByName: t.deleted_by_name || t.deleted_by_email,
+});
+
+// Deleted transactions, most recently deleted first; only available to admins
+export const useTrash = () => {
+  const { user } = useAuth();
+  const [transactions, setTransactions] = useState<DeletedTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTrash = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await dbCall<DbDeletedTransaction[]>('getDeletedTransactions');
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar lixeira',
+        description: error,
+      });
+    } else {
+      setTransactions((data || []).map(mapDbToDeletedTransaction));
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const restoreTransaction = useCallback(async (id: string) => {
+    const { error } = await dbCall('restoreTransaction', { id });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao restaurar transação',
+        description: error,
+      });
+      return false;
+    }
+
+    setTransactions((prev) => prev.filter((t) => t.id !== id));
+    return true;
+  }, []);
+
+  const purgeTransaction = useCallback(async (id: string) => {
+    const { error } = await dbCall('purgeTransaction', { id });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao excluir transação',
+        description: error,
+      });
+      return false;
+    }
+
+    setTransactions((prev) => prev.filter((t) => t.id !== id));
+    return true;
+  }, []);
+
+  return {
+    transactions,
+    loading,
+    restoreTransaction,
+    purgeTransaction,
+    refetch: fetchTrash,
+  };
+};
@@ -0,0 +1,128 @@
+import { useState, useCallback, useEffect } from 'react';
+import { dbCall } from '@/lib/db';
+import { TwoFactorSetup, TwoFactorStatus } from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+interface DbTwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recovery_codes_left: number;
+}
+
+interface DbTwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+const twoFactorErrorMessages: Record<string, string> = {
+  invalid_code: 'Código inválido. Confira o código no aplicativo e tente de novo.',
+  two_factor_required: 'A verificação em duas etapas é obrigatória para o seu usuário.',
+  two_factor_enabled: 'A verificação em duas etapas já está ativada.',
+  two_factor_locked: 'Muitos códigos incorretos. Aguarde 15 minutos para tentar de novo.',
+};
+
+const showError = (title: string, error: string, code?: string) =>
+  toast({
+    variant: 'destructive',
+    title,
+    description: (code && twoFactorErrorMessages[code]) || error,
+  });
+
+// Two-factor authentication of the logged in user: enabling it with an
+// authenticator app, recovery codes and disabling it
+export const useTwoFactor = () => {
+  const { user, refreshUser } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await dbCall<DbTwoFactorStatus>('getTwoFactorStatus');
+
+    if (error || !data) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar verificação em duas etapas',
+        description: error,
+      });
+    } else {
+      setStatus({ enabled: data.enabled, required: data.required, recoveryCodesLeft: data.recovery_codes_left });
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  // Returns the secret and QR code to scan, or null on error
+  const startSetup = useCallback(async (): Promise<TwoFactorSetup | null> => {
+    const { data, error, code } = await dbCall<DbTwoFactorSetup>('startTwoFactorSetup');
+
+    if (error || !data) {
+      showError('Erro ao iniciar configuração', error || '', code);
+      return null;
+    }
+
+    return { secret: data.secret, otpauthUrl: data.otpauth_url, qrCode: data.qr_code };
+  }, []);
+
+  // Returns the recovery codes once 2FA is enabled, or null on error
+  const confirmSetup = useCallback(
+    async (totpCode: string) => {
+      const { data, error, code } = await dbCall<{ recovery_codes: string[] }>('confirmTwoFactorSetup', {
+        code: totpCode,
+      });
+
+      if (error || !data) {
+        showError('Erro ao ativar verificação', error || '', code);
+        return null;
+      }
+
+      await Promise.all([fetchStatus(), refreshUser()]);
+      return data.recovery_codes;
+    },
+    [fetchStatus, refreshUser]
+  );
+
+  const regenerateRecoveryCodes = useCallback(
+    async (totpCode: string) => {
+      const { data, error, code } = await dbCall<{ recovery_codes: string[] }>('regenerateRecoveryCodes', {
+        code: totpCode,
+      });
+
+      if (error || !data) {
+        showError('Erro ao gerar códigos', error || '', code);
+        return null;
+      }
+
+      await fetchStatus();
+      return data.recovery_codes;
+    },
+    [fetchStatus]
+  );
+
+  const disable = useCallback(
+    async (totpCode: string) => {
+      const { error, code } = await dbCall('disableTwoFactor', { code: totpCode });
+
+      if (error) {
+        showError('Erro ao desativar verificação', error, code);
+        return false;
+      }
+
+      await Promise.all([fetchStatus(), refreshUser()]);
+      return true;
+    },
+    [fetchStatus, refreshUser]
+  );
+
+  return {
+    status,
+    startSetup,
+    confirmSetup,
+    regenerateRecoveryCodes,
+    disable,
+  };
+};
@@ -0,0 +1,150 @@
+import { useState, useCallback, useEffect } from 'react';
+import { dbCall } from '@/lib/db';
+import { AppRole, ManagedUser } from '@/types/transaction';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+interface DbManagedUser {
+  id: string;
+  email: string;
+  full_name: string | null;
+  created_at: string;
+  deactivated_at: string | null;
+  pending_approval: boolean;
+  two_factor_enabled: boolean;
+  roles: Array<{ id: string; role: string }>;
+  profile_ids: string[];
+}
+
+const mapDbToManagedUser = (u: DbManagedUser): ManagedUser => ({
+  id: u.id,
+  email: u.email,
+  fullName: u.full_name,
+  createdAt: new Date(u.created_at),
+  roles: u.roles.map((r) => r.role as AppRole),
+  profileIds: u.profile_ids,
+  active: !u.deactivated_at,
+  pending: u.pending_approval,
+  twoFactorEnabled: u.two_factor_enabled,
+});
+
+const userErrorMessages: Record<string, string> = {
+  last_admin: 'É preciso manter pelo menos um administrador ativo.',
+  own_user: 'Você não pode desativar, excluir ou redefinir o acesso do seu próprio usuário.',
+  not_found: 'Usuário não encontrado.',
+  permission_denied: 'Apenas administradores podem alterar o acesso de administradores.',
+};
+
+// Every user that has not been deleted, newest first; only available with
+// the manage users permission
+export const useUsers = () => {
+  const { user, canManageUsers } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchUsers = useCallback(async () => {
+    if (!user || !canManageUsers) return;
+
+    const { data, error } = await dbCall<DbManagedUser[]>('getAllUsers');
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao carregar usuários',
+        description: error,
+      });
+    } else {
+      setUsers((data || []).map(mapDbToManagedUser));
+    }
+    setLoading(false);
+  }, [user, canManageUsers]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  // Runs one of the user management actions and reloads the list
+  const runAction = useCallback(
+    async (action: string, params: Record<string, unknown>, errorTitle: string) => {
+      const { error, code } = await dbCall(action, params);
+
+      if (error) {
+        toast({
+          variant: 'destructive',
+          title: errorTitle,
+          description: (code && userErrorMessages[code]) || error,
+        });
+        return false;
+      }
+
+      await fetchUsers();
+      return true;
+    },
+    [fetchUsers]
+  );
+
+  // Replaces every role and permission profile of the user
+  const updateAccess = useCallback(
+    (userId: string, roles: AppRole[], profileIds: string[]) =>
+      runAction(
+        'updateUserRoles',
+        { userId, data: { roles, profile_ids: profileIds } },
+        'Erro ao atualizar permissões'
+      ),
+    [runAction]
+  );
+
+  const deactivateUser = useCallback(
+    (userId: string) => runAction('deactivateUser', { userId }, 'Erro ao desativar usuário'),
+    [runAction]
+  );
+
+  const reactivateUser = useCallback(
+    (userId: string) => runAction('reactivateUser', { userId }, 'Erro ao reativar usuário'),
+    [runAction]
+  );
+
+  const deleteUser = useCallback(
+    (userId: string) => runAction('deleteUser', { userId }, 'Erro ao excluir usuário'),
+    [runAction]
+  );
+
+  // Lets a pending self-signup in with the chosen roles and profiles
+  const approveUser = useCallback(
+    (userId: string, roles: AppRole[], profileIds: string[]) =>
+      runAction('approveUser', { userId, data: { roles, profile_ids: profileIds } }, 'Erro ao aprovar usuário'),
+    [runAction]
+  );
+
+  const rejectUser = useCallback(
+    (userId: string) => runAction('rejectUser', { userId }, 'Erro ao recusar usuário'),
+    [runAction]
+  );
+
+  // Locks the user out until they set a new password through the emailed link
+  const forceResetPassword = useCallback(
+    (userId: string) => runAction('forceResetPassword', { userId }, 'Erro ao redefinir senha'),
+    [runAction]
+  );
+
+  // For a user who lost their authenticator: they log in with the password
+  // alone and can enable 2FA again
+  const resetTwoFactor = useCallback(
+    (userId: string) => runAction('resetTwoFactor', { userId }, 'Erro ao redefinir verificação em duas etapas'),
+    [runAction]
+  );
+
+  return {
+    users,
+    loading,
+    updateAccess,
+    deactivateUser,
+    reactivateUser,
+    deleteUser,
+    approveUser,
+    rejectUser,
+    forceResetPassword,
+    resetTwoFactor,
+    refetch: fetchUsers,
+  };
+};
@@ -0,0 +1,40 @@
+// Mirrors the limits enforced by the db function
+export const ATTACHMENT_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+/** Value for the accept attribute of a file input */
+export const ATTACHMENT_ACCEPT = ATTACHMENT_CONTENT_TYPES.join(',');
+
+export const isImageAttachment = (contentType: string) => contentType.startsWith('image/');
+
+// Returns why a file cannot be attached, or null when it can
+export const validateAttachmentFile = (file: File) => {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type)) {
+    return `${file.name}: apenas imagens (JPG, PNG, WebP) e PDF podem ser anexados.`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name}: o arquivo excede o limite de 5 MB.`;
+  }
+  return null;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`;
+};
+
+// File content as base64, without the "data:...;base64," prefix
+export const readFileAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.slice(result.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const toDataUrl = (contentType: string, base64: string) => `data:${contentType};base64,${base64}`;
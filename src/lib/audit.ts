@@ -0,0 +1,114 @@
+import {
+  Account,
+  AppRole,
+  AuditEntry,
+  Category,
+  PaymentMethod,
+  TransactionStatus,
+  paymentMethodLabels,
+  roleLabels,
+  transactionStatusLabels,
+} from '@/types/transaction';
+
+export interface AuditChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+interface AuditLookups {
+  categories?: Category[];
+  accounts?: Account[];
+}
+
+// Columns shown in the history, in display order. Bookkeeping columns
+// (ids, timestamps, recurrence and installment links) are left out.
+const fieldLabels: Record<string, string> = {
+  date: 'Data',
+  type: 'Tipo',
+  client_supplier: 'Cliente/Fornecedor',
+  amount: 'Valor',
+  description: 'Descrição',
+  payment_method: 'Forma de Pagamento',
+  category_id: 'Categoria',
+  account_id: 'Conta',
+  status: 'Status',
+  due_date: 'Vencimento',
+  paid_at: 'Pago em',
+  full_name: 'Nome',
+  email: 'E-mail',
+  active: 'Ativo',
+  approved: 'Aprovado',
+  password_reset: 'Redefinição de senha',
+  two_factor: 'Verificação em duas etapas',
+  roles: 'Permissões',
+  profiles: 'Perfis',
+  file_name: 'Arquivo',
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+// Dates are stored without a time; the row JSON may still carry one
+const formatDate = (value: string) => value.slice(0, 10).split('-').reverse().join('/');
+
+const formatValue = (field: string, value: unknown, lookups: AuditLookups) => {
+  if (value === null || value === undefined || value === '') return '—';
+
+  switch (field) {
+    case 'date':
+    case 'due_date':
+    case 'paid_at':
+      return formatDate(String(value));
+    case 'amount':
+      return formatCurrency(Number(value));
+    case 'type':
+      return value === 'income' ? 'Entrada' : 'Saída';
+    case 'payment_method':
+      return paymentMethodLabels[value as PaymentMethod] || String(value);
+    case 'status':
+      return transactionStatusLabels[value as TransactionStatus] || String(value);
+    case 'category_id':
+      return lookups.categories?.find((c) => c.id === value)?.name || 'Categoria removida';
+    case 'account_id':
+      return lookups.accounts?.find((a) => a.id === value)?.name || 'Conta removida';
+    case 'active':
+    case 'approved':
+    case 'password_reset':
+    case 'two_factor':
+      return value ? 'Sim' : 'Não';
+    case 'roles':
+      return (value as string[]).map((role) => roleLabels[role as AppRole] || role).join(', ');
+    case 'profiles':
+      return (value as string[]).join(', ') || '—';
+    default:
+      return String(value);
+  }
+};
+
+// Lists the fields that differ between the before and after rows of an
+// entry. Inserts and deletes list every field that has a value.
+export const getAuditChanges = (entry: AuditEntry, lookups: AuditLookups = {}): AuditChange[] => {
+  const before = entry.before || {};
+  const after = entry.after || {};
+
+  return Object.keys(fieldLabels).flatMap((field) => {
+    if (!(field in before) && !(field in after)) return [];
+    const beforeValue = formatValue(field, before[field], lookups);
+    const afterValue = formatValue(field, after[field], lookups);
+    if (beforeValue === afterValue) return [];
+    return [{ label: fieldLabels[field], before: beforeValue, after: afterValue }];
+  });
+};
+
+// Short description of the changed record, e.g. "Fornecedor X - R$ 10,00"
+export const describeAuditEntity = (entry: AuditEntry) => {
+  const row = entry.after || entry.before || {};
+  if (entry.action === 'attach' || entry.action === 'detach') {
+    return String(row.file_name ?? '');
+  }
+  if (entry.entityType === 'transaction') {
+    return `${row.client_supplier ?? ''} - ${formatCurrency(Number(row.amount ?? 0))}`;
+  }
+  return entry.userLabel || 'Usuário removido';
+};
@@ -0,0 +1,35 @@
+import { CashCounts } from '@/types/transaction';
+
+export interface Denomination {
+  /** Key used in the counts, matching the db function */
+  key: string;
+  value: number;
+  kind: 'note' | 'coin';
+}
+
+// Brazilian notes and coins, largest first
+export const DENOMINATIONS: Denomination[] = [
+  { key: '200', value: 200, kind: 'note' },
+  { key: '100', value: 100, kind: 'note' },
+  { key: '50', value: 50, kind: 'note' },
+  { key: '20', value: 20, kind: 'note' },
+  { key: '10', value: 10, kind: 'note' },
+  { key: '5', value: 5, kind: 'note' },
+  { key: '2', value: 2, kind: 'note' },
+  { key: '1', value: 1, kind: 'coin' },
+  { key: '0.5', value: 0.5, kind: 'coin' },
+  { key: '0.25', value: 0.25, kind: 'coin' },
+  { key: '0.1', value: 0.1, kind: 'coin' },
+  { key: '0.05', value: 0.05, kind: 'coin' },
+];
+
+// Summed in cents so coins add up exactly
+export const countTotal = (counts: CashCounts) =>
+  DENOMINATIONS.reduce((cents, d) => cents + Math.round(d.value * 100) * (counts[d.key] || 0), 0) / 100;
+
+export const formatDenomination = (denomination: Denomination) =>
+  new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+    minimumFractionDigits: denomination.value < 1 ? 2 : 0,
+  }).format(denomination.value);
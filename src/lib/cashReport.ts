@@ -0,0 +1,340 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, fitText } from '@/lib/pdf';
+import { PaymentMethod, Transaction, paymentMethodLabels } from '@/types/transaction';
+
+export interface CashReportDay {
+  date: Date;
+  transactions: Transaction[];
+  income: number;
+  expense: number;
+  /** Net transfers into the account on the day */
+  transfers: number;
+  /** Balance at the end of the day */
+  balance: number;
+}
+
+export interface CashReportPaymentMethod {
+  paymentMethod: PaymentMethod;
+  income: number;
+  expense: number;
+}
+
+export interface CashReportTransfer {
+  date: Date;
+  net: number;
+}
+
+export interface CashReport {
+  startDate: Date;
+  endDate: Date;
+  /** Active filters besides the period, e.g. "Conta: Caixa" */
+  filterLabels: string[];
+  /**
+   * Whether the balances are those of the account (or of all accounts). When
+   * filters pick entries, they only add up the matching ones.
+   */
+  accountBalance: boolean;
+  openingBalance: number;
+  days: CashReportDay[];
+  paymentMethods: CashReportPaymentMethod[];
+  income: number;
+  expense: number;
+  transfers: number;
+  closingBalance: number;
+}
+
+// Amounts are summed in cents so the subtotals add up exactly
+const toCents = (value: number) => Math.round(value * 100);
+
+// Groups the paid entries and the transfers of the period by day, with running
+// balances and totals by payment method. Entries are expected oldest first.
+export const buildCashReport = (
+  transactions: Transaction[],
+  openingBalance: number,
+  startDate: Date,
+  endDate: Date,
+  filterLabels: string[] = [],
+  { accountBalance = true, transfers = [] }: { accountBalance?: boolean; transfers?: CashReportTransfer[] } = {}
+): CashReport => {
+  const byDate = new Map<string, CashReportDay>();
+  const methods = new Map<PaymentMethod, { income: number; expense: number }>();
+  let income = 0;
+  let expense = 0;
+  let transferTotal = 0;
+
+  const getDay = (date: Date) => {
+    const key = format(date, 'yyyy-MM-dd');
+    let day = byDate.get(key);
+    if (!day) {
+      day = { date, transactions: [], income: 0, expense: 0, transfers: 0, balance: 0 };
+      byDate.set(key, day);
+    }
+    return day;
+  };
+
+  for (const transaction of transactions) {
+    const day = getDay(transaction.date);
+    day.transactions.push(transaction);
+
+    const amount = toCents(transaction.amount);
+    const method = methods.get(transaction.paymentMethod) || { income: 0, expense: 0 };
+    if (transaction.type === 'income') {
+      day.income += amount;
+      method.income += amount;
+      income += amount;
+    } else {
+      day.expense += amount;
+      method.expense += amount;
+      expense += amount;
+    }
+    methods.set(transaction.paymentMethod, method);
+  }
+
+  for (const transfer of transfers) {
+    const day = getDay(transfer.date);
+    day.transfers += toCents(transfer.net);
+    transferTotal += toCents(transfer.net);
+  }
+
+  let balance = toCents(openingBalance);
+  const days = [...byDate.keys()].sort().map((key) => {
+    const day = byDate.get(key)!;
+    balance += day.income - day.expense + day.transfers;
+    return { ...day, balance };
+  });
+
+  return {
+    startDate,
+    endDate,
+    filterLabels,
+    accountBalance,
+    openingBalance,
+    days: days.map((day) => ({
+      ...day,
+      income: day.income / 100,
+      expense: day.expense / 100,
+      transfers: day.transfers / 100,
+      balance: day.balance / 100,
+    })),
+    paymentMethods: [...methods.entries()]
+      .map(([paymentMethod, totals]) => ({
+        paymentMethod,
+        income: totals.income / 100,
+        expense: totals.expense / 100,
+      }))
+      .sort((a, b) => b.income + b.expense - (a.income + a.expense)),
+    income: income / 100,
+    expense: expense / 100,
+    transfers: transferTotal / 100,
+    closingBalance: balance / 100,
+  };
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+};
+
+const MARGIN = 40;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const ROW_HEIGHT = 15;
+// Space kept free at the bottom of each page for the page number
+const BOTTOM = PAGE_HEIGHT - MARGIN - 20;
+
+const GRAY: [number, number, number] = [0.45, 0.45, 0.45];
+const LIGHT: [number, number, number] = [0.94, 0.94, 0.94];
+const INCOME: [number, number, number] = [0.09, 0.5, 0.24];
+const EXPENSE: [number, number, number] = [0.75, 0.15, 0.15];
+
+// Entry table columns: left edge of the text columns, right edge of the amounts
+const COLUMNS = {
+  clientSupplier: { x: MARGIN, width: 165 },
+  description: { x: MARGIN + 170, width: 140 },
+  paymentMethod: { x: MARGIN + 315, width: 75 },
+  income: RIGHT - 70,
+  expense: RIGHT,
+};
+
+// Lays the report out on A4 pages: header, entries by day with a subtotal
+// after each day, totals by payment method and the closing summary
+export const renderCashReportPdf = (report: CashReport, generatedAt = new Date()) => {
+  const doc = new PdfDocument();
+  let y = MARGIN;
+  // With filters that pick entries the figures are not the account balance
+  const labels = report.accountBalance
+    ? { opening: 'Saldo inicial', day: 'Saldo do dia', closing: 'Saldo final' }
+    : { opening: 'Resultado anterior', day: 'Acumulado', closing: 'Resultado final' };
+
+  const tableHeader = () => {
+    doc.fillRect(MARGIN, y, RIGHT - MARGIN, ROW_HEIGHT + 2, LIGHT);
+    y += 11;
+    doc.text('Cliente/Fornecedor', COLUMNS.clientSupplier.x + 2, y, { size: 8, bold: true });
+    doc.text('Descrição', COLUMNS.description.x, y, { size: 8, bold: true });
+    doc.text('Forma', COLUMNS.paymentMethod.x, y, { size: 8, bold: true });
+    doc.text('Entrada', COLUMNS.income, y, { size: 8, bold: true, align: 'right' });
+    doc.text('Saída', COLUMNS.expense - 2, y, { size: 8, bold: true, align: 'right' });
+    y += ROW_HEIGHT - 4;
+  };
+
+  // Starts a new page when the next block of the given height does not fit
+  const ensureSpace = (height: number, repeatHeader = false) => {
+    if (y + height <= BOTTOM) return;
+    doc.addPage();
+    y = MARGIN;
+    if (repeatHeader) tableHeader();
+  };
+
+  // Header
+  doc.text('Relatório de Caixa', MARGIN, y + 16, { size: 18, bold: true });
+  y += 36;
+  doc.text(
+    `Período: ${format(report.startDate, 'dd/MM/yyyy')} a ${format(report.endDate, 'dd/MM/yyyy')}`,
+    MARGIN,
+    y,
+    { size: 10 }
+  );
+  doc.text(`Gerado em ${format(generatedAt, "dd/MM/yyyy 'às' HH:mm")}`, RIGHT, y, {
+    size: 8,
+    align: 'right',
+    color: GRAY,
+  });
+  y += 14;
+  if (report.filterLabels.length > 0) {
+    doc.text(fitText(`Filtros: ${report.filterLabels.join(' · ')}`, RIGHT - MARGIN, 8), MARGIN, y, {
+      size: 8,
+      color: GRAY,
+    });
+    y += 14;
+  }
+
+  y += 6;
+  doc.fillRect(MARGIN, y, RIGHT - MARGIN, 24, LIGHT);
+  doc.text(labels.opening, MARGIN + 8, y + 16, { size: 11, bold: true });
+  doc.text(formatCurrency(report.openingBalance), RIGHT - 8, y + 16, { size: 11, bold: true, align: 'right' });
+  y += 40;
+
+  // Entries by day
+  if (report.days.length === 0) {
+    doc.text('Nenhum lançamento pago no período.', MARGIN, y, { size: 10, color: GRAY });
+    y += 24;
+  } else {
+    tableHeader();
+    for (const day of report.days) {
+      ensureSpace(ROW_HEIGHT * 3, true);
+      y += 8;
+      doc.text(format(day.date, "dd/MM/yyyy, EEEE", { locale: ptBR }), MARGIN, y, { size: 9, bold: true });
+      y += 4;
+
+      for (const transaction of day.transactions) {
+        ensureSpace(ROW_HEIGHT, true);
+        y += ROW_HEIGHT - 3;
+        doc.text(fitText(transaction.clientSupplier, COLUMNS.clientSupplier.width, 8), COLUMNS.clientSupplier.x + 2, y, {
+          size: 8,
+        });
+        doc.text(fitText(transaction.description, COLUMNS.description.width, 8), COLUMNS.description.x, y, {
+          size: 8,
+          color: GRAY,
+        });
+        doc.text(
+          fitText(paymentMethodLabels[transaction.paymentMethod], COLUMNS.paymentMethod.width, 8),
+          COLUMNS.paymentMethod.x,
+          y,
+          { size: 8 }
+        );
+        if (transaction.type === 'income') {
+          doc.text(formatCurrency(transaction.amount), COLUMNS.income, y, { size: 8, color: INCOME, align: 'right' });
+        } else {
+          doc.text(formatCurrency(transaction.amount), COLUMNS.expense - 2, y, {
+            size: 8,
+            color: EXPENSE,
+            align: 'right',
+          });
+        }
+        y += 3;
+      }
+
+      if (day.transfers !== 0) {
+        ensureSpace(ROW_HEIGHT, true);
+        y += ROW_HEIGHT - 3;
+        doc.text('Transferências entre contas', COLUMNS.clientSupplier.x + 2, y, { size: 8, color: GRAY });
+        doc.text(formatCurrency(Math.abs(day.transfers)), day.transfers > 0 ? COLUMNS.income : COLUMNS.expense - 2, y, {
+          size: 8,
+          color: GRAY,
+          align: 'right',
+        });
+        y += 3;
+      }
+
+      ensureSpace(ROW_HEIGHT + 4, true);
+      y += 2;
+      doc.line(COLUMNS.paymentMethod.x, y, RIGHT, y, 0.5, GRAY);
+      y += ROW_HEIGHT - 3;
+      doc.text(`${labels.day}: ${formatCurrency(day.balance)}`, COLUMNS.description.x, y, { size: 8, bold: true });
+      doc.text('Subtotal', COLUMNS.paymentMethod.x, y, { size: 8, bold: true });
+      doc.text(formatCurrency(day.income), COLUMNS.income, y, { size: 8, bold: true, align: 'right' });
+      doc.text(formatCurrency(day.expense), COLUMNS.expense - 2, y, { size: 8, bold: true, align: 'right' });
+      y += 6;
+    }
+    y += 16;
+  }
+
+  // Totals by payment method
+  if (report.paymentMethods.length > 0) {
+    ensureSpace(ROW_HEIGHT * (report.paymentMethods.length + 3));
+    doc.text('Totais por forma de pagamento', MARGIN, y, { size: 11, bold: true });
+    y += 8;
+    doc.fillRect(MARGIN, y, RIGHT - MARGIN, ROW_HEIGHT + 2, LIGHT);
+    y += 11;
+    doc.text('Forma', MARGIN + 2, y, { size: 8, bold: true });
+    doc.text('Entradas', RIGHT - 140, y, { size: 8, bold: true, align: 'right' });
+    doc.text('Saídas', RIGHT - 70, y, { size: 8, bold: true, align: 'right' });
+    doc.text('Líquido', RIGHT - 2, y, { size: 8, bold: true, align: 'right' });
+    y += 6;
+    for (const method of report.paymentMethods) {
+      y += ROW_HEIGHT;
+      doc.text(paymentMethodLabels[method.paymentMethod], MARGIN + 2, y, { size: 8 });
+      doc.text(formatCurrency(method.income), RIGHT - 140, y, { size: 8, align: 'right' });
+      doc.text(formatCurrency(method.expense), RIGHT - 70, y, { size: 8, align: 'right' });
+      doc.text(formatCurrency(method.income - method.expense), RIGHT - 2, y, { size: 8, bold: true, align: 'right' });
+    }
+    y += 28;
+  }
+
+  // Summary
+  ensureSpace(110);
+  const summary = [
+    { label: labels.opening, value: report.openingBalance },
+    { label: 'Total de entradas', value: report.income, color: INCOME },
+    { label: 'Total de saídas', value: -report.expense, color: EXPENSE },
+    ...(report.transfers !== 0 ? [{ label: 'Transferências', value: report.transfers, color: undefined }] : []),
+  ];
+  for (const row of summary) {
+    doc.text(row.label, RIGHT - 220, y, { size: 10 });
+    doc.text(formatCurrency(row.value), RIGHT - 8, y, { size: 10, color: row.color, align: 'right' });
+    y += ROW_HEIGHT + 2;
+  }
+  doc.fillRect(RIGHT - 228, y - 10, 228, 26, LIGHT);
+  y += 7;
+  doc.text(labels.closing, RIGHT - 220, y, { size: 12, bold: true });
+  doc.text(formatCurrency(report.closingBalance), RIGHT - 8, y, {
+    size: 12,
+    bold: true,
+    color: report.closingBalance < 0 ? EXPENSE : undefined,
+    align: 'right',
+  });
+
+  // Page numbers
+  for (let page = 0; page < doc.pageCount; page++) {
+    doc.goToPage(page);
+    doc.text(`Página ${page + 1} de ${doc.pageCount}`, RIGHT, PAGE_HEIGHT - MARGIN, {
+      size: 8,
+      color: GRAY,
+      align: 'right',
+    });
+  }
+
+  return doc.toBytes();
+};
@@ -0,0 +1,59 @@
+import { Category, TransactionType } from '@/types/transaction';
+
+export interface CategoryOption {
+  category: Category;
+  depth: number;
+}
+
+// Flattens the category tree depth-first, sorted by name at each level, so it
+// can be rendered as an indented list.
+export const buildCategoryOptions = (categories: Category[], type?: TransactionType): CategoryOption[] => {
+  const byParent = new Map<string | null, Category[]>();
+  categories
+    .filter((c) => !type || c.type === type)
+    .forEach((c) => {
+      const siblings = byParent.get(c.parentId) || [];
+      siblings.push(c);
+      byParent.set(c.parentId, siblings);
+    });
+
+  const options: CategoryOption[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (byParent.get(parentId) || [])
+      .sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'))
+      .forEach((category) => {
+        options.push({ category, depth });
+        visit(category.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return options;
+};
+
+// Full name of a category including its ancestors, e.g. "Pessoal › Salários"
+export const getCategoryPath = (categories: Category[], id: string | null) => {
+  const names: string[] = [];
+  let current = categories.find((c) => c.id === id);
+  while (current) {
+    names.unshift(current.name);
+    const parentId = current.parentId;
+    current = parentId ? categories.find((c) => c.id === parentId) : undefined;
+  }
+  return names.join(' › ');
+};
+
+// The category itself plus all of its subcategories
+export const getCategoryDescendantIds = (categories: Category[], id: string) => {
+  const ids = new Set<string>([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    categories.forEach((c) => {
+      if (c.parentId && ids.has(c.parentId) && !ids.has(c.id)) {
+        ids.add(c.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
@@ -1,26 +1,123 @@
 const SUPABASE_URL = 'https://clgjlsrdvbliyktgijiz.supabase.co';
 
+const SESSION_STORAGE_KEY = 'cash_flow_session';
+
 interface DbResponse<T> {
   data?: T;
   error?: string;
+  /** Machine readable error code, e.g. 'permission_denied' or 'session_expired' */
+  code?: string;
+}
+
+const PERMISSION_DENIED_MESSAGE = 'Você não tem permissão para realizar esta ação.';
+
+export interface Session {
+  access_token: string;
+  refresh_token: string;
+  /** Access token expiry, in seconds since the epoch */
+  expires_at: number;
 }
 
+type SessionExpiredListener = () => void;
+
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+export const getStoredSession = (): Session | null => {
+  const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as Session;
+  } catch {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    return null;
+  }
+};
+
+export const storeSession = (session: Session | null) => {
+  if (session) {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+};
+
+// Called when the session can no longer be refreshed and the user must log in again
+export const onSessionExpired = (listener: SessionExpiredListener) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+const post = (action: string, params: Record<string, unknown>, accessToken?: string) => {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (accessToken) {
+    headers.Authorization = `Bearer ${accessToken}`;
+  }
+
+  return fetch(`${SUPABASE_URL}/functions/v1/db`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ action, ...params }),
+  });
+};
+
+// Refresh tokens are single use, so concurrent callers share one refresh request
+let refreshInFlight: Promise<Session | null> | null = null;
+
+const refreshSession = (session: Session) => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      try {
+        const response = await post('refreshSession', { refreshToken: session.refresh_token });
+        const result = await response.json();
+        if (!response.ok) {
+          storeSession(null);
+          sessionExpiredListeners.forEach((listener) => listener());
+          return null;
+        }
+        storeSession(result.data);
+        return result.data as Session;
+      } finally {
+        refreshInFlight = null;
+      }
+    })();
+  }
+  return refreshInFlight;
+};
+
 export async function dbCall<T>(action: string, params: Record<string, unknown> = {}): Promise<DbResponse<T>> {
   try {
-    const response = await fetch(`${SUPABASE_URL}/functions/v1/db`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ action, ...params }),
-    });
-
-    const result = await response.json();
-    
+    let session = getStoredSession();
+    if (session && session.expires_at * 1000 <= Date.now()) {
+      session = await refreshSession(session);
+    }
+
+    let response = await post(action, params, session?.access_token);
+    let result = await response.json();
+
+    // The access token may have been revoked or expired in flight: refresh once and retry
+    if (response.status === 401 && result.code === 'session_expired' && session) {
+      session = await refreshSession(session);
+      if (session) {
+        response = await post(action, params, session.access_token);
+        result = await response.json();
+      }
+    }
+
     if (!response.ok) {
-      return { error: result.error || 'Unknown error' };
+      if (result.code === 'permission_denied') {
+        return { error: PERMISSION_DENIED_MESSAGE, code: result.code };
+      }
+      if (result.code === 'period_closed') {
+        const [year, month] = String(result.period).split('-');
+        return { error: `O período ${month}/${year} está fechado para lançamentos.`, code: result.code };
+      }
+      return { error: result.error || 'Unknown error', code: result.code };
     }
-    
+
     return { data: result.data };
   } catch (error) {
     console.error('DB call error:', error);
@@ -0,0 +1,44 @@
+// CPF and CNPJ helpers. The db function runs the same check digit validation;
+// doing it here too lets the form point at the field right away.
+
+const checkDigit = (digits: string, weights: number[]) => {
+  const sum = weights.reduce((total, weight, i) => total + Number(digits[i]) * weight, 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+};
+
+const isRepeated = (digits: string) => /^(\d)\1+$/.test(digits);
+
+export const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+export const isValidCpf = (digits: string) => {
+  if (!/^\d{11}$/.test(digits) || isRepeated(digits)) return false;
+  const first = checkDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[9]) && second === Number(digits[10]);
+};
+
+export const isValidCnpj = (digits: string) => {
+  if (!/^\d{14}$/.test(digits) || isRepeated(digits)) return false;
+  const first = checkDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[12]) && second === Number(digits[13]);
+};
+
+/** Accepts a CPF or a CNPJ, with or without punctuation */
+export const isValidDocument = (value: string) => {
+  const digits = onlyDigits(value);
+  return digits.length === 11 ? isValidCpf(digits) : isValidCnpj(digits);
+};
+
+/** 000.000.000-00 for a CPF, 00.000.000/0000-00 for a CNPJ */
+export const formatDocument = (value: string) => {
+  const digits = onlyDigits(value);
+  if (digits.length === 11) {
+    return digits.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4');
+  }
+  if (digits.length === 14) {
+    return digits.replace(/(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})/, '$1.$2.$3/$4-$5');
+  }
+  return value;
+};
@@ -0,0 +1,142 @@
+import { format } from 'date-fns';
+import { strToU8, zipSync } from 'fflate';
+import { Transaction, paymentMethodLabels } from '@/types/transaction';
+
+type Cell = string | number | Date;
+
+const HEADERS = ['Data', 'Tipo', 'Cliente/Fornecedor', 'Descrição', 'Forma de Pagamento', 'Valor'];
+
+const typeLabels: Record<Transaction['type'], string> = {
+  income: 'Entrada',
+  expense: 'Saída',
+};
+
+const toRows = (transactions: Transaction[]): Cell[][] =>
+  transactions.map((t) => [
+    t.date,
+    typeLabels[t.type],
+    t.clientSupplier,
+    t.description,
+    paymentMethodLabels[t.paymentMethod],
+    t.amount,
+  ]);
+
+// Spreadsheet apps in pt-BR expect ";" between fields and a decimal comma
+const formatCsvCell = (value: Cell) => {
+  if (value instanceof Date) return format(value, 'dd/MM/yyyy');
+  if (typeof value === 'number') return value.toFixed(2).replace('.', ',');
+  // A leading quote keeps text like "=HYPERLINK(...)" from running as a formula
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (transactions: Transaction[]) => {
+  const lines = [HEADERS, ...toRows(transactions)].map((row) => row.map(formatCsvCell).join(';'));
+  // The BOM makes Excel read the file as UTF-8
+  return '\uFEFF' + lines.join('\r\n');
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Days since 1899-12-30, the epoch used by spreadsheet date serials. The
+// calendar date shown on screen is kept regardless of the local timezone.
+const toSerialDate = (date: Date) =>
+  (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - Date.UTC(1899, 11, 30)) / 86400000;
+
+// Style indexes defined in STYLES_XML: 1 = bold header, 2 = date, 3 = amount
+const xlsxCell = (value: Cell, ref: string, header = false) => {
+  if (value instanceof Date) return `<c r="${ref}" s="2"><v>${toSerialDate(value)}</v></c>`;
+  if (typeof value === 'number') return `<c r="${ref}" s="3"><v>${value}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"${header ? ' s="1"' : ''}><is><t>${escapeXml(value)}</t></is></c>`;
+};
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="Transações" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+
+const WORKBOOK_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+</styleSheet>`;
+
+// Minimal single-sheet workbook; the number formats follow the locale of
+// whoever opens the file, so amounts show with a decimal comma in pt-BR
+export const toXlsx = (transactions: Transaction[]) => {
+  const rows = [HEADERS, ...toRows(transactions)];
+  const sheetRows = rows
+    .map((row, r) => {
+      const cells = row.map((value, c) => xlsxCell(value, `${columnName(c)}${r + 1}`, r === 0)).join('');
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const sheetXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<cols><col min="1" max="2" width="12" customWidth="1"/><col min="3" max="4" width="36" customWidth="1"/><col min="5" max="6" width="20" customWidth="1"/></cols>
+<sheetData>${sheetRows}</sheetData>
+</worksheet>`;
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES_XML),
+    '_rels/.rels': strToU8(ROOT_RELS_XML),
+    'xl/workbook.xml': strToU8(WORKBOOK_XML),
+    'xl/_rels/workbook.xml.rels': strToU8(WORKBOOK_RELS_XML),
+    'xl/styles.xml': strToU8(STYLES_XML),
+    'xl/worksheets/sheet1.xml': strToU8(sheetXml),
+  });
+};
+
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
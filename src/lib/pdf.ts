@@ -0,0 +1,166 @@
+// Minimal PDF writer for the printable reports: A4 pages with text in the
+// standard Helvetica fonts, lines and filled rectangles. The standard fonts
+// need no embedding, which keeps the files small and the code dependency free.
+// Coordinates are in points from the top-left corner of the page.
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+type Rgb = [number, number, number];
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right' | 'center';
+  color?: Rgb;
+}
+
+// Glyph widths of printable ASCII (32-126) in 1/1000 of the font size, from
+// the Adobe font metrics of Helvetica and Helvetica-Bold
+const REGULAR_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters WinAnsiEncoding places outside the Latin-1 range
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+// Accented letters take the width of their base letter; anything else
+// outside ASCII is given the width of a lowercase letter
+const charWidth = (char: string, bold: boolean) => {
+  const widths = bold ? BOLD_WIDTHS : REGULAR_WIDTHS;
+  const code = char.normalize('NFD').charCodeAt(0);
+  if (code === 0xa0) return widths[0];
+  return code >= 32 && code <= 126 ? widths[code - 32] : 556;
+};
+
+export const textWidth = (text: string, size: number, bold = false) =>
+  ([...text].reduce((sum, char) => sum + charWidth(char, bold), 0) * size) / 1000;
+
+// Shortens text with an ellipsis until it fits in maxWidth
+export const fitText = (text: string, maxWidth: number, size: number, bold = false) => {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}…`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+};
+
+// PDF string literal in WinAnsiEncoding; unsupported characters become "?"
+const encodeText = (text: string) => {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const byte = WIN_ANSI_EXTRA[char] ?? (code < 256 ? code : 0x3f);
+    const value = String.fromCharCode(byte);
+    encoded += value === '\\' || value === '(' || value === ')' ? `\\${value}` : value;
+  }
+  return `(${encoded})`;
+};
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+const rgb = ([r, g, b]: Rgb) => `${num(r)} ${num(g)} ${num(b)}`;
+
+export class PdfDocument {
+  private pages: string[][] = [[]];
+  private current = 0;
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  /** Moves the drawing to an existing page, e.g. to add page numbers at the end */
+  goToPage(index: number) {
+    this.current = index;
+  }
+
+  text(
+    text: string,
+    x: number,
+    y: number,
+    { size = 10, bold = false, align = 'left', color = [0, 0, 0] }: TextOptions = {}
+  ) {
+    const width = textWidth(text, size, bold);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    this.pages[this.current].push(
+      `BT ${rgb(color)} rg /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(left)} ${num(PAGE_HEIGHT - y)} Td ${encodeText(text)} Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, color: Rgb = [0, 0, 0]) {
+    this.pages[this.current].push(
+      `${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: Rgb) {
+    this.pages[this.current].push(
+      `${rgb(color)} rg ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`
+    );
+  }
+
+  toBytes() {
+    // Objects 1-4 are the catalog, the page tree and the two fonts; each page
+    // then takes two objects, the page itself and its content stream
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${this.pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ];
+    this.pages.forEach((operations, i) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    // Every character is below 256, so string offsets are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets = objects.map((object, i) => {
+      const offset = output.length;
+      output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+    const xref = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+    return bytes;
+  }
+}
@@ -0,0 +1,162 @@
+import { format, isValid, parse } from 'date-fns';
+import { Transaction } from '@/types/transaction';
+
+/** One line of a bank statement; amount is negative for debits */
+export interface StatementRow {
+  date: Date;
+  amount: number;
+  counterparty: string;
+  description: string;
+}
+
+export type CsvDateFormat = 'dd/MM/yyyy' | 'yyyy-MM-dd' | 'MM/dd/yyyy';
+
+/** Where each field is found in a CSV export; columns are 0 based */
+export interface CsvLayout {
+  delimiter: ';' | ',' | '\t';
+  decimalSeparator: ',' | '.';
+  dateFormat: CsvDateFormat;
+  hasHeader: boolean;
+  dateColumn: number;
+  amountColumn: number;
+  descriptionColumn: number;
+  /** -1 when the bank does not export the counterparty separately */
+  counterpartyColumn: number;
+}
+
+export const DEFAULT_CSV_LAYOUT: CsvLayout = {
+  delimiter: ';',
+  decimalSeparator: ',',
+  dateFormat: 'dd/MM/yyyy',
+  hasHeader: true,
+  dateColumn: 0,
+  amountColumn: 2,
+  descriptionColumn: 1,
+  counterpartyColumn: -1,
+};
+
+const CSV_LAYOUT_STORAGE_KEY = 'cash_flow_csv_layout';
+
+export const getStoredCsvLayout = (): CsvLayout => {
+  try {
+    const raw = localStorage.getItem(CSV_LAYOUT_STORAGE_KEY);
+    return raw ? { ...DEFAULT_CSV_LAYOUT, ...JSON.parse(raw) } : DEFAULT_CSV_LAYOUT;
+  } catch {
+    return DEFAULT_CSV_LAYOUT;
+  }
+};
+
+export const storeCsvLayout = (layout: CsvLayout) => {
+  localStorage.setItem(CSV_LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+};
+
+const parseAmount = (value: string, decimalSeparator: ',' | '.') => {
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+  const normalized = value
+    .replace(/[^\d,.-]/g, '')
+    .split(thousandsSeparator)
+    .join('')
+    .replace(decimalSeparator, '.');
+  return Number(normalized);
+};
+
+// OFX 1.x is SGML: leaf elements are usually not closed, so each value runs
+// until the next tag or line break
+const getOfxField = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+export const parseOfx = (content: string): StatementRow[] => {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  return blocks.flatMap((block) => {
+    const posted = getOfxField(block, 'DTPOSTED');
+    const date = new Date(Number(posted.slice(0, 4)), Number(posted.slice(4, 6)) - 1, Number(posted.slice(6, 8)));
+    const amount = Number(getOfxField(block, 'TRNAMT').replace(',', '.'));
+    if (posted.length < 8 || !isValid(date) || !Number.isFinite(amount) || amount === 0) return [];
+
+    const name = getOfxField(block, 'NAME');
+    const memo = getOfxField(block, 'MEMO');
+    return [{ date, amount, counterparty: name || memo, description: memo || name }];
+  });
+};
+
+// Splits CSV text into rows, honoring quoted fields with escaped quotes and line breaks
+export const parseCsvRecords = (content: string, delimiter: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((r) => r.some((value) => value.trim() !== ''));
+};
+
+export const parseCsv = (content: string, layout: CsvLayout): StatementRow[] => {
+  const records = parseCsvRecords(content.replace(/^\uFEFF/, ''), layout.delimiter);
+
+  return (layout.hasHeader ? records.slice(1) : records).flatMap((record) => {
+    const date = parse((record[layout.dateColumn] || '').trim(), layout.dateFormat, new Date());
+    const amount = parseAmount(record[layout.amountColumn] || '', layout.decimalSeparator);
+    if (!isValid(date) || !Number.isFinite(amount) || amount === 0) return [];
+
+    const description = (record[layout.descriptionColumn] || '').trim();
+    const counterparty = layout.counterpartyColumn >= 0 ? (record[layout.counterpartyColumn] || '').trim() : '';
+    return [{ date, amount, counterparty: counterparty || description, description }];
+  });
+};
+
+const normalizeName = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+// A statement line is a likely duplicate when an entry of the same type
+// already exists on the same date, with the same amount and a counterparty
+// that matches or contains the other (banks often truncate names)
+export const findDuplicate = (row: StatementRow, transactions: Transaction[]) => {
+  const day = format(row.date, 'yyyy-MM-dd');
+  const type = row.amount > 0 ? 'income' : 'expense';
+  const amount = Math.abs(row.amount);
+  const counterparty = normalizeName(row.counterparty);
+
+  return transactions.find((t) => {
+    if (t.type !== type || Math.abs(t.amount - amount) >= 0.005) return false;
+    if (t.date.toISOString().slice(0, 10) !== day) return false;
+    const existing = normalizeName(t.clientSupplier);
+    return !counterparty || !existing || existing.includes(counterparty) || counterparty.includes(existing);
+  });
+};
@@ -0,0 +1,332 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowLeft, Archive, ArchiveRestore, Landmark, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAccounts } from '@/hooks/useAccounts';
+import { AccountKind, accountKindLabels } from '@/types/transaction';
+
+interface AccountDraft {
+  id?: string;
+  name: string;
+  kind: AccountKind;
+  openingBalance: string;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+};
+
+const Accounts = () => {
+  const navigate = useNavigate();
+  const { isAdmin, canDelete } = useAuth();
+  const { accounts, transfers, loading, addAccount, updateAccount, deleteAccount, deleteTransfer } = useAccounts();
+  const [draft, setDraft] = useState<AccountDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isAdmin) {
+      navigate('/');
+    }
+  }, [isAdmin, navigate]);
+
+  const getAccountName = (id: string) => accounts.find((a) => a.id === id)?.name || '—';
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim()) return;
+
+    const account = {
+      name: draft.name.trim(),
+      kind: draft.kind,
+      openingBalance: Number(draft.openingBalance.replace(',', '.')) || 0,
+    };
+
+    setIsSaving(true);
+    const success = draft.id ? await updateAccount(draft.id, account) : await addAccount(account);
+    setIsSaving(false);
+
+    if (success) {
+      setDraft(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between gap-4 px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+                <Landmark className="h-5 w-5" />
+              </div>
+              <div>
+                <h1 className="text-lg font-semibold text-foreground sm:text-xl">Contas</h1>
+                <p className="hidden text-sm text-muted-foreground sm:block">
+                  Caixas, contas bancárias e carteiras digitais
+                </p>
+              </div>
+            </div>
+          </div>
+          <Button
+            className="gap-2"
+            onClick={() => setDraft({ name: '', kind: 'bank', openingBalance: '0' })}
+          >
+            <Plus className="h-4 w-4" />
+            Nova Conta
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-6 sm:px-6 lg:px-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Contas ({accounts.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {accounts.map((account) => (
+                <div
+                  key={account.id}
+                  className={cn(
+                    'flex flex-col gap-4 rounded-lg border border-border bg-card p-4 sm:flex-row sm:items-center sm:justify-between',
+                    account.archived && 'opacity-60'
+                  )}
+                >
+                  <div>
+                    <p className="font-medium text-foreground">
+                      {account.name}
+                      {account.archived && <span className="ml-2 text-xs text-muted-foreground">(arquivada)</span>}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {accountKindLabels[account.kind]} · Saldo inicial {formatCurrency(account.openingBalance)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={cn(
+                        'mr-2 font-semibold',
+                        account.balance >= 0 ? 'text-foreground' : 'text-destructive'
+                      )}
+                    >
+                      {formatCurrency(account.balance)}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        setDraft({
+                          id: account.id,
+                          name: account.name,
+                          kind: account.kind,
+                          openingBalance: String(account.openingBalance),
+                        })
+                      }
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={account.archived ? 'Reativar' : 'Arquivar'}
+                      onClick={() => updateAccount(account.id, { archived: !account.archived })}
+                    >
+                      {account.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Excluir conta?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Somente contas sem lançamentos podem ser excluídas.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteAccount(account.id)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Excluir
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Transferências ({transfers.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {transfers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhuma transferência registrada.</p>
+            ) : (
+              <div className="space-y-3">
+                {transfers.map((transfer) => (
+                  <div
+                    key={transfer.id}
+                    className="flex items-center gap-4 rounded-lg border border-border bg-card p-4"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-medium text-foreground">
+                        {getAccountName(transfer.fromAccountId)} → {getAccountName(transfer.toAccountId)}
+                      </p>
+                      <p className="truncate text-sm text-muted-foreground">
+                        {format(transfer.date, "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+                        {transfer.description && ` · ${transfer.description}`}
+                      </p>
+                    </div>
+                    <span className="shrink-0 font-semibold text-foreground">{formatCurrency(transfer.amount)}</span>
+                    {canDelete && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Excluir transferência?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Os saldos das duas contas serão recalculados.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteTransfer(transfer.id)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Excluir
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Editar Conta' : 'Nova Conta'}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label htmlFor="account-name">Nome</Label>
+                <Input
+                  id="account-name"
+                  value={draft.name}
+                  maxLength={100}
+                  placeholder="Ex.: Banco do Brasil"
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select
+                  value={draft.kind}
+                  onValueChange={(value) => setDraft({ ...draft, kind: value as AccountKind })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(accountKindLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="account-opening-balance">Saldo inicial (R$)</Label>
+                <Input
+                  id="account-opening-balance"
+                  type="number"
+                  step="0.01"
+                  value={draft.openingBalance}
+                  onChange={(e) => setDraft({ ...draft, openingBalance: e.target.value })}
+                />
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <Button type="button" variant="outline" className="flex-1" onClick={() => setDraft(null)}>
+                  Cancelar
+                </Button>
+                <Button className="flex-1" onClick={handleSave} disabled={isSaving || !draft.name.trim()}>
+                  {isSaving ? 'Salvando...' : 'Salvar'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Accounts;
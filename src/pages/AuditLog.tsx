@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowLeft, History, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AuditChanges } from '@/components/AuditChanges';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
+import { describeAuditEntity } from '@/lib/audit';
+import { AuditEntityType, auditActionLabels, auditEntityTypeLabels } from '@/types/transaction';
+import { cn } from '@/lib/utils';
+
+const actionStyles = {
+  insert: 'bg-success/10 text-success',
+  update: 'bg-primary/10 text-primary',
+  delete: 'bg-destructive/10 text-destructive',
+  restore: 'bg-success/10 text-success',
+  purge: 'bg-destructive/10 text-destructive',
+  attach: 'bg-primary/10 text-primary',
+  detach: 'bg-muted text-muted-foreground',
+};
+
+const AuditLog = () => {
+  const navigate = useNavigate();
+  const { isAdmin } = useAuth();
+  const [entityType, setEntityType] = useState<AuditEntityType | 'all'>('all');
+  const { entries, loading, loadingMore, hasMore, loadMore } = useAuditLog(
+    entityType === 'all' ? undefined : entityType
+  );
+  const { categories } = useCategories();
+  const { accounts } = useAccounts();
+
+  useEffect(() => {
+    if (!isAdmin) navigate('/');
+  }, [isAdmin, navigate]);
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4 sm:px-6 lg:px-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+              <History className="h-5 w-5" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-foreground sm:text-xl">Histórico de Alterações</h1>
+              <p className="hidden text-sm text-muted-foreground sm:block">
+                Quem alterou transações e permissões, e quando
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-6 sm:px-6 lg:px-8">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Alterações</CardTitle>
+            <Select value={entityType} onValueChange={(value) => setEntityType(value as AuditEntityType | 'all')}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                {Object.entries(auditEntityTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {entries.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">Nenhuma alteração registrada.</p>
+            ) : (
+              <div className="space-y-4">
+                {entries.map((entry) => (
+                  <div key={entry.id} className="space-y-3 rounded-lg border border-border bg-card p-4">
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className={cn('rounded-md px-2 py-0.5 text-xs', actionStyles[entry.action])}>
+                            {auditActionLabels[entry.action]}
+                          </span>
+                          <span className="rounded-md bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                            {auditEntityTypeLabels[entry.entityType]}
+                          </span>
+                          <p className="truncate font-medium text-foreground">{describeAuditEntity(entry)}</p>
+                        </div>
+                        <p className="mt-1 text-sm text-muted-foreground">
+                          {entry.actorName || entry.actorEmail || 'Usuário removido'}
+                        </p>
+                      </div>
+                      <p className="shrink-0 text-sm text-muted-foreground">
+                        {format(entry.createdAt, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                      </p>
+                    </div>
+                    <AuditChanges entry={entry} categories={categories} accounts={accounts} />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {hasMore && (
+              <div className="mt-4 flex justify-center">
+                <Button variant="outline" onClick={loadMore} disabled={loadingMore} className="gap-2">
+                  {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Carregar mais
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default AuditLog;
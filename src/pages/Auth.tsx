@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -9,7 +9,10 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ForgotPasswordDialog } from '@/components/ForgotPasswordDialog';
+import { TotpCodeInput } from '@/components/TotpCodeInput';
 import { useAuth } from '@/contexts/AuthContext';
+import { dbCall } from '@/lib/db';
 import { toast } from '@/hooks/use-toast';
 
 const loginSchema = z.object({
@@ -30,11 +33,32 @@ const signupSchema = z.object({
 type LoginData = z.infer<typeof loginSchema>;
 type SignupData = z.infer<typeof signupSchema>;
 
+const twoFactorErrorMessages: Record<string, string> = {
+  invalid_code: 'Código inválido. Tente de novo.',
+  challenge_expired: 'O tempo para informar o código acabou. Entre com a senha de novo.',
+  two_factor_locked: 'Muitos códigos incorretos. Aguarde 15 minutos para tentar de novo.',
+};
+
+const loginErrorMessages: Record<string, string> = {
+  'Invalid login credentials': 'Email ou senha incorretos',
+  'User deactivated': 'Sua conta está desativada. Fale com um administrador.',
+  'User pending approval': 'Seu cadastro aguarda a aprovação de um administrador.',
+  'Too many wrong codes, try again later': 'Muitos códigos incorretos. Aguarde 15 minutos para tentar de novo.',
+};
+
 const Auth = () => {
   const navigate = useNavigate();
-  const { user, signIn, signUp, loading: authLoading } = useAuth();
+  const { user, signIn, verifyTwoFactor, signUp, loading: authLoading } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState('login');
+  // Set once the password matched for a user with 2FA; the code finishes the login
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [recoveryMode, setRecoveryMode] = useState(false);
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+  const [activeTab, setActiveTab] = useState(inviteToken ? 'signup' : 'login');
+  // Email the invitation link was sent to; the signup email is locked to it
+  const [invitedEmail, setInvitedEmail] = useState<string | null>(null);
 
   useEffect(() => {
     if (user && !authLoading) {
@@ -50,18 +74,61 @@ const Auth = () => {
     resolver: zodResolver(signupSchema),
   });
 
+  const { setValue: setSignupValue } = signupForm;
+
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    dbCall<{ email: string }>('getInvitation', { inviteToken }).then(({ data, error }) => {
+      if (error || !data) {
+        toast({
+          variant: 'destructive',
+          title: 'Convite inválido',
+          description: 'O link de convite expirou ou já foi usado. Peça um novo a um administrador.',
+        });
+        return;
+      }
+      setInvitedEmail(data.email);
+      setSignupValue('email', data.email);
+    });
+  }, [inviteToken, setSignupValue]);
+
   const handleLogin = async (data: LoginData) => {
     setIsLoading(true);
-    const { error } = await signIn(data.email, data.password);
+    const { error, challengeToken: token } = await signIn(data.email, data.password);
+    setIsLoading(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao entrar',
+        description: loginErrorMessages[error.message] || error.message,
+      });
+    } else if (token) {
+      setChallengeToken(token);
+      setTwoFactorCode('');
+      setRecoveryMode(false);
+    } else {
+      toast({ title: 'Bem-vindo!' });
+      navigate('/');
+    }
+  };
+
+  const handleVerifyTwoFactor = async (code: string) => {
+    if (!challengeToken) return;
+    setIsLoading(true);
+    const { error, code: errorCode } = await verifyTwoFactor(challengeToken, code);
     setIsLoading(false);
 
     if (error) {
+      setTwoFactorCode('');
+      if (errorCode === 'challenge_expired' || errorCode === 'two_factor_locked') {
+        setChallengeToken(null);
+      }
       toast({
         variant: 'destructive',
         title: 'Erro ao entrar',
-        description: error.message === 'Invalid login credentials' 
-          ? 'Email ou senha incorretos' 
-          : error.message,
+        description: (errorCode && twoFactorErrorMessages[errorCode]) || error.message,
       });
     } else {
       toast({ title: 'Bem-vindo!' });
@@ -71,24 +138,40 @@ const Auth = () => {
 
   const handleSignup = async (data: SignupData) => {
     setIsLoading(true);
-    const { error } = await signUp(data.email, data.password, data.fullName);
+    const { error, pending } = await signUp(
+      data.email,
+      data.password,
+      data.fullName,
+      invitedEmail ? inviteToken ?? undefined : undefined
+    );
     setIsLoading(false);
 
     if (error) {
       let message = error.message;
       if (error.message.includes('already registered')) {
         message = 'Este email já está cadastrado';
+      } else if (error.message === 'This invitation is for another email') {
+        message = 'Este convite foi enviado para outro email';
+      } else if (error.message === 'Invitation is invalid or has expired') {
+        message = 'O link de convite expirou ou já foi usado';
       }
       toast({
         variant: 'destructive',
         title: 'Erro ao cadastrar',
         description: message,
       });
+    } else if (pending) {
+      toast({
+        title: 'Cadastro enviado!',
+        description: 'Aguarde a aprovação de um administrador para entrar.',
+      });
+      setActiveTab('login');
     } else {
       toast({
         title: 'Conta criada!',
         description: 'Você já pode fazer login.',
       });
+      setInvitedEmail(null);
       setActiveTab('login');
     }
   };
@@ -113,139 +196,204 @@ const Auth = () => {
         </div>
       </div>
 
-      <Card className="w-full max-w-md">
-        <CardHeader className="text-center">
-          <CardTitle>Acesse sua conta</CardTitle>
-          <CardDescription>Entre ou crie uma conta para continuar</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="login">Entrar</TabsTrigger>
-              <TabsTrigger value="signup">Cadastrar</TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="login" className="space-y-4 pt-4">
-              <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="login-email">Email</Label>
-                  <div className="relative">
-                    <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="login-email"
-                      type="email"
-                      placeholder="seu@email.com"
-                      className="pl-10"
-                      {...loginForm.register('email')}
-                    />
+      {challengeToken ? (
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle>Verificação em duas etapas</CardTitle>
+            <CardDescription>
+              {recoveryMode
+                ? 'Digite um dos seus códigos de recuperação'
+                : 'Digite o código de 6 dígitos do aplicativo autenticador'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {recoveryMode ? (
+              <Input
+                placeholder="xxxxx-xxxxx"
+                className="text-center font-mono"
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+                autoFocus
+              />
+            ) : (
+              <TotpCodeInput
+                value={twoFactorCode}
+                onChange={setTwoFactorCode}
+                onComplete={handleVerifyTwoFactor}
+                disabled={isLoading}
+                autoFocus
+              />
+            )}
+
+            <Button
+              className="w-full"
+              onClick={() => handleVerifyTwoFactor(twoFactorCode)}
+              disabled={isLoading || (recoveryMode ? twoFactorCode.trim().length === 0 : twoFactorCode.length < 6)}
+            >
+              {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Verificar
+            </Button>
+
+            <div className="flex justify-between">
+              <Button variant="link" className="h-auto p-0 text-sm" onClick={() => setChallengeToken(null)}>
+                Voltar
+              </Button>
+              <Button
+                variant="link"
+                className="h-auto p-0 text-sm"
+                onClick={() => {
+                  setRecoveryMode(!recoveryMode);
+                  setTwoFactorCode('');
+                }}
+              >
+                {recoveryMode ? 'Usar código do aplicativo' : 'Usar código de recuperação'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle>Acesse sua conta</CardTitle>
+            <CardDescription>Entre ou crie uma conta para continuar</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs value={activeTab} onValueChange={setActiveTab}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="login">Entrar</TabsTrigger>
+                <TabsTrigger value="signup">Cadastrar</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="login" className="space-y-4 pt-4">
+                <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="login-email">Email</Label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        id="login-email"
+                        type="email"
+                        placeholder="seu@email.com"
+                        className="pl-10"
+                        {...loginForm.register('email')}
+                      />
+                    </div>
+                    {loginForm.formState.errors.email && (
+                      <p className="text-sm text-destructive">{loginForm.formState.errors.email.message}</p>
+                    )}
                   </div>
-                  {loginForm.formState.errors.email && (
-                    <p className="text-sm text-destructive">{loginForm.formState.errors.email.message}</p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="login-password">Senha</Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="login-password"
-                      type="password"
-                      placeholder="••••••"
-                      className="pl-10"
-                      {...loginForm.register('password')}
-                    />
+
+                  <div className="space-y-2">
+                    <Label htmlFor="login-password">Senha</Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        id="login-password"
+                        type="password"
+                        placeholder="••••••"
+                        className="pl-10"
+                        {...loginForm.register('password')}
+                      />
+                    </div>
+                    {loginForm.formState.errors.password && (
+                      <p className="text-sm text-destructive">{loginForm.formState.errors.password.message}</p>
+                    )}
                   </div>
-                  {loginForm.formState.errors.password && (
-                    <p className="text-sm text-destructive">{loginForm.formState.errors.password.message}</p>
-                  )}
-                </div>
-
-                <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-                  Entrar
-                </Button>
-              </form>
-            </TabsContent>
-
-            <TabsContent value="signup" className="space-y-4 pt-4">
-              <form onSubmit={signupForm.handleSubmit(handleSignup)} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="signup-name">Nome completo</Label>
-                  <div className="relative">
-                    <User className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="signup-name"
-                      placeholder="Seu nome"
-                      className="pl-10"
-                      {...signupForm.register('fullName')}
-                    />
+
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    Entrar
+                  </Button>
+                </form>
+                <ForgotPasswordDialog />
+              </TabsContent>
+
+              <TabsContent value="signup" className="space-y-4 pt-4">
+                {invitedEmail && (
+                  <p className="rounded-lg bg-muted/50 px-4 py-3 text-sm text-muted-foreground">
+                    Você foi convidado! Crie sua conta com o email {invitedEmail} para entrar com as permissões já
+                    definidas.
+                  </p>
+                )}
+                <form onSubmit={signupForm.handleSubmit(handleSignup)} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-name">Nome completo</Label>
+                    <div className="relative">
+                      <User className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        id="signup-name"
+                        placeholder="Seu nome"
+                        className="pl-10"
+                        {...signupForm.register('fullName')}
+                      />
+                    </div>
+                    {signupForm.formState.errors.fullName && (
+                      <p className="text-sm text-destructive">{signupForm.formState.errors.fullName.message}</p>
+                    )}
                   </div>
-                  {signupForm.formState.errors.fullName && (
-                    <p className="text-sm text-destructive">{signupForm.formState.errors.fullName.message}</p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="signup-email">Email</Label>
-                  <div className="relative">
-                    <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="signup-email"
-                      type="email"
-                      placeholder="seu@email.com"
-                      className="pl-10"
-                      {...signupForm.register('email')}
-                    />
+
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-email">Email</Label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        id="signup-email"
+                        type="email"
+                        placeholder="seu@email.com"
+                        className="pl-10"
+                        readOnly={!!invitedEmail}
+                        {...signupForm.register('email')}
+                      />
+                    </div>
+                    {signupForm.formState.errors.email && (
+                      <p className="text-sm text-destructive">{signupForm.formState.errors.email.message}</p>
+                    )}
                   </div>
-                  {signupForm.formState.errors.email && (
-                    <p className="text-sm text-destructive">{signupForm.formState.errors.email.message}</p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="signup-password">Senha</Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="signup-password"
-                      type="password"
-                      placeholder="Mínimo 6 caracteres"
-                      className="pl-10"
-                      {...signupForm.register('password')}
-                    />
+
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-password">Senha</Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        id="signup-password"
+                        type="password"
+                        placeholder="Mínimo 6 caracteres"
+                        className="pl-10"
+                        {...signupForm.register('password')}
+                      />
+                    </div>
+                    {signupForm.formState.errors.password && (
+                      <p className="text-sm text-destructive">{signupForm.formState.errors.password.message}</p>
+                    )}
                   </div>
-                  {signupForm.formState.errors.password && (
-                    <p className="text-sm text-destructive">{signupForm.formState.errors.password.message}</p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="signup-confirm">Confirmar senha</Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                    <Input
-                      id="signup-confirm"
-                      type="password"
-                      placeholder="Repita a senha"
-                      className="pl-10"
-                      {...signupForm.register('confirmPassword')}
-                    />
+
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-confirm">Confirmar senha</Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        id="signup-confirm"
+                        type="password"
+                        placeholder="Repita a senha"
+                        className="pl-10"
+                        {...signupForm.register('confirmPassword')}
+                      />
+                    </div>
+                    {signupForm.formState.errors.confirmPassword && (
+                      <p className="text-sm text-destructive">{signupForm.formState.errors.confirmPassword.message}</p>
+                    )}
                   </div>
-                  {signupForm.formState.errors.confirmPassword && (
-                    <p className="text-sm text-destructive">{signupForm.formState.errors.confirmPassword.message}</p>
-                  )}
-                </div>
-
-                <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-                  Criar conta
-                </Button>
-              </form>
-            </TabsContent>
-          </Tabs>
-        </CardContent>
-      </Card>
+
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    Criar conta
+                  </Button>
+                </form>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -0,0 +1,421 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowLeft, Banknote, Loader2, Lock, LockOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { DENOMINATIONS, countTotal, formatDenomination } from '@/lib/cashRegister';
+import { DenominationCount } from '@/components/DenominationCount';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useCashSession, useCashSessions } from '@/hooks/useCashSessions';
+import { Account, CashCounts, CashSession } from '@/types/transaction';
+
+type CountDraft =
+  | { mode: 'open'; account: Account; counts: CashCounts; notes: string }
+  | { mode: 'close'; session: CashSession; counts: CashCounts; notes: string };
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+};
+
+const formatDateTime = (date: Date) => format(date, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+
+// Quebra de caixa: positive when there is more cash than expected
+const DifferenceLabel = ({ value }: { value: number }) => (
+  <span
+    className={cn(
+      'font-semibold',
+      value > 0 ? 'text-success' : value < 0 ? 'text-destructive' : 'text-muted-foreground'
+    )}
+  >
+    {value > 0 ? 'Sobra de ' : value < 0 ? 'Falta de ' : ''}
+    {value === 0 ? 'Sem diferença' : formatCurrency(Math.abs(value))}
+  </span>
+);
+
+const CashRegister = () => {
+  const navigate = useNavigate();
+  const { canOperateCashRegister } = useAuth();
+  const { accounts, loading: accountsLoading, refetch: refetchAccounts } = useAccounts();
+  const { sessions, loading, openSession, closeSession, refetch } = useCashSessions();
+  const [draft, setDraft] = useState<CountDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const { session: viewing, loading: viewingLoading } = useCashSession(viewingId);
+
+  const cashAccounts = accounts.filter((a) => a.kind === 'cash' && !a.archived);
+  const openSessions = new Map(sessions.filter((s) => !s.closedAt).map((s) => [s.accountId, s]));
+
+  const startClosing = async (session: CashSession) => {
+    // Entries may have been recorded since the page was loaded
+    await refetch();
+    setDraft({ mode: 'close', session, counts: {}, notes: '' });
+  };
+
+  // The expected amount shown while closing comes from the latest load
+  const closingSession =
+    draft?.mode === 'close' ? sessions.find((s) => s.id === draft.session.id) ?? draft.session : null;
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    const success =
+      draft.mode === 'open'
+        ? await openSession(draft.account.id, draft.counts, draft.notes)
+        : await closeSession(draft.session.id, draft.counts, draft.notes);
+    setIsSaving(false);
+
+    if (success) {
+      setDraft(null);
+      refetchAccounts();
+    }
+  };
+
+  if (loading || accountsLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4 sm:px-6 lg:px-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+              <Banknote className="h-5 w-5" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-foreground sm:text-xl">Caixa do Dia</h1>
+              <p className="hidden text-sm text-muted-foreground sm:block">
+                Abertura, fechamento e quebra de caixa
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-6 sm:px-6 lg:px-8">
+        {cashAccounts.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-sm text-muted-foreground">
+              Nenhuma conta do tipo Caixa cadastrada. Cadastre uma em Contas para controlar a abertura e o fechamento.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {cashAccounts.map((account) => {
+              const session = openSessions.get(account.id);
+              return (
+                <Card key={account.id}>
+                  <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+                    <CardTitle className="text-base">{account.name}</CardTitle>
+                    <span
+                      className={cn(
+                        'flex items-center gap-1 rounded-md px-2 py-0.5 text-xs',
+                        session ? 'bg-success/10 text-success' : 'bg-muted text-muted-foreground'
+                      )}
+                    >
+                      {session ? <LockOpen className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+                      {session ? 'Aberto' : 'Fechado'}
+                    </span>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {session ? (
+                      <>
+                        <p className="text-sm text-muted-foreground">
+                          Aberto em {formatDateTime(session.openedAt)}
+                          {session.openedByName && ` por ${session.openedByName}`}
+                        </p>
+                        <dl className="grid grid-cols-3 gap-2 text-sm">
+                          <div>
+                            <dt className="text-muted-foreground">Abertura</dt>
+                            <dd className="font-medium text-foreground">{formatCurrency(session.openingAmount)}</dd>
+                          </div>
+                          <div>
+                            <dt className="text-muted-foreground">Movimento</dt>
+                            <dd className="font-medium text-foreground">
+                              {formatCurrency(session.expectedAmount - session.openingAmount)}
+                            </dd>
+                          </div>
+                          <div>
+                            <dt className="text-muted-foreground">Esperado</dt>
+                            <dd className="font-semibold text-foreground">{formatCurrency(session.expectedAmount)}</dd>
+                          </div>
+                        </dl>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setViewingId(session.id)}>
+                            Lançamentos
+                          </Button>
+                          {canOperateCashRegister && (
+                            <Button size="sm" className="gap-2" onClick={() => startClosing(session)}>
+                              <Lock className="h-4 w-4" />
+                              Fechar caixa
+                            </Button>
+                          )}
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-sm text-muted-foreground">
+                          Abra o caixa contando o dinheiro disponível. Os lançamentos pagos em dinheiro nesta conta
+                          entram no caixa aberto.
+                        </p>
+                        {canOperateCashRegister && (
+                          <Button
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => setDraft({ mode: 'open', account, counts: {}, notes: '' })}
+                          >
+                            <LockOpen className="h-4 w-4" />
+                            Abrir caixa
+                          </Button>
+                        )}
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Histórico</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sessions.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">Nenhum caixa aberto até agora.</p>
+            ) : (
+              <div className="space-y-3">
+                {sessions.map((session) => (
+                  <button
+                    key={session.id}
+                    type="button"
+                    className="flex w-full flex-col gap-2 rounded-lg border border-border bg-card p-4 text-left transition-colors hover:bg-muted/50 sm:flex-row sm:items-center"
+                    onClick={() => setViewingId(session.id)}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium text-foreground">
+                        {format(session.openedAt, "dd 'de' MMMM 'de' yyyy", { locale: ptBR })} · {session.accountName}
+                      </p>
+                      <p className="truncate text-sm text-muted-foreground">
+                        {session.closedAt
+                          ? `Fechado em ${formatDateTime(session.closedAt)}${session.closedByName ? ` por ${session.closedByName}` : ''}`
+                          : 'Em aberto'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-6 text-sm">
+                      <div className="text-right">
+                        <p className="text-muted-foreground">Esperado</p>
+                        <p className="font-medium text-foreground">{formatCurrency(session.expectedAmount)}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-muted-foreground">Contado</p>
+                        <p className="font-medium text-foreground">
+                          {session.closingAmount === null ? '—' : formatCurrency(session.closingAmount)}
+                        </p>
+                      </div>
+                      <div className="w-36 text-right">
+                        <p className="text-muted-foreground">Quebra</p>
+                        {session.difference === null ? (
+                          <p className="text-muted-foreground">—</p>
+                        ) : (
+                          <DifferenceLabel value={session.difference} />
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Opening and closing counts */}
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{draft?.mode === 'open' ? 'Abertura de Caixa' : 'Fechamento de Caixa'}</DialogTitle>
+            <DialogDescription>
+              {draft?.mode === 'open'
+                ? `${draft.account.name}: conte as cédulas e moedas disponíveis no início do dia.`
+                : draft && `${draft.session.accountName}: conte as cédulas e moedas no caixa agora.`}
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4 pt-2">
+              <DenominationCount counts={draft.counts} onChange={(counts) => setDraft({ ...draft, counts })} />
+
+              {closingSession && (
+                <dl className="space-y-1 rounded-lg border border-border p-3 text-sm">
+                  <div className="flex justify-between">
+                    <dt className="text-muted-foreground">Esperado em dinheiro</dt>
+                    <dd className="font-medium text-foreground">{formatCurrency(closingSession.expectedAmount)}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-muted-foreground">Quebra de caixa</dt>
+                    <dd>
+                      <DifferenceLabel
+                        value={Math.round((countTotal(draft.counts) - closingSession.expectedAmount) * 100) / 100}
+                      />
+                    </dd>
+                  </div>
+                </dl>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="cash-session-notes">Observações</Label>
+                <Textarea
+                  id="cash-session-notes"
+                  value={draft.notes}
+                  rows={2}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                />
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <Button type="button" variant="outline" className="flex-1" onClick={() => setDraft(null)}>
+                  Cancelar
+                </Button>
+                <Button className="flex-1" onClick={handleSave} disabled={isSaving}>
+                  {isSaving ? 'Salvando...' : draft.mode === 'open' ? 'Abrir caixa' : 'Fechar caixa'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Session details */}
+      <Dialog open={viewingId !== null} onOpenChange={(open) => !open && setViewingId(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{viewing ? viewing.accountName : 'Caixa'}</DialogTitle>
+            {viewing && (
+              <DialogDescription>
+                Aberto em {formatDateTime(viewing.openedAt)}
+                {viewing.closedAt ? ` · fechado em ${formatDateTime(viewing.closedAt)}` : ' · em aberto'}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {viewingLoading || !viewing ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <dl className="grid grid-cols-2 gap-x-6 gap-y-3 text-sm">
+                <div>
+                  <dt className="text-muted-foreground">Abertura</dt>
+                  <dd className="text-foreground">
+                    {formatCurrency(viewing.openingAmount)}
+                    {viewing.openedByName && ` · ${viewing.openedByName}`}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Esperado</dt>
+                  <dd className="text-foreground">{formatCurrency(viewing.expectedAmount)}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Contado no fechamento</dt>
+                  <dd className="text-foreground">
+                    {viewing.closingAmount === null ? '—' : formatCurrency(viewing.closingAmount)}
+                    {viewing.closedByName && ` · ${viewing.closedByName}`}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Quebra de caixa</dt>
+                  <dd>{viewing.difference === null ? '—' : <DifferenceLabel value={viewing.difference} />}</dd>
+                </div>
+              </dl>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-foreground">Contagem</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-muted-foreground">
+                      <th className="py-1 text-left font-normal">Valor</th>
+                      <th className="py-1 text-right font-normal">Abertura</th>
+                      <th className="py-1 text-right font-normal">Fechamento</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {DENOMINATIONS.filter(
+                      (d) => viewing.openingCounts[d.key] || viewing.closingCounts?.[d.key]
+                    ).map((denomination) => (
+                      <tr key={denomination.key} className="border-t border-border">
+                        <td className="py-1 text-foreground">{formatDenomination(denomination)}</td>
+                        <td className="py-1 text-right text-foreground">{viewing.openingCounts[denomination.key] || 0}</td>
+                        <td className="py-1 text-right text-foreground">
+                          {viewing.closingCounts ? viewing.closingCounts[denomination.key] || 0 : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-foreground">
+                  Lançamentos em dinheiro ({viewing.transactions.length})
+                </h3>
+                {viewing.transactions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nenhum lançamento neste caixa.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {viewing.transactions.map((transaction) => (
+                      <li key={transaction.id} className="flex items-center gap-3 text-sm">
+                        <span className="min-w-0 flex-1 truncate text-foreground">
+                          {transaction.clientSupplier}
+                          {transaction.description && (
+                            <span className="text-muted-foreground"> · {transaction.description}</span>
+                          )}
+                        </span>
+                        <span
+                          className={cn(
+                            'shrink-0 font-medium',
+                            transaction.type === 'income' ? 'text-success' : 'text-destructive'
+                          )}
+                        >
+                          {transaction.type === 'income' ? '+' : '-'} {formatCurrency(transaction.amount)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {viewing.notes && <p className="whitespace-pre-line text-sm text-muted-foreground">{viewing.notes}</p>}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CashRegister;
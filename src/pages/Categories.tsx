@@ -0,0 +1,263 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Tags, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { buildCategoryOptions, getCategoryDescendantIds } from '@/lib/categories';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCategories } from '@/hooks/useCategories';
+import { TransactionType } from '@/types/transaction';
+
+const NO_PARENT = 'none';
+
+interface CategoryDraft {
+  id?: string;
+  name: string;
+  type: TransactionType;
+  parentId: string | null;
+}
+
+const Categories = () => {
+  const navigate = useNavigate();
+  const { canManageCategories } = useAuth();
+  const { categories, loading, addCategory, updateCategory, deleteCategory } = useCategories();
+  const [draft, setDraft] = useState<CategoryDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!canManageCategories) {
+      navigate('/');
+    }
+  }, [canManageCategories, navigate]);
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim()) return;
+
+    setIsSaving(true);
+    const success = draft.id
+      ? await updateCategory(draft.id, { name: draft.name.trim(), parentId: draft.parentId })
+      : await addCategory({ name: draft.name.trim(), type: draft.type, parentId: draft.parentId });
+    setIsSaving(false);
+
+    if (success) {
+      setDraft(null);
+    }
+  };
+
+  // A category cannot be moved under itself or one of its subcategories
+  const parentOptions = draft
+    ? buildCategoryOptions(categories, draft.type).filter(
+        ({ category }) => !draft.id || !getCategoryDescendantIds(categories, draft.id).has(category.id)
+      )
+    : [];
+
+  const renderTree = (type: TransactionType) => {
+    const options = buildCategoryOptions(categories, type);
+
+    if (options.length === 0) {
+      return <p className="text-sm text-muted-foreground">Nenhuma categoria cadastrada.</p>;
+    }
+
+    return (
+      <div className="space-y-2">
+        {options.map(({ category, depth }) => (
+          <div
+            key={category.id}
+            className="group flex items-center justify-between rounded-lg border border-border bg-card px-4 py-2"
+            style={{ marginLeft: `${depth * 24}px` }}
+          >
+            <span className={cn('text-sm', depth === 0 ? 'font-medium text-foreground' : 'text-muted-foreground')}>
+              {category.name}
+            </span>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setDraft({ id: category.id, name: category.name, type: category.type, parentId: category.parentId })}
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive hover:text-destructive">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Excluir categoria?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      As transações desta categoria ficarão sem categoria.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => deleteCategory(category.id)}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Excluir
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between gap-4 px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+                <Tags className="h-5 w-5" />
+              </div>
+              <div>
+                <h1 className="text-lg font-semibold text-foreground sm:text-xl">Plano de Contas</h1>
+                <p className="hidden text-sm text-muted-foreground sm:block">
+                  Organize as categorias de entradas e saídas
+                </p>
+              </div>
+            </div>
+          </div>
+          <Button
+            className="gap-2"
+            onClick={() => setDraft({ name: '', type: 'expense', parentId: null })}
+          >
+            <Plus className="h-4 w-4" />
+            Nova Categoria
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto grid gap-6 px-4 py-6 sm:px-6 lg:grid-cols-2 lg:px-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-success">Recebimentos</CardTitle>
+          </CardHeader>
+          <CardContent>{renderTree('income')}</CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-destructive">Pagamentos</CardTitle>
+          </CardHeader>
+          <CardContent>{renderTree('expense')}</CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Editar Categoria' : 'Nova Categoria'}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label htmlFor="category-name">Nome</Label>
+                <Input
+                  id="category-name"
+                  value={draft.name}
+                  maxLength={100}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select
+                  value={draft.type}
+                  onValueChange={(value) => setDraft({ ...draft, type: value as TransactionType, parentId: null })}
+                  disabled={!!draft.id}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="income">Recebimento</SelectItem>
+                    <SelectItem value="expense">Pagamento</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Categoria pai</Label>
+                <Select
+                  value={draft.parentId || NO_PARENT}
+                  onValueChange={(value) => setDraft({ ...draft, parentId: value === NO_PARENT ? null : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT}>Nenhuma (categoria principal)</SelectItem>
+                    {parentOptions.map(({ category, depth }) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        <span style={{ paddingLeft: `${depth * 12}px` }}>{category.name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <Button type="button" variant="outline" className="flex-1" onClick={() => setDraft(null)}>
+                  Cancelar
+                </Button>
+                <Button className="flex-1" onClick={handleSave} disabled={isSaving || !draft.name.trim()}>
+                  {isSaving ? 'Salvando...' : 'Salvar'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Categories;
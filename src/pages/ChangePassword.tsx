@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ArrowLeft, KeyRound, Loader2, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { dbCall } from '@/lib/db';
+import { toast } from '@/hooks/use-toast';
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Informe a senha atual'),
+  password: z.string().min(6, 'Mínimo 6 caracteres'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'As senhas não coincidem',
+  path: ['confirmPassword'],
+});
+
+type ChangePasswordData = z.infer<typeof changePasswordSchema>;
+
+const changePasswordErrorMessages: Record<string, string> = {
+  wrong_password: 'A senha atual está incorreta.',
+  weak_password: 'A nova senha precisa ter pelo menos 6 caracteres.',
+};
+
+const fields = [
+  { name: 'currentPassword', label: 'Senha atual', placeholder: '••••••' },
+  { name: 'password', label: 'Nova senha', placeholder: 'Mínimo 6 caracteres' },
+  { name: 'confirmPassword', label: 'Confirmar nova senha', placeholder: 'Repita a nova senha' },
+] as const;
+
+const ChangePassword = () => {
+  const navigate = useNavigate();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<ChangePasswordData>({
+    resolver: zodResolver(changePasswordSchema),
+  });
+
+  const handleChange = async (data: ChangePasswordData) => {
+    setIsLoading(true);
+    const { error, code } = await dbCall('changePassword', {
+      currentPassword: data.currentPassword,
+      password: data.password,
+    });
+    setIsLoading(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao alterar senha',
+        description: (code && changePasswordErrorMessages[code]) || error,
+      });
+    } else {
+      toast({
+        title: 'Senha alterada!',
+        description: 'Os outros dispositivos precisarão entrar de novo.',
+      });
+      form.reset();
+      navigate('/');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4 sm:px-6 lg:px-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+              <KeyRound className="h-5 w-5" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-foreground sm:text-xl">Alterar Senha</h1>
+              <p className="hidden text-sm text-muted-foreground sm:block">
+                Troque a senha usada para entrar no sistema
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 sm:px-6 lg:px-8">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle>Nova senha</CardTitle>
+            <CardDescription>Ao salvar, as sessões abertas em outros dispositivos são encerradas.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={form.handleSubmit(handleChange)} className="space-y-4">
+              {fields.map((field) => (
+                <div key={field.name} className="space-y-2">
+                  <Label htmlFor={`change-${field.name}`}>{field.label}</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                      id={`change-${field.name}`}
+                      type="password"
+                      placeholder={field.placeholder}
+                      className="pl-10"
+                      {...form.register(field.name)}
+                    />
+                  </div>
+                  {form.formState.errors[field.name] && (
+                    <p className="text-sm text-destructive">{form.formState.errors[field.name]?.message}</p>
+                  )}
+                </div>
+              ))}
+
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Salvar
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default ChangePassword;
@@ -0,0 +1,161 @@
+import { useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Contact as ContactIcon, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { formatDocument } from '@/lib/documents';
+import { useContactStatement } from '@/hooks/useContacts';
+import { paymentMethodLabels, transactionStatusLabels } from '@/types/transaction';
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+};
+
+const ContactStatement = () => {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { statement, loading } = useContactStatement(id);
+
+  if (loading || !statement) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        {loading ? (
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        ) : (
+          <Button variant="outline" onClick={() => navigate('/contacts')}>
+            Voltar aos contatos
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  const { contact, transactions } = statement;
+  const details = [
+    contact.document && { label: 'CPF/CNPJ', value: formatDocument(contact.document) },
+    contact.phone && { label: 'Telefone', value: contact.phone },
+    contact.email && { label: 'E-mail', value: contact.email },
+    contact.defaultPaymentMethod && {
+      label: 'Forma de pagamento padrão',
+      value: paymentMethodLabels[contact.defaultPaymentMethod],
+    },
+  ].filter((detail): detail is { label: string; value: string } => !!detail);
+
+  const totals = [
+    { title: 'Recebido', value: statement.income, className: 'text-success' },
+    { title: 'Pago', value: statement.expense, className: 'text-destructive' },
+    {
+      title: 'Saldo',
+      value: statement.balance,
+      className: statement.balance >= 0 ? 'text-foreground' : 'text-destructive',
+    },
+    { title: 'A receber', value: statement.pendingIncome, className: 'text-muted-foreground' },
+    { title: 'A pagar', value: statement.pendingExpense, className: 'text-muted-foreground' },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4 sm:px-6 lg:px-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/contacts')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex min-w-0 items-center gap-3">
+            <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+              <ContactIcon className="h-5 w-5" />
+            </div>
+            <div className="min-w-0">
+              <h1 className="truncate text-lg font-semibold text-foreground sm:text-xl">{contact.name}</h1>
+              <p className="hidden text-sm text-muted-foreground sm:block">Extrato do contato</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-6 sm:px-6 lg:px-8">
+        <div className="grid gap-4 sm:grid-cols-3 lg:grid-cols-5">
+          {totals.map((total) => (
+            <Card key={total.title}>
+              <CardContent className="p-4">
+                <p className="text-sm font-medium text-muted-foreground">{total.title}</p>
+                <p className={cn('mt-1 text-xl font-bold tracking-tight', total.className)}>
+                  {formatCurrency(total.value)}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {(details.length > 0 || contact.notes) && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Dados do contato</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {details.length > 0 && (
+                <dl className="grid gap-x-6 gap-y-2 text-sm sm:grid-cols-2">
+                  {details.map((detail) => (
+                    <div key={detail.label}>
+                      <dt className="text-muted-foreground">{detail.label}</dt>
+                      <dd className="text-foreground">{detail.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+              {contact.notes && <p className="whitespace-pre-line text-sm text-foreground">{contact.notes}</p>}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Lançamentos ({transactions.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {transactions.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                Nenhum lançamento vinculado a este contato.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {transactions.map((transaction) => (
+                  <div
+                    key={transaction.id}
+                    className={cn(
+                      'flex items-center gap-4 rounded-lg border border-border bg-card p-4',
+                      transaction.status === 'cancelled' && 'opacity-60'
+                    )}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-medium text-foreground">
+                        {transaction.description || transaction.clientSupplier}
+                      </p>
+                      <p className="truncate text-sm text-muted-foreground">
+                        {format(transaction.date, 'dd/MM/yyyy')} · {paymentMethodLabels[transaction.paymentMethod]} ·{' '}
+                        {transactionStatusLabels[transaction.status]}
+                      </p>
+                    </div>
+                    <span
+                      className={cn(
+                        'shrink-0 font-semibold',
+                        transaction.type === 'income' ? 'text-success' : 'text-destructive'
+                      )}
+                    >
+                      {transaction.type === 'income' ? '+' : '-'} {formatCurrency(transaction.amount)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default ContactStatement;
@@ -0,0 +1,357 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Contact as ContactIcon, Loader2, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { formatDocument, isValidDocument, onlyDigits } from '@/lib/documents';
+import { useAuth } from '@/contexts/AuthContext';
+import { useContacts } from '@/hooks/useContacts';
+import { Contact, PaymentMethod, paymentMethodLabels } from '@/types/transaction';
+
+interface ContactDraft {
+  id?: string;
+  name: string;
+  document: string;
+  phone: string;
+  email: string;
+  defaultPaymentMethod: PaymentMethod | null;
+  notes: string;
+}
+
+const NO_PAYMENT_METHOD = 'none';
+
+const EMPTY_DRAFT: ContactDraft = {
+  name: '',
+  document: '',
+  phone: '',
+  email: '',
+  defaultPaymentMethod: null,
+  notes: '',
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+};
+
+const toDraft = (contact: Contact): ContactDraft => ({
+  id: contact.id,
+  name: contact.name,
+  document: contact.document ? formatDocument(contact.document) : '',
+  phone: contact.phone || '',
+  email: contact.email || '',
+  defaultPaymentMethod: contact.defaultPaymentMethod,
+  notes: contact.notes,
+});
+
+const Contacts = () => {
+  const navigate = useNavigate();
+  const { canManageContacts } = useAuth();
+  const { contacts, loading, addContact, updateContact, deleteContact } = useContacts();
+  const [search, setSearch] = useState('');
+  const [draft, setDraft] = useState<ContactDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const term = search.trim().toLowerCase();
+  const digits = onlyDigits(search);
+  const filteredContacts = contacts.filter(
+    (contact) =>
+      !term ||
+      contact.name.toLowerCase().includes(term) ||
+      (digits.length > 0 && contact.document?.includes(digits))
+  );
+
+  const documentError =
+    draft && draft.document.trim() && !isValidDocument(draft.document) ? 'CPF/CNPJ inválido' : null;
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim() || documentError) return;
+
+    const contact = {
+      name: draft.name.trim(),
+      document: onlyDigits(draft.document) || null,
+      phone: draft.phone.trim() || null,
+      email: draft.email.trim() || null,
+      defaultPaymentMethod: draft.defaultPaymentMethod,
+      notes: draft.notes.trim(),
+    };
+
+    setIsSaving(true);
+    const success = draft.id ? await updateContact(draft.id, contact) : await addContact(contact);
+    setIsSaving(false);
+
+    if (success) {
+      setDraft(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center justify-between gap-4 px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+                <ContactIcon className="h-5 w-5" />
+              </div>
+              <div>
+                <h1 className="text-lg font-semibold text-foreground sm:text-xl">Clientes e Fornecedores</h1>
+                <p className="hidden text-sm text-muted-foreground sm:block">
+                  Cadastro de contatos e extrato de cada um
+                </p>
+              </div>
+            </div>
+          </div>
+          {canManageContacts && (
+            <Button className="gap-2" onClick={() => setDraft(EMPTY_DRAFT)}>
+              <Plus className="h-4 w-4" />
+              Novo Contato
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-6 sm:px-6 lg:px-8">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle>Contatos ({contacts.length})</CardTitle>
+            <div className="relative w-full max-w-xs">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={search}
+                placeholder="Buscar por nome ou CPF/CNPJ"
+                className="pl-9"
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {filteredContacts.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">Nenhum contato encontrado.</p>
+            ) : (
+              <div className="space-y-3">
+                {filteredContacts.map((contact) => (
+                  <div
+                    key={contact.id}
+                    className="flex flex-col gap-3 rounded-lg border border-border bg-card p-4 sm:flex-row sm:items-center"
+                  >
+                    <button
+                      type="button"
+                      className="min-w-0 flex-1 text-left"
+                      onClick={() => navigate(`/contacts/${contact.id}`)}
+                    >
+                      <p className="truncate font-medium text-foreground hover:underline">{contact.name}</p>
+                      <p className="truncate text-sm text-muted-foreground">
+                        {[
+                          contact.document && formatDocument(contact.document),
+                          contact.phone,
+                          contact.email,
+                        ]
+                          .filter(Boolean)
+                          .join(' · ') || 'Sem dados de contato'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {contact.transactionCount} {contact.transactionCount === 1 ? 'lançamento' : 'lançamentos'}
+                      </p>
+                    </button>
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={cn(
+                          'mr-2 font-semibold',
+                          contact.balance >= 0 ? 'text-foreground' : 'text-destructive'
+                        )}
+                      >
+                        {formatCurrency(contact.balance)}
+                      </span>
+                      {canManageContacts && (
+                        <>
+                          <Button variant="ghost" size="icon" onClick={() => setDraft(toDraft(contact))}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Excluir contato?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Os lançamentos deste contato são mantidos com o nome informado, mas deixam de
+                                  aparecer no extrato.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => deleteContact(contact.id)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Excluir
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Editar Contato' : 'Novo Contato'}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label htmlFor="contact-name">Nome</Label>
+                <Input
+                  id="contact-name"
+                  value={draft.name}
+                  maxLength={100}
+                  placeholder="Ex.: Distribuidora Silva Ltda"
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="contact-document">CPF/CNPJ</Label>
+                <Input
+                  id="contact-document"
+                  value={draft.document}
+                  maxLength={18}
+                  placeholder="Opcional"
+                  onChange={(e) => setDraft({ ...draft, document: e.target.value })}
+                  onBlur={() => setDraft({ ...draft, document: formatDocument(draft.document) })}
+                />
+                {documentError && <p className="text-sm text-destructive">{documentError}</p>}
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="contact-phone">Telefone</Label>
+                  <Input
+                    id="contact-phone"
+                    type="tel"
+                    value={draft.phone}
+                    maxLength={20}
+                    placeholder="(00) 00000-0000"
+                    onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="contact-email">E-mail</Label>
+                  <Input
+                    id="contact-email"
+                    type="email"
+                    value={draft.email}
+                    onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Forma de pagamento padrão</Label>
+                <Select
+                  value={draft.defaultPaymentMethod || NO_PAYMENT_METHOD}
+                  onValueChange={(value) =>
+                    setDraft({
+                      ...draft,
+                      defaultPaymentMethod: value === NO_PAYMENT_METHOD ? null : (value as PaymentMethod),
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PAYMENT_METHOD}>Nenhuma</SelectItem>
+                    {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="contact-notes">Observações</Label>
+                <Textarea
+                  id="contact-notes"
+                  value={draft.notes}
+                  rows={3}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                />
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <Button type="button" variant="outline" className="flex-1" onClick={() => setDraft(null)}>
+                  Cancelar
+                </Button>
+                <Button
+                  className="flex-1"
+                  onClick={handleSave}
+                  disabled={isSaving || !draft.name.trim() || !!documentError}
+                >
+                  {isSaving ? 'Salvando...' : 'Salvar'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Contacts;
@@ -1,13 +1,48 @@
-import { useState, useMemo } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Wallet, LogOut, Users, Loader2 } from 'lucide-react';
-import { useTransactions } from '@/hooks/useTransactions';
+import {
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide,
+  Wallet,
+  LogOut,
+  Users,
+  Loader2,
+  Tags,
+  Landmark,
+  History,
+  Trash2,
+  Lock,
+  TrendingUp,
+  Contact,
+  Banknote,
+  KeyRound,
+  ShieldCheck,
+} from 'lucide-react';
+import { DEFAULT_SORT, useTransactions } from '@/hooks/useTransactions';
+import { useCategories } from '@/hooks/useCategories';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useContacts } from '@/hooks/useContacts';
+import { useClosedPeriods } from '@/hooks/useClosedPeriods';
 import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
 import { SummaryCards } from '@/components/SummaryCards';
 import { TransactionForm } from '@/components/TransactionForm';
+import { TransferForm } from '@/components/TransferForm';
 import { TransactionFilters } from '@/components/TransactionFilters';
 import { TransactionList } from '@/components/TransactionList';
-import { TransactionType } from '@/types/transaction';
+import { ExportMenu } from '@/components/ExportMenu';
+import { StatementImportDialog } from '@/components/StatementImportDialog';
+import { CashFlowDashboard } from '@/components/CashFlowDashboard';
+import { CashReportDialog } from '@/components/CashReportDialog';
+import {
+  Filters,
+  NewTransaction,
+  Transaction,
+  RecurrenceRule,
+  TransactionSort,
+  TransactionSortField,
+  transactionSortLabels,
+} from '@/types/transaction';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -16,33 +51,143 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-
-interface Filters {
-  startDate?: Date;
-  endDate?: Date;
-  type: TransactionType | 'all';
-  search: string;
-}
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToastAction } from '@/components/ui/toast';
 
 const Index = () => {
   const navigate = useNavigate();
-  const { profile, signOut, isAdmin, canInsertExpense, canInsertIncome, canDelete } = useAuth();
-  const { addTransaction, deleteTransaction, getFilteredTransactions, getSummary, loading } = useTransactions();
+  const {
+    user,
+    profile,
+    signOut,
+    isAdmin,
+    canInsertExpense,
+    canInsertIncome,
+    canEdit,
+    canDelete,
+    canManageCategories,
+    canExport,
+    canManageUsers,
+    canClosePeriods,
+  } = useAuth();
   const [filters, setFilters] = useState<Filters>({
     type: 'all',
     search: '',
+    categoryId: 'all',
+    accountId: 'all',
+    status: 'all',
+    paymentMethod: 'all',
   });
+  const [sort, setSort] = useState<TransactionSort>(DEFAULT_SORT);
+  const [view, setView] = useState<'transactions' | 'dashboard'>('transactions');
+  // Kept after the dialog closes so its content stays put while it animates out
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [editOpen, setEditOpen] = useState(false);
+  const {
+    transactions,
+    addTransaction,
+    addRecurringTransaction,
+    addTransactions,
+    addInstallmentTransaction,
+    cancelRemainingInstallments,
+    updateTransaction,
+    updateFutureOccurrences,
+    endRecurrence,
+    settleTransaction,
+    deleteTransaction,
+    restoreTransaction,
+    summary,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    fetchAllTransactions,
+    exportTransactions,
+  } = useTransactions(filters, sort);
+  const { categories } = useCategories();
+  const { accounts, addTransfer, refetch: refetchAccounts } = useAccounts();
+  const { isDateClosed } = useClosedPeriods();
+  const { contacts } = useContacts();
 
-  const filteredTransactions = useMemo(
-    () => getFilteredTransactions(filters),
-    [getFilteredTransactions, filters]
-  );
+  // Whoever recorded an entry may attach its receipts, as may anyone who can edit
+  const canAttach = (transaction: Transaction) =>
+    canEdit ||
+    (transaction.user_id === user?.id && (transaction.type === 'income' ? canInsertIncome : canInsertExpense));
 
-  const summary = useMemo(
-    () => getSummary(filteredTransactions),
-    [getSummary, filteredTransactions]
-  );
+  // Account balances are computed by the server, so reload them after each change
+  const handleAddTransaction = async (
+    transaction: NewTransaction,
+    recurrence?: RecurrenceRule,
+    installmentCount?: number,
+    attachments?: File[]
+  ) => {
+    let success: boolean | undefined;
+    if (recurrence) {
+      success = await addRecurringTransaction(transaction, recurrence);
+    } else if (installmentCount) {
+      success = await addInstallmentTransaction(transaction, installmentCount);
+    } else {
+      success = await addTransaction(transaction, attachments);
+    }
+    if (success) await refetchAccounts();
+    return success;
+  };
+
+  const handleImportTransactions = async (batch: NewTransaction[]) => {
+    const success = await addTransactions(batch);
+    if (success) await refetchAccounts();
+    return success;
+  };
+
+  const handleSettleTransaction = async (id: string, paidAt: Date) => {
+    const success = await settleTransaction(id, paidAt);
+    if (success) await refetchAccounts();
+    return success;
+  };
+
+  const handleEditTransaction = async (transaction: NewTransaction) => {
+    if (!editingTransaction) return false;
+    const success = await updateTransaction(editingTransaction.id, transaction);
+    if (success) await refetchAccounts();
+    return success;
+  };
+
+  const handleCancelTransaction = async (id: string) => {
+    await updateTransaction(id, { status: 'cancelled' });
+  };
+
+  const handleRestoreTransaction = async (id: string) => {
+    const success = await restoreTransaction(id);
+    if (success) {
+      await refetchAccounts();
+      toast({ title: 'Transação restaurada!' });
+    }
+  };
+
+  // Deleted entries go to the trash, so the toast can offer to undo
+  const handleDeleteTransaction = async (id: string) => {
+    const success = await deleteTransaction(id);
+    if (!success) return;
+
+    toast({
+      title: 'Transação excluída',
+      description: isAdmin ? 'Ela pode ser recuperada na lixeira.' : undefined,
+      action: (
+        <ToastAction altText="Desfazer exclusão" onClick={() => handleRestoreTransaction(id)}>
+          Desfazer
+        </ToastAction>
+      ),
+    });
+    await refetchAccounts();
+  };
 
   const handleSignOut = async () => {
     await signOut();
@@ -84,11 +229,26 @@ const Index = () => {
           </div>
           
           <div className="flex items-center gap-3">
+            {canExport && <CashReportDialog filters={filters} categories={categories} accounts={accounts} />}
+            {canEdit && <TransferForm onSubmit={addTransfer} accounts={accounts} />}
+            {canAddTransaction && (
+              <StatementImportDialog
+                findTransactions={fetchAllTransactions}
+                accounts={accounts}
+                canInsertIncome={canInsertIncome}
+                canInsertExpense={canInsertExpense}
+                onImport={handleImportTransactions}
+              />
+            )}
             {canAddTransaction && (
               <TransactionForm 
-                onSubmit={addTransaction} 
+                onSubmit={handleAddTransaction} 
                 canInsertExpense={canInsertExpense}
                 canInsertIncome={canInsertIncome}
+                categories={categories}
+                accounts={accounts}
+                contacts={contacts}
+                isDateClosed={isDateClosed}
               />
             )}
             
@@ -108,12 +268,62 @@ const Index = () => {
                   <p className="text-xs text-muted-foreground">{profile?.email}</p>
                 </div>
                 <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => navigate('/projection')}>
+                  <TrendingUp className="mr-2 h-4 w-4" />
+                  Projeção de Caixa
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate('/cash-register')}>
+                  <Banknote className="mr-2 h-4 w-4" />
+                  Caixa do Dia
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate('/contacts')}>
+                  <Contact className="mr-2 h-4 w-4" />
+                  Clientes e Fornecedores
+                </DropdownMenuItem>
+                {canManageCategories && (
+                  <DropdownMenuItem onClick={() => navigate('/categories')}>
+                    <Tags className="mr-2 h-4 w-4" />
+                    Plano de Contas
+                  </DropdownMenuItem>
+                )}
                 {isAdmin && (
+                  <DropdownMenuItem onClick={() => navigate('/accounts')}>
+                    <Landmark className="mr-2 h-4 w-4" />
+                    Contas
+                  </DropdownMenuItem>
+                )}
+                {canManageUsers && (
                   <DropdownMenuItem onClick={() => navigate('/users')}>
                     <Users className="mr-2 h-4 w-4" />
                     Gerenciar Usuários
                   </DropdownMenuItem>
                 )}
+                {canClosePeriods && (
+                  <DropdownMenuItem onClick={() => navigate('/periods')}>
+                    <Lock className="mr-2 h-4 w-4" />
+                    Fechamento de Períodos
+                  </DropdownMenuItem>
+                )}
+                {isAdmin && (
+                  <DropdownMenuItem onClick={() => navigate('/trash')}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Lixeira
+                  </DropdownMenuItem>
+                )}
+                {isAdmin && (
+                  <DropdownMenuItem onClick={() => navigate('/audit')}>
+                    <History className="mr-2 h-4 w-4" />
+                    Histórico de Alterações
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={() => navigate('/change-password')}>
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  Alterar Senha
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigate('/two-factor')}>
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  Verificação em Duas Etapas
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={handleSignOut} className="text-destructive focus:text-destructive">
                   <LogOut className="mr-2 h-4 w-4" />
                   Sair
@@ -127,25 +337,111 @@ const Index = () => {
       {/* Main Content */}
       <main className="container mx-auto space-y-6 px-4 py-6 sm:px-6 lg:px-8">
         {/* Summary Cards */}
-        <SummaryCards income={summary.income} expense={summary.expense} balance={summary.balance} />
+        <SummaryCards
+          income={summary.income}
+          expense={summary.expense}
+          balance={summary.balance}
+          forecastIncome={summary.forecastIncome}
+          forecastExpense={summary.forecastExpense}
+          forecastBalance={summary.forecastBalance}
+          accounts={accounts}
+        />
 
         {/* Filters */}
-        <TransactionFilters filters={filters} onFiltersChange={setFilters} />
+        <TransactionFilters
+          filters={filters}
+          onFiltersChange={setFilters}
+          categories={categories}
+          accounts={accounts}
+        />
 
-        {/* Transaction List */}
-        <div>
+        {/* Transaction List and Dashboard */}
+        <Tabs value={view} onValueChange={(value) => setView(value as typeof view)}>
           <div className="mb-4 flex items-center justify-between">
-            <h2 className="text-lg font-semibold text-foreground">Transações</h2>
-            <span className="text-sm text-muted-foreground">
-              {filteredTransactions.length} {filteredTransactions.length === 1 ? 'registro' : 'registros'}
-            </span>
+            <TabsList>
+              <TabsTrigger value="transactions">Transações</TabsTrigger>
+              <TabsTrigger value="dashboard">Gráficos</TabsTrigger>
+            </TabsList>
+            {view === 'transactions' && (
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-muted-foreground">
+                  {summary.count} {summary.count === 1 ? 'registro' : 'registros'}
+                </span>
+                <Select
+                  value={sort.field}
+                  onValueChange={(value) => setSort({ ...sort, field: value as TransactionSortField })}
+                >
+                  <SelectTrigger className="h-9 w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(transactionSortLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-9 w-9"
+                  title={sort.direction === 'asc' ? 'Crescente' : 'Decrescente'}
+                  onClick={() => setSort({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+                >
+                  {sort.direction === 'asc' ? (
+                    <ArrowUpNarrowWide className="h-4 w-4" />
+                  ) : (
+                    <ArrowDownWideNarrow className="h-4 w-4" />
+                  )}
+                </Button>
+                {canExport && <ExportMenu disabled={summary.count === 0} loadTransactions={exportTransactions} />}
+              </div>
+            )}
           </div>
-          <TransactionList 
-            transactions={filteredTransactions} 
-            onDelete={deleteTransaction}
-            canDelete={canDelete}
-          />
-        </div>
+          <TabsContent value="transactions" className="mt-0">
+            <TransactionList 
+              transactions={transactions}
+              hasMore={hasMore}
+              loadingMore={loadingMore}
+              onLoadMore={loadMore}
+              categories={categories}
+              accounts={accounts}
+              onDelete={handleDeleteTransaction}
+              onSettle={handleSettleTransaction}
+              onCancel={handleCancelTransaction}
+              onEdit={(transaction) => {
+                setEditingTransaction(transaction);
+                setEditOpen(true);
+              }}
+              onUpdate={updateTransaction}
+              onUpdateFuture={updateFutureOccurrences}
+              onEndRecurrence={endRecurrence}
+              onCancelInstallments={cancelRemainingInstallments}
+              canDelete={canDelete}
+              canEdit={canEdit}
+              isDateClosed={isDateClosed}
+              canAttach={canAttach}
+            />
+          </TabsContent>
+          <TabsContent value="dashboard" className="mt-0">
+            <CashFlowDashboard filters={filters} />
+          </TabsContent>
+          {canEdit && (
+            <TransactionForm
+              transaction={editingTransaction}
+              open={editOpen}
+              onOpenChange={setEditOpen}
+              onSubmit={handleEditTransaction}
+              canInsertExpense={canInsertExpense}
+              canInsertIncome={canInsertIncome}
+              categories={categories}
+              accounts={accounts}
+              contacts={contacts}
+              isDateClosed={isDateClosed}
+            />
+          )}
+        </Tabs>
       </main>
     </div>
   );
@@ -0,0 +1,155 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parse, subMonths } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowLeft, Loader2, Lock, LockOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useClosedPeriods } from '@/hooks/useClosedPeriods';
+import { toast } from '@/hooks/use-toast';
+
+// How many past months are offered for closing besides the current one
+const RECENT_MONTHS = 12;
+
+const formatMonth = (month: string) =>
+  format(parse(month, 'yyyy-MM', new Date()), "MMMM 'de' yyyy", { locale: ptBR });
+
+const Periods = () => {
+  const navigate = useNavigate();
+  const { canClosePeriods } = useAuth();
+  const { periods, loading, closePeriod, reopenPeriod } = useClosedPeriods();
+
+  useEffect(() => {
+    if (!canClosePeriods) navigate('/');
+  }, [canClosePeriods, navigate]);
+
+  // Recent months plus any older month that is still closed, newest first
+  const recentMonths = Array.from({ length: RECENT_MONTHS + 1 }, (_, i) => format(subMonths(new Date(), i), 'yyyy-MM'));
+  const months = [...new Set([...recentMonths, ...periods.map((p) => p.month)])].sort().reverse();
+
+  const handleClose = async (month: string) => {
+    if (await closePeriod(month)) {
+      toast({ title: 'Período fechado!', description: formatMonth(month) });
+    }
+  };
+
+  const handleReopen = async (month: string) => {
+    if (await reopenPeriod(month)) {
+      toast({ title: 'Período reaberto!', description: formatMonth(month) });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4 sm:px-6 lg:px-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+              <Lock className="h-5 w-5" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-foreground sm:text-xl">Fechamento de Períodos</h1>
+              <p className="hidden text-sm text-muted-foreground sm:block">
+                Meses fechados não aceitam novos lançamentos, edições ou exclusões
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-6 sm:px-6 lg:px-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Meses</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {months.map((month) => {
+                const closed = periods.find((p) => p.month === month);
+                return (
+                  <div
+                    key={month}
+                    className="flex flex-col gap-3 rounded-lg border border-border bg-card p-4 sm:flex-row sm:items-center sm:justify-between"
+                  >
+                    <div>
+                      <p className="font-medium capitalize text-foreground">{formatMonth(month)}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {closed
+                          ? `Fechado em ${format(closed.closedAt, 'dd/MM/yyyy')}${closed.closedByName ? ` por ${closed.closedByName}` : ''}`
+                          : 'Aberto'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span
+                        className={cn(
+                          'rounded-md px-2 py-0.5 text-xs',
+                          closed ? 'bg-muted text-muted-foreground' : 'bg-success/10 text-success'
+                        )}
+                      >
+                        {closed ? 'Fechado' : 'Aberto'}
+                      </span>
+                      {closed ? (
+                        <Button variant="outline" size="sm" className="gap-2" onClick={() => handleReopen(month)}>
+                          <LockOpen className="h-4 w-4" />
+                          Reabrir
+                        </Button>
+                      ) : (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="outline" size="sm" className="gap-2">
+                              <Lock className="h-4 w-4" />
+                              Fechar
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Fechar {formatMonth(month)}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Ninguém poderá incluir, editar ou excluir transações com data neste mês até que
+                                ele seja reaberto por um administrador.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleClose(month)}>Fechar período</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Periods;
@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { AlertTriangle, ArrowLeft, Loader2, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useCashFlowProjection } from '@/hooks/useCashFlowProjection';
+import { ProjectionLength, paymentMethodLabels, projectionLengthLabels } from '@/types/transaction';
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+};
+
+const formatCompactCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+    notation: 'compact',
+  }).format(value);
+};
+
+const chartConfig = {
+  balance: { label: 'Saldo projetado', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const Projection = () => {
+  const navigate = useNavigate();
+  const [length, setLength] = useState<ProjectionLength>(30);
+  const { projection, loading } = useCashFlowProjection(length);
+
+  if (!projection) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        {loading && <Loader2 className="h-8 w-8 animate-spin text-primary" />}
+      </div>
+    );
+  }
+
+  const { days, openingBalance } = projection;
+  const negativeDays = days.filter((day) => day.balance < 0);
+  const lowest = days.reduce((min, day) => (day.balance < min.balance ? day : min), days[0]);
+  const closingBalance = days[days.length - 1].balance;
+  // Only days that move money or end below zero are listed
+  const listedDays = days.filter((day) => day.entries.length > 0 || day.balance < 0);
+
+  const chartData = days.map((day) => ({ label: format(day.date, 'dd/MM'), balance: day.balance }));
+  const max = Math.max(...chartData.map((d) => d.balance), 0);
+  const min = Math.min(...chartData.map((d) => d.balance), 0);
+  // Where zero sits in the chart's height, so the area below it turns red
+  const zeroOffset = max === min ? 1 : max / (max - min);
+
+  const stats = [
+    { title: 'Saldo atual', value: openingBalance },
+    { title: `Menor saldo (${format(lowest.date, 'dd/MM')})`, value: lowest.balance },
+    { title: `Saldo em ${projectionLengthLabels[length]}`, value: closingBalance },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4 sm:px-6 lg:px-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+              <TrendingUp className="h-5 w-5" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-foreground sm:text-xl">Projeção de Caixa</h1>
+              <p className="hidden text-sm text-muted-foreground sm:block">
+                Saldo de hoje somado aos lançamentos pendentes e futuros
+              </p>
+            </div>
+          </div>
+          <div className="ml-auto flex items-center gap-3">
+            {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            <Select value={String(length)} onValueChange={(value) => setLength(Number(value) as ProjectionLength)}>
+              <SelectTrigger className="h-9 w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(projectionLengthLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-6 sm:px-6 lg:px-8">
+        {negativeDays.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Saldo negativo previsto</AlertTitle>
+            <AlertDescription>
+              O saldo fica negativo em {negativeDays.length} {negativeDays.length === 1 ? 'dia' : 'dias'}, a partir
+              de {format(negativeDays[0].date, "dd 'de' MMMM", { locale: ptBR })}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          {stats.map((stat) => (
+            <Card key={stat.title}>
+              <CardContent className="p-6">
+                <p className="text-sm font-medium text-muted-foreground">{stat.title}</p>
+                <p
+                  className={cn(
+                    'mt-2 text-2xl font-bold tracking-tight',
+                    stat.value < 0 ? 'text-destructive' : 'text-foreground'
+                  )}
+                >
+                  {formatCurrency(stat.value)}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Saldo projetado</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <AreaChart data={chartData}>
+                <defs>
+                  <linearGradient id="projectionFill" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset={zeroOffset} stopColor="var(--color-balance)" stopOpacity={0.2} />
+                    <stop offset={zeroOffset} stopColor="hsl(var(--destructive))" stopOpacity={0.3} />
+                  </linearGradient>
+                  <linearGradient id="projectionStroke" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset={zeroOffset} stopColor="var(--color-balance)" />
+                    <stop offset={zeroOffset} stopColor="hsl(var(--destructive))" />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={72} tickFormatter={formatCompactCurrency} />
+                <ReferenceLine y={0} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      formatter={(value) => (
+                        <div className="flex flex-1 items-center justify-between gap-4">
+                          <span className="text-muted-foreground">Saldo</span>
+                          <span
+                            className={cn(
+                              'font-mono font-medium tabular-nums',
+                              Number(value) < 0 ? 'text-destructive' : 'text-foreground'
+                            )}
+                          >
+                            {formatCurrency(Number(value))}
+                          </span>
+                        </div>
+                      )}
+                    />
+                  }
+                />
+                <Area
+                  dataKey="balance"
+                  type="stepAfter"
+                  stroke="url(#projectionStroke)"
+                  fill="url(#projectionFill)"
+                />
+              </AreaChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Dia a dia</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {listedDays.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                Nenhum lançamento pendente nos próximos {projectionLengthLabels[length]}.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {listedDays.map((day) => (
+                  <div
+                    key={day.date.toISOString()}
+                    className={cn(
+                      'rounded-lg border p-4',
+                      day.balance < 0 ? 'border-destructive/50 bg-destructive/5' : 'border-border bg-card'
+                    )}
+                  >
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <p className="font-medium capitalize text-foreground">
+                        {format(day.date, "EEEE, dd 'de' MMMM", { locale: ptBR })}
+                      </p>
+                      <div className="flex items-center gap-3 text-sm">
+                        {day.income > 0 && <span className="text-success">+ {formatCurrency(day.income)}</span>}
+                        {day.expense > 0 && <span className="text-destructive">- {formatCurrency(day.expense)}</span>}
+                        <span
+                          className={cn(
+                            'rounded-md px-2 py-0.5 font-semibold',
+                            day.balance < 0 ? 'bg-destructive/10 text-destructive' : 'bg-muted text-foreground'
+                          )}
+                        >
+                          {formatCurrency(day.balance)}
+                        </span>
+                      </div>
+                    </div>
+                    {day.entries.length > 0 && (
+                      <div className="mt-3 space-y-1">
+                        {day.entries.map((entry) => (
+                          <div key={entry.id} className="flex items-center justify-between gap-3 text-sm">
+                            <div className="flex min-w-0 items-center gap-2">
+                              <span className="truncate text-foreground">{entry.clientSupplier}</span>
+                              <span className="hidden truncate text-muted-foreground sm:inline">
+                                {paymentMethodLabels[entry.paymentMethod]}
+                                {entry.description && ` · ${entry.description}`}
+                              </span>
+                              {entry.overdue && (
+                                <span className="shrink-0 rounded-md bg-destructive/10 px-2 py-0.5 text-xs text-destructive">
+                                  Vencida
+                                </span>
+                              )}
+                            </div>
+                            <span
+                              className={cn(
+                                'shrink-0 font-medium',
+                                entry.type === 'income' ? 'text-success' : 'text-destructive'
+                              )}
+                            >
+                              {entry.type === 'income' ? '+' : '-'} {formatCurrency(entry.amount)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Projection;
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Wallet, Lock, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { dbCall } from '@/lib/db';
+import { toast } from '@/hooks/use-toast';
+
+const resetSchema = z.object({
+  password: z.string().min(6, 'Mínimo 6 caracteres'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'As senhas não coincidem',
+  path: ['confirmPassword'],
+});
+
+type ResetData = z.infer<typeof resetSchema>;
+
+const resetErrorMessages: Record<string, string> = {
+  reset_invalid: 'O link expirou ou já foi usado. Peça uma nova redefinição na tela de login.',
+  weak_password: 'A senha precisa ter pelo menos 6 caracteres.',
+};
+
+// Opened from the link of a password reset email
+const ResetPassword = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<ResetData>({
+    resolver: zodResolver(resetSchema),
+  });
+
+  const handleReset = async (data: ResetData) => {
+    setIsLoading(true);
+    const { error, code } = await dbCall('resetPassword', { resetToken: token, password: data.password });
+    setIsLoading(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro ao redefinir senha',
+        description: (code && resetErrorMessages[code]) || error,
+      });
+    } else {
+      toast({
+        title: 'Senha redefinida!',
+        description: 'Entre com a nova senha.',
+      });
+      navigate('/auth');
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-background px-4">
+      <div className="mb-8 flex items-center gap-3">
+        <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+          <Wallet className="h-6 w-6" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Controle de Caixa</h1>
+          <p className="text-sm text-muted-foreground">Gerencie suas finanças</p>
+        </div>
+      </div>
+
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle>Nova senha</CardTitle>
+          <CardDescription>
+            {token ? 'Escolha a senha que usará para entrar' : 'Link de redefinição inválido'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {token ? (
+            <form onSubmit={form.handleSubmit(handleReset)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reset-password">Nova senha</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    id="reset-password"
+                    type="password"
+                    placeholder="Mínimo 6 caracteres"
+                    className="pl-10"
+                    {...form.register('password')}
+                  />
+                </div>
+                {form.formState.errors.password && (
+                  <p className="text-sm text-destructive">{form.formState.errors.password.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="reset-confirm">Confirmar senha</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    id="reset-confirm"
+                    type="password"
+                    placeholder="Repita a senha"
+                    className="pl-10"
+                    {...form.register('confirmPassword')}
+                  />
+                </div>
+                {form.formState.errors.confirmPassword && (
+                  <p className="text-sm text-destructive">{form.formState.errors.confirmPassword.message}</p>
+                )}
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Salvar nova senha
+              </Button>
+            </form>
+          ) : (
+            <p className="text-center text-sm text-muted-foreground">
+              Abra o link completo recebido por email ou peça uma nova redefinição.
+            </p>
+          )}
+          <Button variant="link" className="mt-2 w-full" asChild>
+            <Link to="/auth">Voltar para o login</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,157 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowLeft, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTrash } from '@/hooks/useTrash';
+import { toast } from '@/hooks/use-toast';
+import { paymentMethodLabels } from '@/types/transaction';
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+  }).format(value);
+};
+
+const Trash = () => {
+  const navigate = useNavigate();
+  const { isAdmin } = useAuth();
+  const { transactions, loading, restoreTransaction, purgeTransaction } = useTrash();
+
+  useEffect(() => {
+    if (!isAdmin) navigate('/');
+  }, [isAdmin, navigate]);
+
+  const handleRestore = async (id: string) => {
+    if (await restoreTransaction(id)) {
+      toast({ title: 'Transação restaurada!' });
+    }
+  };
+
+  const handlePurge = async (id: string) => {
+    if (await purgeTransaction(id)) {
+      toast({ title: 'Transação excluída definitivamente!' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4 sm:px-6 lg:px-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+              <Trash2 className="h-5 w-5" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-foreground sm:text-xl">Lixeira</h1>
+              <p className="hidden text-sm text-muted-foreground sm:block">
+                Restaure ou exclua definitivamente transações removidas
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-6 sm:px-6 lg:px-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Transações excluídas ({transactions.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {transactions.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">A lixeira está vazia.</p>
+            ) : (
+              <div className="space-y-3">
+                {transactions.map((transaction) => (
+                  <div
+                    key={transaction.id}
+                    className="flex flex-col gap-3 rounded-lg border border-border bg-card p-4 sm:flex-row sm:items-center"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-medium text-foreground">{transaction.clientSupplier}</p>
+                      <p className="truncate text-sm text-muted-foreground">
+                        {format(transaction.date, 'dd/MM/yyyy')} · {paymentMethodLabels[transaction.paymentMethod]}
+                        {transaction.description && ` · ${transaction.description}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Excluída em {format(transaction.deletedAt, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                        {transaction.deletedByName && ` por ${transaction.deletedByName}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={cn(
+                          'mr-2 font-semibold',
+                          transaction.type === 'income' ? 'text-success' : 'text-destructive'
+                        )}
+                      >
+                        {transaction.type === 'income' ? '+' : '-'} {formatCurrency(transaction.amount)}
+                      </span>
+                      <Button variant="outline" size="sm" className="gap-2" onClick={() => handleRestore(transaction.id)}>
+                        <RotateCcw className="h-4 w-4" />
+                        Restaurar
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Excluir definitivamente?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Esta ação não pode ser desfeita. A transação será permanentemente removida.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handlePurge(transaction.id)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Excluir
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Trash;
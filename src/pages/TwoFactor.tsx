@@ -0,0 +1,319 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Copy, Download, Loader2, LogOut, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TotpCodeInput } from '@/components/TotpCodeInput';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTwoFactor } from '@/hooks/useTwoFactor';
+import { TwoFactorSetup } from '@/types/transaction';
+import { toast } from '@/hooks/use-toast';
+
+interface CodePromptProps {
+  open: boolean;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  destructive?: boolean;
+  onClose: () => void;
+  /** Resolves to true when the code was accepted */
+  onConfirm: (code: string) => Promise<boolean>;
+}
+
+// Asks for a current code from the app before changing 2FA
+const CodePrompt = ({ open, title, description, confirmLabel, destructive, onClose, onConfirm }: CodePromptProps) => {
+  const [code, setCode] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    const accepted = await onConfirm(code);
+    setIsSaving(false);
+    setCode('');
+    if (accepted) onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 pt-2">
+          <TotpCodeInput value={code} onChange={setCode} disabled={isSaving} autoFocus />
+          <div className="flex gap-3">
+            <Button type="button" variant="outline" className="flex-1" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button
+              className="flex-1"
+              variant={destructive ? 'destructive' : 'default'}
+              onClick={handleConfirm}
+              disabled={isSaving || code.length < 6}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {confirmLabel}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const TwoFactor = () => {
+  const navigate = useNavigate();
+  const { profile, signOut, twoFactorSetupRequired } = useAuth();
+  const { status, startSetup, confirmSetup, regenerateRecoveryCodes, disable } = useTwoFactor();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [prompt, setPrompt] = useState<'regenerate' | 'disable' | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleStart = async () => {
+    setIsSaving(true);
+    setSetup(await startSetup());
+    setSetupCode('');
+    setIsSaving(false);
+  };
+
+  const handleConfirm = async (code: string) => {
+    setIsSaving(true);
+    const codes = await confirmSetup(code);
+    setIsSaving(false);
+    setSetupCode('');
+    if (codes) {
+      setSetup(null);
+      setRecoveryCodes(codes);
+      toast({ title: 'Verificação em duas etapas ativada!' });
+    }
+  };
+
+  const handleRegenerate = async (code: string) => {
+    const codes = await regenerateRecoveryCodes(code);
+    if (codes) setRecoveryCodes(codes);
+    return codes !== null;
+  };
+
+  const handleDisable = async (code: string) => {
+    const disabled = await disable(code);
+    if (disabled) toast({ title: 'Verificação em duas etapas desativada!' });
+    return disabled;
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast({ title: 'Códigos copiados!' });
+    } catch {
+      toast({ variant: 'destructive', title: 'Não foi possível copiar', description: 'Selecione e copie os códigos.' });
+    }
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const content = [
+      `Códigos de recuperação - Controle de Caixa (${profile?.email})`,
+      'Cada código pode ser usado uma única vez no lugar do código do aplicativo.',
+      '',
+      ...recoveryCodes,
+    ].join('\n');
+    const url = URL.createObjectURL(new Blob([content], { type: 'text/plain;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'codigos-de-recuperacao.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate('/auth');
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto flex items-center gap-4 px-4 py-4 sm:px-6 lg:px-8">
+          {!twoFactorSetupRequired && (
+            <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          )}
+          <div className="flex flex-1 items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary text-primary-foreground">
+              <ShieldCheck className="h-5 w-5" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold text-foreground sm:text-xl">Verificação em Duas Etapas</h1>
+              <p className="hidden text-sm text-muted-foreground sm:block">
+                Peça um código do aplicativo autenticador além da senha ao entrar
+              </p>
+            </div>
+          </div>
+          {twoFactorSetupRequired && (
+            <Button variant="ghost" className="gap-2" onClick={handleSignOut}>
+              <LogOut className="h-4 w-4" />
+              Sair
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="container mx-auto space-y-6 px-4 py-6 sm:px-6 lg:px-8">
+        {twoFactorSetupRequired && !recoveryCodes && (
+          <p className="max-w-xl rounded-lg bg-muted/50 px-4 py-3 text-sm text-muted-foreground">
+            Um administrador exige a verificação em duas etapas para o seu usuário. Ative-a para continuar usando o
+            sistema.
+          </p>
+        )}
+
+        {!status ? (
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        ) : recoveryCodes ? (
+          <Card className="max-w-xl">
+            <CardHeader>
+              <CardTitle>Códigos de recuperação</CardTitle>
+              <CardDescription>
+                Guarde estes códigos em um lugar seguro. Cada um pode ser usado uma única vez para entrar se você
+                perder o acesso ao aplicativo. Eles não serão exibidos novamente.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted/50 p-4 font-mono text-sm">
+                {recoveryCodes.map((code) => (
+                  <span key={code}>{code}</span>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-3">
+                <Button variant="outline" className="gap-2" onClick={handleCopyCodes}>
+                  <Copy className="h-4 w-4" />
+                  Copiar
+                </Button>
+                <Button variant="outline" className="gap-2" onClick={handleDownloadCodes}>
+                  <Download className="h-4 w-4" />
+                  Baixar
+                </Button>
+                <Button className="ml-auto" onClick={() => setRecoveryCodes(null)}>
+                  Concluir
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : status.enabled ? (
+          <Card className="max-w-xl">
+            <CardHeader>
+              <CardTitle>Ativada</CardTitle>
+              <CardDescription>
+                Ao entrar, informe o código do aplicativo autenticador depois da senha.{' '}
+                {status.recoveryCodesLeft === 1
+                  ? 'Resta 1 código de recuperação.'
+                  : `Restam ${status.recoveryCodesLeft} códigos de recuperação.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-3">
+              <Button variant="outline" onClick={() => setPrompt('regenerate')}>
+                Gerar novos códigos de recuperação
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="outline"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => setPrompt('disable')}
+                >
+                  Desativar
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : setup ? (
+          <Card className="max-w-xl">
+            <CardHeader>
+              <CardTitle>Escaneie o QR code</CardTitle>
+              <CardDescription>
+                Abra o aplicativo autenticador (Google Authenticator, Microsoft Authenticator, 1Password...), escaneie
+                o código e digite o código de 6 dígitos exibido para confirmar.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <img
+                src={setup.qrCode}
+                alt="QR code para o aplicativo autenticador"
+                className="mx-auto h-48 w-48 rounded-lg border border-border bg-white p-2"
+              />
+              <div className="space-y-1 text-center">
+                <p className="text-xs text-muted-foreground">Ou digite a chave manualmente:</p>
+                <p className="break-all font-mono text-sm">{setup.secret.match(/.{1,4}/g)?.join(' ')}</p>
+              </div>
+              <TotpCodeInput
+                value={setupCode}
+                onChange={setSetupCode}
+                onComplete={handleConfirm}
+                disabled={isSaving}
+                autoFocus
+              />
+              <div className="flex gap-3">
+                <Button variant="outline" className="flex-1" onClick={() => setSetup(null)}>
+                  Cancelar
+                </Button>
+                <Button
+                  className="flex-1"
+                  onClick={() => handleConfirm(setupCode)}
+                  disabled={isSaving || setupCode.length < 6}
+                >
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Ativar
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="max-w-xl">
+            <CardHeader>
+              <CardTitle>Desativada</CardTitle>
+              <CardDescription>
+                Com a verificação ativada, quem descobrir a sua senha ainda precisa do seu celular para entrar.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button onClick={handleStart} disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Ativar verificação em duas etapas
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <CodePrompt
+        open={prompt === 'regenerate'}
+        title="Gerar novos códigos"
+        description="Os códigos de recuperação atuais deixam de funcionar. Digite o código do aplicativo para continuar."
+        confirmLabel="Gerar"
+        onClose={() => setPrompt(null)}
+        onConfirm={handleRegenerate}
+      />
+      <CodePrompt
+        open={prompt === 'disable'}
+        title="Desativar verificação?"
+        description="Ao entrar, só a senha será pedida. Digite o código do aplicativo para continuar."
+        confirmLabel="Desativar"
+        destructive
+        onClose={() => setPrompt(null)}
+        onConfirm={handleDisable}
+      />
+    </div>
+  );
+};
+
+export default TwoFactor;
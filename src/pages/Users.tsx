@@ -1,15 +1,25 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Shield, Loader2, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  ArrowLeft,
+  Shield,
+  Loader2,
+  Trash2,
+  UserCheck,
+  UserX,
+  KeyRound,
+  Pencil,
+  Plus,
+  Check,
+  X,
+  LockKeyhole,
+  ShieldOff,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -21,103 +31,133 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
-import { supabase } from '@/integrations/supabase/client';
+import { UserAccessDialog } from '@/components/UserAccessDialog';
+import { PermissionProfileDialog } from '@/components/PermissionProfileDialog';
+import { InviteUserDialog } from '@/components/InviteUserDialog';
+import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
-import { AppRole, roleLabels } from '@/types/transaction';
+import { useUsers } from '@/hooks/useUsers';
+import { usePermissionProfiles } from '@/hooks/usePermissionProfiles';
+import { useInvitations } from '@/hooks/useInvitations';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { AppRole, ManagedUser, PermissionProfile, profilePermissionLabels, roleLabels } from '@/types/transaction';
 import { toast } from '@/hooks/use-toast';
 
-interface UserWithRole {
-  id: string;
-  email: string;
-  full_name: string | null;
-  role: AppRole;
-  role_id: string;
-}
-
 const Users = () => {
   const navigate = useNavigate();
-  const { isAdmin, user } = useAuth();
-  const [users, setUsers] = useState<UserWithRole[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { canManageUsers, user } = useAuth();
+  const {
+    users,
+    loading,
+    updateAccess,
+    deactivateUser,
+    reactivateUser,
+    deleteUser,
+    approveUser,
+    rejectUser,
+    forceResetPassword,
+    resetTwoFactor,
+  } = useUsers();
+  const { profiles, loading: profilesLoading, addProfile, updateProfile, deleteProfile } = usePermissionProfiles();
+  const { invitations, createInvitation, revokeInvitation } = useInvitations();
+  const { settings, updateSettings } = useAppSettings();
+  const [editingUser, setEditingUser] = useState<ManagedUser | null>(null);
+  const [approvingUser, setApprovingUser] = useState<ManagedUser | null>(null);
+  const [profileDialogOpen, setProfileDialogOpen] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<PermissionProfile | null>(null);
 
   useEffect(() => {
-    if (!isAdmin) {
+    if (!canManageUsers) {
       navigate('/');
-      return;
     }
+  }, [canManageUsers, navigate]);
 
-    const fetchUsers = async () => {
-      const { data: profiles, error: profilesError } = await supabase
-        .from('profiles')
-        .select('*');
+  const handleSaveAccess = async (roles: AppRole[], profileIds: string[]) => {
+    if (!editingUser) return false;
+    const saved = await updateAccess(editingUser.id, roles, profileIds);
+    if (saved) {
+      toast({ title: 'Permissões atualizadas!' });
+    }
+    return saved;
+  };
 
-      if (profilesError) {
-        toast({ variant: 'destructive', title: 'Erro', description: profilesError.message });
-        return;
+  const handleToggleActive = async (userId: string, active: boolean) => {
+    if (active) {
+      if (await deactivateUser(userId)) {
+        toast({ title: 'Usuário desativado!' });
       }
+    } else if (await reactivateUser(userId)) {
+      toast({ title: 'Usuário reativado!' });
+    }
+  };
 
-      const { data: roles, error: rolesError } = await supabase
-        .from('user_roles')
-        .select('*');
+  const handleDeleteUser = async (userId: string) => {
+    if (await deleteUser(userId)) {
+      toast({ title: 'Usuário removido!' });
+    }
+  };
 
-      if (rolesError) {
-        toast({ variant: 'destructive', title: 'Erro', description: rolesError.message });
-        return;
-      }
+  const handleForceResetPassword = async (userId: string) => {
+    if (await forceResetPassword(userId)) {
+      toast({ title: 'Senha redefinida!', description: 'O usuário recebeu um email para criar uma nova senha.' });
+    }
+  };
 
-      const usersWithRoles: UserWithRole[] = (profiles || []).map((p) => {
-        const userRole = roles?.find((r) => r.user_id === p.id);
-        return {
-          id: p.id,
-          email: p.email,
-          full_name: p.full_name,
-          role: (userRole?.role as AppRole) || 'view_only',
-          role_id: userRole?.id || '',
-        };
+  const handleResetTwoFactor = async (userId: string) => {
+    if (await resetTwoFactor(userId)) {
+      toast({
+        title: 'Verificação em duas etapas redefinida!',
+        description: 'O usuário entra só com a senha até ativá-la de novo.',
       });
+    }
+  };
 
-      setUsers(usersWithRoles);
-      setLoading(false);
-    };
-
-    fetchUsers();
-  }, [isAdmin, navigate]);
-
-  const handleRoleChange = async (userId: string, roleId: string, newRole: AppRole) => {
-    const { error } = await supabase
-      .from('user_roles')
-      .update({ role: newRole })
-      .eq('id', roleId);
+  const handleApproveUser = async (roles: AppRole[], profileIds: string[]) => {
+    if (!approvingUser) return false;
+    const approved = await approveUser(approvingUser.id, roles, profileIds);
+    if (approved) {
+      toast({ title: 'Cadastro aprovado!' });
+    }
+    return approved;
+  };
 
-    if (error) {
-      toast({ variant: 'destructive', title: 'Erro', description: error.message });
-      return;
+  const handleRejectUser = async (userId: string) => {
+    if (await rejectUser(userId)) {
+      toast({ title: 'Cadastro recusado!' });
     }
+  };
 
-    setUsers((prev) =>
-      prev.map((u) => (u.id === userId ? { ...u, role: newRole } : u))
-    );
-    toast({ title: 'Permissão atualizada!' });
+  const handleRevokeInvitation = async (id: string) => {
+    if (await revokeInvitation(id)) {
+      toast({ title: 'Convite revogado!' });
+    }
   };
 
-  const handleDeleteUser = async (userId: string) => {
-    // Note: This only removes from our tables, not from auth.users
-    // In production, you'd use a server-side function to delete from auth.users
-    const { error } = await supabase
-      .from('profiles')
-      .delete()
-      .eq('id', userId);
-
-    if (error) {
-      toast({ variant: 'destructive', title: 'Erro', description: error.message });
-      return;
+  const handleSaveProfile = async (profile: Pick<PermissionProfile, 'name' | 'permissions'>) => {
+    const saved = editingProfile ? await updateProfile(editingProfile.id, profile) : await addProfile(profile);
+    if (saved) {
+      toast({ title: editingProfile ? 'Perfil atualizado!' : 'Perfil criado!' });
     }
+    return saved;
+  };
 
-    setUsers((prev) => prev.filter((u) => u.id !== userId));
-    toast({ title: 'Usuário removido!' });
+  const handleDeleteProfile = async (id: string) => {
+    if (await deleteProfile(id)) {
+      toast({ title: 'Perfil excluído!' });
+    }
   };
 
-  if (loading) {
+  // Role and profile names, e.g. "Inserir Pagamentos · Caixa"
+  const describeAccess = (roles: AppRole[], profileIds: string[]) =>
+    [
+      ...roles.map((role) => roleLabels[role]),
+      ...profileIds.map((id) => profiles.find((p) => p.id === id)?.name).filter(Boolean),
+    ].join(' · ') || 'Sem permissões';
+
+  const pendingUsers = users.filter((u) => u.pending);
+  const activeUsers = users.filter((u) => !u.pending);
+
+  if (loading || profilesLoading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-background">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -147,40 +187,332 @@ const Users = () => {
       </header>
 
       <main className="container mx-auto space-y-6 px-4 py-6 sm:px-6 lg:px-8">
+        {pendingUsers.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Aguardando Aprovação ({pendingUsers.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {pendingUsers.map((u) => (
+                  <div
+                    key={u.id}
+                    className="flex flex-col gap-4 rounded-lg border border-border bg-card p-4 sm:flex-row sm:items-center sm:justify-between"
+                  >
+                    <div>
+                      <p className="font-medium text-foreground">{u.fullName || 'Sem nome'}</p>
+                      <p className="text-sm text-muted-foreground">{u.email}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Cadastrado em {format(u.createdAt, "dd/MM/yyyy 'às' HH:mm")}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button size="sm" className="gap-2" onClick={() => setApprovingUser(u)}>
+                        <Check className="h-4 w-4" />
+                        Aprovar
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" className="gap-2 text-destructive hover:text-destructive">
+                            <X className="h-4 w-4" />
+                            Recusar
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Recusar cadastro?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              A conta de {u.email} será excluída. A pessoa poderá se cadastrar de novo.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleRejectUser(u.id)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Recusar
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
-            <CardTitle>Usuários ({users.length})</CardTitle>
+            <CardTitle>Usuários ({activeUsers.length})</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {users.map((u) => (
+              {activeUsers.map((u) => (
                 <div
                   key={u.id}
-                  className="flex flex-col gap-4 rounded-lg border border-border bg-card p-4 sm:flex-row sm:items-center sm:justify-between"
+                  className={cn(
+                    'flex flex-col gap-4 rounded-lg border border-border bg-card p-4 sm:flex-row sm:items-center sm:justify-between',
+                    !u.active && 'opacity-60'
+                  )}
                 >
                   <div>
-                    <p className="font-medium text-foreground">{u.full_name || 'Sem nome'}</p>
+                    <p className="font-medium text-foreground">
+                      {u.fullName || 'Sem nome'}
+                      {!u.active && <span className="ml-2 text-xs text-muted-foreground">(desativado)</span>}
+                      {u.twoFactorEnabled && (
+                        <span className="ml-2 rounded bg-primary/10 px-1.5 py-0.5 text-xs text-primary">2FA</span>
+                      )}
+                    </p>
                     <p className="text-sm text-muted-foreground">{u.email}</p>
+                    <p className="text-xs text-muted-foreground">{describeAccess(u.roles, u.profileIds)}</p>
                   </div>
                   <div className="flex items-center gap-2">
-                    <Select
-                      value={u.role}
-                      onValueChange={(value) => handleRoleChange(u.id, u.role_id, value as AppRole)}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => setEditingUser(u)}
                       disabled={u.id === user?.id}
                     >
-                      <SelectTrigger className="w-[200px]">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {Object.entries(roleLabels).map(([value, label]) => (
-                          <SelectItem key={value} value={value}>
-                            {label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                      <KeyRound className="h-4 w-4" />
+                      Permissões
+                    </Button>
 
                     {u.id !== user?.id && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={u.active ? 'Desativar' : 'Reativar'}
+                          onClick={() => handleToggleActive(u.id, u.active)}
+                        >
+                          {u.active ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" title="Redefinir senha">
+                              <LockKeyhole className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Redefinir senha?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                A senha atual de {u.email} deixa de funcionar e o usuário será desconectado. Ele
+                                receberá um email com um link para criar uma nova senha.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleForceResetPassword(u.id)}>
+                                Redefinir
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                        {u.twoFactorEnabled && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon" title="Redefinir verificação em duas etapas">
+                                <ShieldOff className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Redefinir verificação em duas etapas?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Use quando {u.email} perder o aplicativo autenticador e os códigos de recuperação.
+                                  O usuário passa a entrar só com a senha e pode ativar a verificação de novo; se ela
+                                  for obrigatória, terá de ativá-la no próximo acesso.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleResetTwoFactor(u.id)}>
+                                  Redefinir
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Excluir usuário?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Esta ação não pode ser desfeita. O usuário perderá acesso ao sistema e será
+                                desconectado; os lançamentos que registrou continuam com o nome dele. Para
+                                bloquear o acesso temporariamente, desative-o.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleDeleteUser(u.id)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Excluir
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {settings && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Segurança</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between gap-4 rounded-lg bg-muted/50 px-4 py-3">
+                <Label htmlFor="require-two-factor" className="cursor-pointer font-normal">
+                  <span className="block font-medium text-foreground">Exigir verificação em duas etapas</span>
+                  <span className="block text-sm text-muted-foreground">
+                    Administradores, editores e quem puder gerenciar usuários precisam ativá-la para usar o
+                    sistema.
+                  </span>
+                </Label>
+                <Switch
+                  id="require-two-factor"
+                  checked={settings.requireTwoFactor}
+                  onCheckedChange={(checked) => updateSettings({ requireTwoFactor: checked })}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Convites ({invitations.length})</CardTitle>
+            <InviteUserDialog profiles={profiles} onInvite={createInvitation} />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {invitations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Nenhum convite pendente. Convide alguém para que se cadastre já com as permissões escolhidas.
+              </p>
+            ) : (
+              invitations.map((invitation) => {
+                const expired = invitation.expiresAt < new Date();
+                return (
+                  <div
+                    key={invitation.id}
+                    className={cn(
+                      'flex flex-col gap-4 rounded-lg border border-border bg-card p-4 sm:flex-row sm:items-center sm:justify-between',
+                      expired && 'opacity-60'
+                    )}
+                  >
+                    <div>
+                      <p className="font-medium text-foreground">
+                        {invitation.email}
+                        {expired && <span className="ml-2 text-xs text-muted-foreground">(expirado)</span>}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {describeAccess(invitation.roles, invitation.profileIds)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {expired ? 'Expirou' : 'Expira'} em {format(invitation.expiresAt, 'dd/MM/yyyy')}
+                        {invitation.invitedByName && ` · convidado por ${invitation.invitedByName}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Revogar"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleRevokeInvitation(invitation.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })
+            )}
+
+            {settings && (
+              <div className="flex items-center justify-between gap-4 rounded-lg bg-muted/50 px-4 py-3">
+                <Label htmlFor="require-signup-approval" className="cursor-pointer font-normal">
+                  <span className="block font-medium text-foreground">Exigir aprovação de novos cadastros</span>
+                  <span className="block text-sm text-muted-foreground">
+                    Quem se cadastrar sem convite aguarda a aprovação de um administrador para entrar.
+                  </span>
+                </Label>
+                <Switch
+                  id="require-signup-approval"
+                  checked={settings.requireSignupApproval}
+                  onCheckedChange={(checked) => updateSettings({ requireSignupApproval: checked })}
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Perfis de Permissão ({profiles.length})</CardTitle>
+            <Button
+              size="sm"
+              className="gap-2"
+              onClick={() => {
+                setEditingProfile(null);
+                setProfileDialogOpen(true);
+              }}
+            >
+              <Plus className="h-4 w-4" />
+              Novo perfil
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {profiles.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Nenhum perfil personalizado. Crie um para combinar permissões específicas, como um caixa que só
+                insere recebimentos e exporta relatórios.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {profiles.map((profile) => (
+                  <div
+                    key={profile.id}
+                    className="flex flex-col gap-4 rounded-lg border border-border bg-card p-4 sm:flex-row sm:items-center sm:justify-between"
+                  >
+                    <div>
+                      <p className="font-medium text-foreground">
+                        {profile.name}
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          ({profile.userCount} {profile.userCount === 1 ? 'usuário' : 'usuários'})
+                        </span>
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {profile.permissions.map((p) => profilePermissionLabels[p]).join(', ')}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          setEditingProfile(profile);
+                          setProfileDialogOpen(true);
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
                       <AlertDialog>
                         <AlertDialogTrigger asChild>
                           <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
@@ -189,27 +521,27 @@ const Users = () => {
                         </AlertDialogTrigger>
                         <AlertDialogContent>
                           <AlertDialogHeader>
-                            <AlertDialogTitle>Remover usuário?</AlertDialogTitle>
+                            <AlertDialogTitle>Excluir perfil?</AlertDialogTitle>
                             <AlertDialogDescription>
-                              Esta ação não pode ser desfeita. O usuário perderá acesso ao sistema.
+                              Perfis atribuídos a usuários não podem ser excluídos.
                             </AlertDialogDescription>
                           </AlertDialogHeader>
                           <AlertDialogFooter>
                             <AlertDialogCancel>Cancelar</AlertDialogCancel>
                             <AlertDialogAction
-                              onClick={() => handleDeleteUser(u.id)}
+                              onClick={() => handleDeleteProfile(profile.id)}
                               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                             >
-                              Remover
+                              Excluir
                             </AlertDialogAction>
                           </AlertDialogFooter>
                         </AlertDialogContent>
                       </AlertDialog>
-                    )}
+                    </div>
                   </div>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -225,9 +557,33 @@ const Users = () => {
               <li><strong className="text-foreground">Inserir Pagamentos:</strong> Pode apenas adicionar transações de pagamento (saídas).</li>
               <li><strong className="text-foreground">Inserir Recebimentos:</strong> Pode apenas adicionar transações de recebimento (entradas).</li>
             </ul>
+            <p className="mt-4 text-sm text-muted-foreground">
+              Um usuário pode ter várias funções e perfis ao mesmo tempo e recebe tudo o que qualquer um deles
+              permitir. Somente administradores podem conceder ou retirar a função de Administrador.
+            </p>
           </CardContent>
         </Card>
       </main>
+
+      <UserAccessDialog
+        user={editingUser}
+        profiles={profiles}
+        onClose={() => setEditingUser(null)}
+        onSave={handleSaveAccess}
+      />
+      <UserAccessDialog
+        user={approvingUser}
+        profiles={profiles}
+        mode="approve"
+        onClose={() => setApprovingUser(null)}
+        onSave={handleApproveUser}
+      />
+      <PermissionProfileDialog
+        open={profileDialogOpen}
+        profile={editingProfile}
+        onClose={() => setProfileDialogOpen(false)}
+        onSave={handleSaveProfile}
+      />
     </div>
   );
 };
@@ -10,17 +10,300 @@ export type PaymentMethod =
   | 'cheque'
   | 'outro';
 
+/** "overdue" is never stored: it is a pending entry past its due date */
+export type TransactionStatus = 'pending' | 'paid' | 'overdue' | 'cancelled';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type AccountKind = 'cash' | 'bank' | 'digital_wallet';
+
 export type AppRole = 'admin' | 'view_only' | 'edit' | 'insert_expenses' | 'insert_income';
 
+/** Everything a user may do, as granted by their roles and permission profiles */
+export type Permission =
+  | 'view'
+  | 'insert_income'
+  | 'insert_expense'
+  | 'edit'
+  | 'delete'
+  | 'export'
+  | 'manage_categories'
+  | 'manage_accounts'
+  | 'manage_contacts'
+  | 'manage_users'
+  | 'view_audit'
+  | 'manage_trash'
+  | 'close_periods'
+  | 'operate_cash_register';
+
+/** Granular permissions an admin can combine into a custom profile */
+export type ProfilePermission = Extract<
+  Permission,
+  'view' | 'insert_income' | 'insert_expense' | 'edit' | 'delete' | 'export' | 'manage_users' | 'close_periods'
+>;
+
 export interface Transaction {
   id: string;
   user_id: string;
   date: Date;
   type: TransactionType;
   clientSupplier: string;
+  /** Set when the client or supplier was picked from the contacts */
+  contactId: string | null;
+  amount: number;
+  description: string;
+  paymentMethod: PaymentMethod;
+  categoryId: string | null;
+  accountId: string;
+  status: TransactionStatus;
+  dueDate: Date;
+  /** Settlement date, set once the entry is paid */
+  paidAt: Date | null;
+  /** Set when the entry is an occurrence of a recurring series */
+  recurrenceId: string | null;
+  recurrenceIndex: number | null;
+  /** Set when the entry is one installment (parcela) of a credit card purchase */
+  installmentGroupId: string | null;
+  installmentNumber: number | null;
+  installmentCount: number | null;
+  createdAt: Date;
+}
+
+/** An entry in the trash */
+export interface DeletedTransaction extends Transaction {
+  deletedAt: Date;
+  deletedByName: string | null;
+}
+
+/** Fields provided when recording a new entry; the rest is set by the server */
+export type NewTransaction = Omit<
+  Transaction,
+  | 'id'
+  | 'createdAt'
+  | 'user_id'
+  | 'recurrenceId'
+  | 'recurrenceIndex'
+  | 'installmentGroupId'
+  | 'installmentNumber'
+  | 'installmentCount'
+>;
+
+/** A series ends at endDate or after count occurrences; with neither it repeats forever */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  endDate: Date | null;
+  count: number | null;
+}
+
+export interface Account {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  openingBalance: number;
+  /** Current balance, including every entry and transfer */
+  balance: number;
+  archived: boolean;
+}
+
+export interface Transfer {
+  id: string;
+  date: Date;
+  fromAccountId: string;
+  toAccountId: string;
   amount: number;
   description: string;
+  createdAt: Date;
+}
+
+/** A client or supplier; document is the CPF or CNPJ digits */
+export interface Contact {
+  id: string;
+  name: string;
+  document: string | null;
+  phone: string | null;
+  email: string | null;
+  /** Suggested when the contact is picked in a new entry */
+  defaultPaymentMethod: PaymentMethod | null;
+  notes: string;
+  transactionCount: number;
+  /** Paid entries received from the contact minus those paid to it */
+  balance: number;
+}
+
+export type NewContact = Pick<Contact, 'name' | 'document' | 'phone' | 'email' | 'defaultPaymentMethod' | 'notes'>;
+
+/** Every entry linked to a contact, with its totals */
+export interface ContactStatement {
+  contact: Contact;
+  transactions: Transaction[];
+  income: number;
+  expense: number;
+  balance: number;
+  pendingIncome: number;
+  pendingExpense: number;
+}
+
+/** A receipt or invoice file attached to an entry */
+export interface Attachment {
+  id: string;
+  transactionId: string;
+  fileName: string;
+  contentType: string;
+  /** In bytes */
+  size: number;
+  uploadedByName: string | null;
+  createdAt: Date;
+}
+
+/** Notes or coins counted, by denomination in reais (e.g. "50" or "0.25") */
+export type CashCounts = Record<string, number>;
+
+/** A day at the till of a cash account, from its opening to its closing count */
+export interface CashSession {
+  id: string;
+  accountId: string;
+  accountName: string;
+  openedAt: Date;
+  openedByName: string | null;
+  openingAmount: number;
+  /** Opening amount plus the cash entries of the session; frozen once closed */
+  expectedAmount: number;
+  closedAt: Date | null;
+  closedByName: string | null;
+  closingAmount: number | null;
+  /** Quebra de caixa: counted minus expected, negative when cash is missing */
+  difference: number | null;
+  notes: string;
+}
+
+export interface CashSessionDetail extends CashSession {
+  openingCounts: CashCounts;
+  closingCounts: CashCounts | null;
+  transactions: Transaction[];
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  type: TransactionType;
+  parentId: string | null;
+}
+
+export interface Filters {
+  startDate?: Date;
+  endDate?: Date;
+  type: TransactionType | 'all';
+  search: string;
+  categoryId: string | 'all';
+  accountId: string | 'all';
+  status: TransactionStatus | 'all';
+  paymentMethod: PaymentMethod | 'all';
+}
+
+export type TransactionSortField = 'date' | 'dueDate' | 'amount' | 'clientSupplier' | 'createdAt';
+
+export interface TransactionSort {
+  field: TransactionSortField;
+  direction: 'asc' | 'desc';
+}
+
+/** Totals of every entry matching the filters, computed by the server */
+export interface TransactionSummary {
+  count: number;
+  income: number;
+  expense: number;
+  balance: number;
+  forecastIncome: number;
+  forecastExpense: number;
+  forecastBalance: number;
+}
+
+export interface CashFlowCounterparty {
+  name: string;
+  total: number;
+  count: number;
+}
+
+/** Paid entries matching the filters, aggregated by the server for the dashboard */
+export interface CashFlowStats {
+  /** Balance before the start of the range; see accountBalance */
+  openingBalance: number;
+  /**
+   * Whether the running balance is that of the filtered account (or of all
+   * accounts), with opening balances and transfers. When filters pick
+   * entries, it only adds up the matching ones.
+   */
+  accountBalance: boolean;
+  /** month is "yyyy-MM" */
+  months: { month: string; income: number; expense: number }[];
+  /** Days with paid entries or transfers, with the running balance at the end of each one */
+  days: { date: Date; net: number; transfers: number; balance: number }[];
+  paymentMethods: { paymentMethod: PaymentMethod; income: number; expense: number }[];
+  topClients: CashFlowCounterparty[];
+  topSuppliers: CashFlowCounterparty[];
+}
+
+/** A pending entry, or a paid one dated in the future, expected to move money */
+export interface ProjectedEntry {
+  id: string;
+  type: TransactionType;
+  clientSupplier: string;
+  description: string;
+  amount: number;
   paymentMethod: PaymentMethod;
+  accountId: string;
+  /** Pending past its due date, so it is expected today */
+  overdue: boolean;
+}
+
+export interface ProjectionDay {
+  date: Date;
+  income: number;
+  expense: number;
+  /** Projected balance at the end of the day */
+  balance: number;
+  entries: ProjectedEntry[];
+}
+
+/** Balance of all accounts projected day by day from today */
+export interface CashFlowProjection {
+  openingBalance: number;
+  days: ProjectionDay[];
+}
+
+export type ProjectionLength = 30 | 60 | 90;
+
+export const projectionLengthLabels: Record<ProjectionLength, string> = {
+  30: '30 dias',
+  60: '60 dias',
+  90: '90 dias',
+};
+
+/** A month closed by the accountant; month is "yyyy-MM" */
+export interface ClosedPeriod {
+  month: string;
+  closedAt: Date;
+  closedByName: string | null;
+}
+
+/** "delete" moves an entry to the trash; "purge" removes it for good */
+export type AuditAction = 'insert' | 'update' | 'delete' | 'restore' | 'purge' | 'attach' | 'detach';
+
+export type AuditEntityType = 'transaction' | 'user';
+
+/** One change recorded by the server; before/after are raw database rows */
+export interface AuditEntry {
+  id: string;
+  actorName: string | null;
+  actorEmail: string | null;
+  entityType: AuditEntityType;
+  entityId: string;
+  /** Name or email of the user an entry of type "user" refers to */
+  userLabel?: string | null;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
   createdAt: Date;
 }
 
@@ -37,6 +320,63 @@ export interface UserRole {
   role: AppRole;
 }
 
+/** A user as listed on the user management page */
+export interface ManagedUser {
+  id: string;
+  email: string;
+  fullName: string | null;
+  createdAt: Date;
+  roles: AppRole[];
+  profileIds: string[];
+  /** Deactivated users keep their account but cannot log in */
+  active: boolean;
+  /** Self-signup waiting for an admin to approve or reject it */
+  pending: boolean;
+  twoFactorEnabled: boolean;
+}
+
+/** Single-use invitation link that has not been used or revoked yet */
+export interface Invitation {
+  id: string;
+  email: string;
+  roles: AppRole[];
+  profileIds: string[];
+  invitedByName: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface AppSettings {
+  /** Self-signups wait in a pending queue until an admin approves them */
+  requireSignupApproval: boolean;
+  /** Users who can edit entries or manage users must enable 2FA */
+  requireTwoFactor: boolean;
+}
+
+/** Two-factor authentication of the logged in user */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  /** Required by the settings for this user, so it cannot be disabled */
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+/** Secret of a 2FA setup in progress, to be scanned by an authenticator app */
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  /** QR code of otpauthUrl as an image data URL */
+  qrCode: string;
+}
+
+export interface PermissionProfile {
+  id: string;
+  name: string;
+  permissions: ProfilePermission[];
+  /** Number of users holding the profile */
+  userCount: number;
+}
+
 export const paymentMethodLabels: Record<PaymentMethod, string> = {
   dinheiro: 'Dinheiro',
   pix: 'PIX',
@@ -48,6 +388,34 @@ export const paymentMethodLabels: Record<PaymentMethod, string> = {
   outro: 'Outro',
 };
 
+export const transactionSortLabels: Record<TransactionSortField, string> = {
+  date: 'Data',
+  dueDate: 'Vencimento',
+  amount: 'Valor',
+  clientSupplier: 'Cliente/Fornecedor',
+  createdAt: 'Data de cadastro',
+};
+
+export const transactionStatusLabels: Record<TransactionStatus, string> = {
+  pending: 'Pendente',
+  paid: 'Pago',
+  overdue: 'Vencido',
+  cancelled: 'Cancelado',
+};
+
+export const recurrenceFrequencyLabels: Record<RecurrenceFrequency, string> = {
+  daily: 'A cada N dias',
+  weekly: 'Semanal',
+  monthly: 'Mensal',
+  yearly: 'Anual',
+};
+
+export const accountKindLabels: Record<AccountKind, string> = {
+  cash: 'Caixa',
+  bank: 'Conta Bancária',
+  digital_wallet: 'Carteira Digital',
+};
+
 export const roleLabels: Record<AppRole, string> = {
   admin: 'Administrador',
   view_only: 'Somente Visualizar',
@@ -55,3 +423,29 @@ export const roleLabels: Record<AppRole, string> = {
   insert_expenses: 'Inserir Pagamentos',
   insert_income: 'Inserir Recebimentos',
 };
+
+export const profilePermissionLabels: Record<ProfilePermission, string> = {
+  view: 'Visualizar',
+  insert_income: 'Inserir Recebimentos',
+  insert_expense: 'Inserir Pagamentos',
+  edit: 'Editar',
+  delete: 'Excluir',
+  export: 'Exportar',
+  manage_users: 'Gerenciar Usuários',
+  close_periods: 'Fechar Períodos',
+};
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  insert: 'Criação',
+  update: 'Alteração',
+  delete: 'Exclusão',
+  restore: 'Restauração',
+  purge: 'Exclusão definitiva',
+  attach: 'Anexo incluído',
+  detach: 'Anexo removido',
+};
+
+export const auditEntityTypeLabels: Record<AuditEntityType, string> = {
+  transaction: 'Transação',
+  user: 'Usuário',
+};
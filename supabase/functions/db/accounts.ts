@@ -0,0 +1,21 @@
+import { Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { HttpError } from "./permissions.ts";
+
+export const ACCOUNT_KINDS = ['cash', 'bank', 'digital_wallet'];
+
+// New entries can only be booked on existing, non archived accounts
+export const assertActiveAccount = async (client: Transaction, accountId: unknown) => {
+  if (!accountId) {
+    throw new HttpError(400, 'Account is required', 'invalid_request');
+  }
+
+  const res = await client.queryObject<{ archived_at: string | null }>`
+    SELECT archived_at FROM accounts WHERE id = ${accountId}::uuid
+  `;
+  if (res.rows.length === 0) {
+    throw new HttpError(400, 'Account not found', 'invalid_request');
+  }
+  if (res.rows[0].archived_at) {
+    throw new HttpError(400, 'Account is archived', 'account_archived');
+  }
+};
@@ -0,0 +1,74 @@
+import { Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { HttpError, Permission, requirePermission } from "./permissions.ts";
+
+export const ATTACHMENT_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+// Columns sent to the client and recorded in the audit trail; storage_key
+// stays on the server
+export const ATTACHMENT_COLUMNS = 'id, transaction_id, file_name, content_type, size, uploaded_by, created_at';
+
+export const decodeBase64 = (value: string) => {
+  try {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  } catch {
+    throw new HttpError(400, 'Attachment content must be base64', 'invalid_request');
+  }
+};
+
+export const encodeBase64 = (bytes: Uint8Array) => {
+  // Converted in chunks so large files do not overflow the argument list
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Validates an upload and returns its decoded content
+export const parseAttachment = (data: Record<string, unknown>) => {
+  const fileName = String(data.file_name ?? '').trim().slice(0, 255);
+  if (!fileName) {
+    throw new HttpError(400, 'File name is required', 'invalid_request');
+  }
+  if (!ATTACHMENT_CONTENT_TYPES.includes(data.content_type as string)) {
+    throw new HttpError(400, 'Only images and PDF files can be attached', 'invalid_attachment');
+  }
+
+  const content = decodeBase64(String(data.content ?? ''));
+  if (content.length === 0) {
+    throw new HttpError(400, 'File is empty', 'invalid_attachment');
+  }
+  if (content.length > MAX_ATTACHMENT_BYTES) {
+    throw new HttpError(413, 'File is too large', 'attachment_too_large');
+  }
+
+  return { fileName, contentType: data.content_type as string, content };
+};
+
+// Anyone who can edit may attach files to or remove them from an entry; the
+// person who recorded an entry may too, so a receipt can be added right after
+// inserting it without the edit permission. Entries in the trash are refused;
+// closed periods are not, since a receipt does not change the figures.
+export const assertCanManageAttachments = async (
+  client: Transaction,
+  caller: { id: string; permissions: Permission[] },
+  transactionId: unknown
+) => {
+  const res = await client.queryObject<{ user_id: string; type: string }>`
+    SELECT user_id, type FROM transactions WHERE id = ${transactionId}::uuid AND deleted_at IS NULL
+  `;
+  const transaction = res.rows[0];
+  if (!transaction) {
+    throw new HttpError(404, 'Transaction not found', 'not_found');
+  }
+
+  const canInsert = caller.permissions.includes(transaction.type === 'income' ? 'insert_income' : 'insert_expense');
+  if (transaction.user_id !== caller.id || !canInsert) {
+    requirePermission(caller, 'edit');
+  }
+};
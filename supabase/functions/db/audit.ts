@@ -0,0 +1,63 @@
+import { Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+
+// "delete" moves an entry to the trash; "purge" removes it for good.
+// "attach" and "detach" are logged on the transaction a file belongs to.
+export type AuditAction = 'insert' | 'update' | 'delete' | 'restore' | 'purge' | 'attach' | 'detach';
+export type AuditEntityType = 'transaction' | 'user';
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['transaction', 'user'];
+
+export interface AuditEntry {
+  entityId: string;
+  before: unknown;
+  after: unknown;
+}
+
+type Row = Record<string, unknown>;
+
+// Pairs rows read before an UPDATE with the rows it returned
+export const pairUpdatedRows = (before: Row[], after: Row[]): AuditEntry[] => {
+  const beforeById = new Map(before.map((row) => [row.id, row]));
+  return after.map((row) => ({ entityId: row.id as string, before: beforeById.get(row.id) ?? null, after: row }));
+};
+
+export const insertedRows = (rows: Row[]): AuditEntry[] =>
+  rows.map((row) => ({ entityId: row.id as string, before: null, after: row }));
+
+export const deletedRows = (rows: Row[]): AuditEntry[] =>
+  rows.map((row) => ({ entityId: row.id as string, before: row, after: null }));
+
+// Writes one audit_log row per entry in a single statement
+export const recordAudit = async (
+  client: Transaction,
+  actorId: string,
+  entityType: AuditEntityType,
+  action: AuditAction,
+  entries: AuditEntry[]
+) => {
+  if (entries.length === 0) return;
+
+  const valueRows: string[] = [];
+  const values: unknown[] = [];
+  entries.forEach((entry) => {
+    const offset = values.length;
+    values.push(
+      actorId,
+      entityType,
+      entry.entityId,
+      action,
+      entry.before === null ? null : JSON.stringify(entry.before),
+      entry.after === null ? null : JSON.stringify(entry.after),
+    );
+    const p = (i: number, cast = '') => `$${offset + i}${cast}`;
+    valueRows.push(`(${p(1, '::uuid')}, ${p(2)}, ${p(3, '::uuid')}, ${p(4)}, ${p(5, '::jsonb')}, ${p(6, '::jsonb')})`);
+  });
+
+  await client.queryObject(
+    `
+      INSERT INTO audit_log (actor_id, entity_type, entity_id, action, before, after)
+      VALUES ${valueRows.join(', ')}
+    `,
+    values
+  );
+};
@@ -0,0 +1,215 @@
+import { Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { HttpError } from "./permissions.ts";
+import { GENERATION_HORIZON_DAYS, generateOccurrences } from "./recurrence.ts";
+import { TransactionFilters, buildTransactionFilters } from "./transactionQuery.ts";
+
+// Number of clients and of suppliers listed in the ranking
+export const TOP_COUNTERPARTIES = 5;
+
+const SIGNED_AMOUNT = `CASE WHEN type = 'income' THEN amount ELSE -amount END`;
+
+const previousDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().slice(0, 10);
+};
+
+// Filters that pick entries rather than an account. Without them the running
+// balance is the real balance of the filtered account, or of all accounts.
+const ENTRY_FILTERS: Array<keyof TransactionFilters> = ['type', 'search', 'payment_method', 'category_id'];
+
+const isAccountBalance = (filters: TransactionFilters) => ENTRY_FILTERS.every((key) => !filters[key]);
+
+// What the balance of the account (or all accounts) holds besides its paid
+// entries: the opening balances and, before startDate, the transfers in and out
+const getBalanceBase = async (client: Transaction, accountId: string | undefined, startDate: string | undefined) => {
+  const res = await client.queryObject<{ base: unknown }>`
+    SELECT COALESCE((
+             SELECT SUM(opening_balance) FROM accounts
+             WHERE ${accountId ?? null}::uuid IS NULL OR id = ${accountId ?? null}::uuid
+           ), 0)
+           + COALESCE((
+               SELECT SUM(amount) FROM transfers
+               WHERE to_account_id = ${accountId ?? null}::uuid AND date < ${startDate ?? null}::date
+             ), 0)
+           - COALESCE((
+               SELECT SUM(amount) FROM transfers
+               WHERE from_account_id = ${accountId ?? null}::uuid AND date < ${startDate ?? null}::date
+             ), 0) AS base
+  `;
+  return res.rows[0].base;
+};
+
+// Net transfers into the account on each day of the range. Across all
+// accounts transfers cancel out, so there are none to add.
+const getTransferDays = async (client: Transaction, filters: TransactionFilters) => {
+  if (!filters.account_id) return [];
+  const res = await client.queryObject<{ date: string; net: unknown }>`
+    SELECT date::text AS date,
+           SUM(CASE WHEN to_account_id = ${filters.account_id}::uuid THEN amount ELSE -amount END) AS net
+    FROM transfers
+    WHERE (to_account_id = ${filters.account_id}::uuid OR from_account_id = ${filters.account_id}::uuid)
+      AND (${filters.start_date ?? null}::date IS NULL OR date >= ${filters.start_date ?? null}::date)
+      AND (${filters.end_date ?? null}::date IS NULL OR date <= ${filters.end_date ?? null}::date)
+    GROUP BY date ORDER BY date
+  `;
+  return res.rows;
+};
+
+// Starting point of the running balance and the transfers that move it. With
+// only an account filter it is the account balance (or that of all accounts);
+// with filters picking entries, only the matching paid entries before the
+// range count and account_balance tells the client to label it differently.
+const getRunningBalance = async (client: Transaction, filters: TransactionFilters, entriesBefore: unknown) => {
+  if (!isAccountBalance(filters)) {
+    return { opening_balance: entriesBefore, transfers: [], account_balance: false };
+  }
+  const base = await getBalanceBase(client, filters.account_id, filters.start_date);
+  return {
+    // Summed in cents, as numeric columns come back as strings
+    opening_balance: (Math.round(Number(base) * 100) + Math.round(Number(entriesBefore) * 100)) / 100,
+    transfers: await getTransferDays(client, filters),
+    account_balance: true,
+  };
+};
+
+// Aggregates behind the dashboard charts. Only money that actually moved
+// counts, so the status filter is replaced by "paid"; every other filter
+// applies as in the listing. The running balance is described in
+// getRunningBalance.
+export const getCashFlowStats = async (client: Transaction, filters: TransactionFilters) => {
+  // Runs the SQL returned by build, giving it the WHERE clause for the filters
+  const query = async (build: (where: string) => string, overrides: TransactionFilters = {}) => {
+    const values: unknown[] = [];
+    const conditions = buildTransactionFilters({ ...filters, status: 'paid', ...overrides }, values);
+    const res = await client.queryObject(build(`WHERE ${conditions.join(' AND ')}`), values);
+    return res.rows;
+  };
+
+  const months = await query((where) => `
+    SELECT to_char(date, 'YYYY-MM') AS month,
+           COALESCE(SUM(amount) FILTER (WHERE type = 'income'), 0) AS income,
+           COALESCE(SUM(amount) FILTER (WHERE type = 'expense'), 0) AS expense
+    FROM transactions ${where}
+    GROUP BY 1 ORDER BY 1
+  `);
+
+  const days = await query((where) => `
+    SELECT date::text AS date, SUM(${SIGNED_AMOUNT}) AS net
+    FROM transactions ${where}
+    GROUP BY date ORDER BY date
+  `);
+
+  let entriesBefore: unknown = 0;
+  if (filters.start_date) {
+    const [row] = await query(
+      (where) => `SELECT COALESCE(SUM(${SIGNED_AMOUNT}), 0) AS net FROM transactions ${where}`,
+      { start_date: undefined, end_date: previousDay(filters.start_date) }
+    );
+    entriesBefore = (row as { net: unknown }).net;
+  }
+
+  const paymentMethods = await query((where) => `
+    SELECT payment_method,
+           COALESCE(SUM(amount) FILTER (WHERE type = 'income'), 0) AS income,
+           COALESCE(SUM(amount) FILTER (WHERE type = 'expense'), 0) AS expense
+    FROM transactions ${where}
+    GROUP BY payment_method ORDER BY SUM(amount) DESC
+  `);
+
+  // Clients are ranked by what they paid in, suppliers by what was paid out
+  const topCounterparties = await query((where) => `
+    SELECT client_supplier, type, total, count
+    FROM (
+      SELECT client_supplier, type, SUM(amount) AS total, COUNT(*)::int AS count,
+             ROW_NUMBER() OVER (PARTITION BY type ORDER BY SUM(amount) DESC, client_supplier) AS rank
+      FROM transactions ${where}
+      GROUP BY client_supplier, type
+    ) ranked
+    WHERE rank <= ${TOP_COUNTERPARTIES}
+    ORDER BY type, rank
+  `);
+
+  return {
+    ...(await getRunningBalance(client, filters, entriesBefore)),
+    months,
+    days,
+    payment_methods: paymentMethods,
+    top_counterparties: topCounterparties,
+  };
+};
+
+// Data behind the printable cash report: the paid entries matching the
+// listing filters in the range, oldest first, and the running balance as in
+// the dashboard. The closing balance is the opening one plus the entries and
+// transfers listed.
+export const getCashReport = async (client: Transaction, filters: TransactionFilters) => {
+  if (!filters.start_date || !filters.end_date) {
+    throw new HttpError(400, 'The report needs a start and an end date', 'invalid_request');
+  }
+
+  const values: unknown[] = [];
+  const conditions = buildTransactionFilters({ ...filters, status: 'paid' }, values);
+  const transactions = await client.queryObject(
+    `SELECT * FROM transactions WHERE ${conditions.join(' AND ')} ORDER BY date, created_at, id`,
+    values
+  );
+
+  const openingValues: unknown[] = [];
+  const openingConditions = buildTransactionFilters(
+    { ...filters, status: 'paid', start_date: undefined, end_date: previousDay(filters.start_date) },
+    openingValues
+  );
+  const opening = await client.queryObject<{ net: unknown }>(
+    `SELECT COALESCE(SUM(${SIGNED_AMOUNT}), 0) AS net FROM transactions WHERE ${openingConditions.join(' AND ')}`,
+    openingValues
+  );
+
+  return {
+    ...(await getRunningBalance(client, filters, opening.rows[0].net)),
+    transactions: transactions.rows,
+  };
+};
+
+// Lengths offered for the projection; recurring series are only materialized
+// GENERATION_HORIZON_DAYS ahead, so nothing longer would be accurate
+export const PROJECTION_DAYS = [30, 60, 90].filter((days) => days <= GENERATION_HORIZON_DAYS);
+
+// Projects the balance of every account from today on. It starts from the
+// opening balances plus what was paid up to today, then lists the entries that
+// will move money: pending ones on their due date (overdue ones today) and
+// paid ones dated in the future. Transfers cancel out across accounts.
+export const getCashFlowProjection = async (client: Transaction, actorId: string, days: number) => {
+  if (!PROJECTION_DAYS.includes(days)) {
+    throw new HttpError(400, `Projection must cover ${PROJECTION_DAYS.join(', ')} days`, 'invalid_request');
+  }
+
+  // Recurring entries count only once they exist as pending transactions
+  await generateOccurrences(client, actorId);
+
+  const balanceRes = await client.queryObject<{ start_date: string; balance: unknown }>`
+    SELECT CURRENT_DATE::text AS start_date,
+           COALESCE((SELECT SUM(opening_balance) FROM accounts), 0)
+           + COALESCE((
+               SELECT SUM(CASE WHEN type = 'income' THEN amount ELSE -amount END)
+               FROM transactions
+               WHERE status = 'paid' AND deleted_at IS NULL AND date <= CURRENT_DATE
+             ), 0) AS balance
+  `;
+
+  const entriesRes = await client.queryObject`
+    SELECT id, type, client_supplier, description, amount, payment_method, account_id, status,
+           GREATEST(CASE WHEN status = 'paid' THEN date ELSE due_date END, CURRENT_DATE)::text AS date,
+           (status = 'pending' AND due_date < CURRENT_DATE) AS overdue
+    FROM transactions
+    WHERE deleted_at IS NULL
+      AND (
+        (status = 'pending' AND due_date <= CURRENT_DATE + ${days}::int)
+        OR (status = 'paid' AND date > CURRENT_DATE AND date <= CURRENT_DATE + ${days}::int)
+      )
+    ORDER BY 9, type DESC, amount DESC
+  `;
+
+  const [{ start_date, balance }] = balanceRes.rows;
+  return { start_date, opening_balance: balance, entries: entriesRes.rows };
+};
@@ -0,0 +1,86 @@
+import { Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { HttpError } from "./permissions.ts";
+
+// Brazilian notes and coins, in reais, as used for the keys of a count
+export const DENOMINATIONS = ['200', '100', '50', '20', '10', '5', '2', '1', '0.5', '0.25', '0.1', '0.05'];
+
+// Validates a count by denomination and returns it with its total in reais.
+// Denominations counted zero times are dropped.
+export const parseCounts = (value: unknown) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new HttpError(400, 'Counts must map denominations to quantities', 'invalid_request');
+  }
+
+  const counts: Record<string, number> = {};
+  let cents = 0;
+  for (const [denomination, quantity] of Object.entries(value)) {
+    if (!DENOMINATIONS.includes(denomination)) {
+      throw new HttpError(400, `Unknown denomination: ${denomination}`, 'invalid_request');
+    }
+    if (!Number.isInteger(quantity) || (quantity as number) < 0) {
+      throw new HttpError(400, 'Quantities must be whole numbers', 'invalid_request');
+    }
+    if (quantity === 0) continue;
+    counts[denomination] = quantity as number;
+    cents += Math.round(Number(denomination) * 100) * (quantity as number);
+  }
+
+  return { counts, amount: cents / 100 };
+};
+
+// Sessions are kept for cash accounts only
+export const assertCashAccount = async (client: Transaction, accountId: unknown) => {
+  const res = await client.queryObject<{ kind: string }>`
+    SELECT kind FROM accounts WHERE id = ${accountId}::uuid
+  `;
+  if (res.rows[0]?.kind !== 'cash') {
+    throw new HttpError(400, 'Cash sessions are only kept for cash accounts', 'invalid_request');
+  }
+};
+
+// Paid cash entries of the session's account that are linked to it; money
+// in is added and money out subtracted
+export const SESSION_NET_AMOUNT = `
+  COALESCE((
+    SELECT SUM(CASE WHEN t.type = 'income' THEN t.amount ELSE -t.amount END)
+    FROM transactions t
+    WHERE t.cash_session_id = s.id
+      AND t.account_id = s.account_id
+      AND t.payment_method = 'dinheiro'
+      AND t.status = 'paid'
+      AND t.deleted_at IS NULL
+  ), 0)
+`;
+
+// Links the given entries to the open session of their account when they are
+// paid in cash on or after the day it was opened, and unlinks those that no
+// longer are. Only new or just settled entries (link) are taken into the
+// open session; an edit or restore can only keep or drop an entry that was
+// already in it, so older money never lands in today's till. Entries of a
+// closed session keep their link, since its figures are final.
+export const syncCashSessions = async (
+  client: Transaction,
+  transactionIds: unknown[],
+  { link }: { link: boolean }
+) => {
+  if (transactionIds.length === 0) return;
+
+  await client.queryObject`
+    UPDATE transactions t
+    SET cash_session_id = (
+      SELECT s.id FROM cash_sessions s
+      WHERE s.account_id = t.account_id
+        AND s.closed_at IS NULL
+        AND (${link}::boolean OR s.id = t.cash_session_id)
+        AND t.payment_method = 'dinheiro'
+        AND t.status = 'paid'
+        AND t.deleted_at IS NULL
+        AND COALESCE(t.paid_at, t.date) >= s.opened_at::date
+    )
+    WHERE t.id = ANY(${transactionIds}::uuid[])
+      AND (
+        (${link}::boolean AND t.cash_session_id IS NULL)
+        OR t.cash_session_id IN (SELECT id FROM cash_sessions WHERE closed_at IS NULL)
+      )
+  `;
+};
@@ -0,0 +1,61 @@
+import { Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { HttpError } from "./permissions.ts";
+
+interface CategoryRow {
+  id: string;
+  type: 'income' | 'expense';
+}
+
+const getCategory = async (client: Transaction, id: string) => {
+  const res = await client.queryObject<CategoryRow>`
+    SELECT id, type FROM categories WHERE id = ${id}::uuid
+  `;
+  if (res.rows.length === 0) {
+    throw new HttpError(400, 'Category not found', 'invalid_request');
+  }
+  return res.rows[0];
+};
+
+// A parent must exist, have the same type and, when moving an existing
+// category, must not be the category itself or one of its descendants.
+export const assertValidParent = async (
+  client: Transaction,
+  type: string,
+  parentId: string | null | undefined,
+  categoryId?: string
+) => {
+  if (!parentId) return;
+
+  const parent = await getCategory(client, parentId);
+  if (parent.type !== type) {
+    throw new HttpError(400, 'Parent category has a different type', 'invalid_request');
+  }
+
+  if (categoryId) {
+    const res = await client.queryObject`
+      WITH RECURSIVE descendants AS (
+        SELECT id FROM categories WHERE id = ${categoryId}::uuid
+        UNION
+        SELECT c.id FROM categories c JOIN descendants d ON c.parent_id = d.id
+      )
+      SELECT 1 FROM descendants WHERE id = ${parentId}::uuid
+    `;
+    if (res.rows.length > 0) {
+      throw new HttpError(400, 'A category cannot be moved under itself', 'invalid_request');
+    }
+  }
+};
+
+// Income transactions can only use income categories, and vice versa
+export const assertCategoryMatchesType = async (
+  client: Transaction,
+  categoryId: string | null | undefined,
+  type: string
+) => {
+  if (!categoryId) return;
+
+  const category = await getCategory(client, categoryId);
+  if (category.type !== type) {
+    throw new HttpError(400, 'Category type does not match the transaction type', 'invalid_request');
+  }
+};
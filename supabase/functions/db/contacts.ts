@@ -0,0 +1,129 @@
+import { PostgresError, Transaction, TransactionError } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { HttpError } from "./permissions.ts";
+
+export const PAYMENT_METHODS = [
+  'dinheiro',
+  'pix',
+  'cartao_credito',
+  'cartao_debito',
+  'transferencia',
+  'boleto',
+  'cheque',
+  'outro',
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Check digit for CPF and CNPJ: weighted sum of the digits, modulo 11
+const checkDigit = (digits: string, weights: number[]) => {
+  const sum = weights.reduce((total, weight, i) => total + Number(digits[i]) * weight, 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+};
+
+// Repeated digits (000.000.000-00 and the like) pass the checksum but are invalid
+const isRepeated = (digits: string) => /^(\d)\1+$/.test(digits);
+
+export const isValidCpf = (digits: string) => {
+  if (!/^\d{11}$/.test(digits) || isRepeated(digits)) return false;
+  const first = checkDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[9]) && second === Number(digits[10]);
+};
+
+export const isValidCnpj = (digits: string) => {
+  if (!/^\d{14}$/.test(digits) || isRepeated(digits)) return false;
+  const first = checkDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[12]) && second === Number(digits[13]);
+};
+
+// Accepts a CPF or CNPJ with or without punctuation and returns its digits
+const parseDocument = (value: unknown) => {
+  const digits = String(value ?? '').replace(/\D/g, '');
+  if (!digits) return null;
+  if (!(digits.length === 11 ? isValidCpf(digits) : isValidCnpj(digits))) {
+    throw new HttpError(400, 'Invalid CPF/CNPJ', 'invalid_document');
+  }
+  return digits;
+};
+
+const optionalText = (value: unknown) => {
+  const text = String(value ?? '').trim();
+  return text || null;
+};
+
+// Validates the contact fields present in data and returns them as columns;
+// a name is required when creating
+export const parseContactFields = (data: Record<string, unknown>, creating: boolean) => {
+  const fields: Record<string, unknown> = {};
+
+  if (creating || data.name !== undefined) {
+    const name = String(data.name ?? '').trim();
+    if (!name || name.length > 100) {
+      throw new HttpError(400, 'Contact name is required and limited to 100 characters', 'invalid_request');
+    }
+    fields.name = name;
+  }
+  if (data.document !== undefined) {
+    fields.document = parseDocument(data.document);
+  }
+  if (data.phone !== undefined) {
+    const phone = optionalText(data.phone);
+    if (phone && !/^[\d\s()+-]{8,20}$/.test(phone)) {
+      throw new HttpError(400, 'Invalid phone number', 'invalid_request');
+    }
+    fields.phone = phone;
+  }
+  if (data.email !== undefined) {
+    const email = optionalText(data.email);
+    if (email && !EMAIL_PATTERN.test(email)) {
+      throw new HttpError(400, 'Invalid email', 'invalid_request');
+    }
+    fields.email = email;
+  }
+  if (data.default_payment_method !== undefined) {
+    const method = optionalText(data.default_payment_method);
+    if (method && !PAYMENT_METHODS.includes(method)) {
+      throw new HttpError(400, 'Invalid payment method', 'invalid_request');
+    }
+    fields.default_payment_method = method;
+  }
+  if (data.notes !== undefined) {
+    fields.notes = optionalText(data.notes);
+  }
+
+  return fields;
+};
+
+// Each CPF/CNPJ belongs to a single contact
+export const assertUniqueDocument = async (client: Transaction, document: unknown, contactId?: string) => {
+  if (!document) return;
+  const res = await client.queryObject`
+    SELECT 1 FROM contacts WHERE document = ${document} AND id IS DISTINCT FROM ${contactId ?? null}::uuid
+  `;
+  if (res.rows.length > 0) {
+    throw new HttpError(409, 'Another contact has this CPF/CNPJ', 'document_in_use');
+  }
+};
+
+// Two requests saving the same CPF/CNPJ at once both pass the check above;
+// the unique index stops the second one, reported with the same error
+export const mapDocumentConflict = (error: unknown) =>
+  error instanceof TransactionError &&
+  error.cause instanceof PostgresError &&
+  error.cause.fields.code === '23505' &&
+  error.cause.fields.constraint === 'contacts_document_key'
+    ? new HttpError(409, 'Another contact has this CPF/CNPJ', 'document_in_use')
+    : error;
+
+// Entries may be linked to a contact, which must exist
+export const assertContact = async (client: Transaction, contactId: unknown) => {
+  if (!contactId) return;
+  const res = await client.queryObject`
+    SELECT 1 FROM contacts WHERE id = ${contactId}::uuid
+  `;
+  if (res.rows.length === 0) {
+    throw new HttpError(400, 'Contact not found', 'invalid_request');
+  }
+};
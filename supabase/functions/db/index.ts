@@ -1,5 +1,82 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { Pool } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { Pool, Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { qrcode } from "https://deno.land/x/qrcode@v2.0.0/mod.ts";
+import {
+  REFRESH_TOKEN_TTL_SECONDS,
+  SessionTokens,
+  generateToken,
+  getBearerToken,
+  hashToken,
+  signAccessToken,
+  verifyAccessToken,
+} from "./session.ts";
+import {
+  HttpError,
+  Permission,
+  PermissionDeniedError,
+  getPermissions,
+  requirePermission,
+} from "./permissions.ts";
+import { assertCategoryMatchesType, assertValidParent } from "./categories.ts";
+import { ACCOUNT_KINDS, assertActiveAccount } from "./accounts.ts";
+import { assertContact, assertUniqueDocument, mapDocumentConflict, parseContactFields } from "./contacts.ts";
+import { RECURRENCE_FREQUENCIES, RecurrenceFrequency, generateOccurrences } from "./recurrence.ts";
+import { MAX_INSTALLMENTS, splitInstallments } from "./installments.ts";
+import { ClosedPeriodError, assertOpenPeriod, parsePeriod } from "./periods.ts";
+import {
+  AUDIT_ENTITY_TYPES,
+  AuditEntityType,
+  deletedRows,
+  insertedRows,
+  pairUpdatedRows,
+  recordAudit,
+} from "./audit.ts";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  TRANSACTION_STATUSES,
+  TransactionFilters,
+  buildCursorCondition,
+  buildTransactionFilters,
+  getCursorSelect,
+  getSortColumns,
+  takePage,
+} from "./transactionQuery.ts";
+import { getCashFlowProjection, getCashFlowStats, getCashReport } from "./cashFlow.ts";
+import {
+  ATTACHMENT_COLUMNS,
+  assertCanManageAttachments,
+  encodeBase64,
+  parseAttachment,
+} from "./attachments.ts";
+import { getAttachmentStorage } from "./storage.ts";
+import {
+  SESSION_NET_AMOUNT,
+  assertCashAccount,
+  parseCounts,
+  syncCashSessions,
+} from "./cashSessions.ts";
+import { assertCanChangeAdminRole, assertNotLastAdmin, getManagedUser, revokeSessions } from "./users.ts";
+import { assertUniqueProfileName, assignUserAccess, parseProfileFields, parseUserAccess } from "./profiles.ts";
+import {
+  INVITATION_TTL_DAYS,
+  Invitation,
+  claimInvitation,
+  findOpenInvitation,
+  parseInvitationEmail,
+} from "./invitations.ts";
+import { claimPasswordReset, hasRecentPasswordReset, parseNewPassword, sendPasswordReset } from "./passwordResets.ts";
+import { getAppUrl } from "./mail.ts";
+import {
+  claimLoginChallenge,
+  createLoginChallenge,
+  generateTotpSecret,
+  getOtpAuthUrl,
+  isTwoFactorRequired,
+  replaceRecoveryCodes,
+  verifySecondFactor,
+  verifyTotp,
+} from "./twoFactor.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -24,16 +101,219 @@ interface RequestBody {
   action: string;
   table?: string;
   data?: Record<string, unknown>;
+  rows?: Record<string, unknown>[];
+  filters?: TransactionFilters;
+  cursor?: string | null;
+  limit?: number;
+  entityType?: string;
+  days?: number;
   where?: Record<string, unknown>;
   id?: string;
   email?: string;
   password?: string;
+  currentPassword?: string;
   fullName?: string;
   userId?: string;
+  refreshToken?: string;
+  inviteToken?: string;
+  resetToken?: string;
+  challengeToken?: string;
+  code?: string;
   orderBy?: string;
   orderDirection?: 'ASC' | 'DESC';
 }
 
+interface Caller {
+  id: string;
+  email: string;
+  full_name: string | null;
+  created_at: string;
+  roles: Array<{ role: string }>;
+  /** Everything the caller's roles and permission profiles allow */
+  permissions: Permission[];
+  two_factor_enabled: boolean;
+  /** 2FA is required for this user and not enabled yet */
+  two_factor_setup_required: boolean;
+  session_id: string;
+}
+
+// Largest statement accepted by insertTransactions
+const MAX_BATCH_SIZE = 1000;
+
+// Actions that can be called without a session token
+const PUBLIC_ACTIONS = new Set([
+  'login',
+  'signup',
+  'refreshSession',
+  'getInvitation',
+  'requestPasswordReset',
+  'resetPassword',
+  'verifyTwoFactor',
+]);
+
+// The only actions left to a user who has to enable 2FA before anything else
+const TWO_FACTOR_SETUP_ACTIONS = new Set([
+  'getUser',
+  'logout',
+  'changePassword',
+  'getTwoFactorStatus',
+  'startTwoFactorSetup',
+  'confirmTwoFactorSetup',
+]);
+
+// Permission required by each action. Authenticated actions not listed here
+// (getUser, logout, changePassword and the 2FA ones) only need a valid session; insertTransaction,
+// insertTransactions, insertInstallments and insertRecurrence are checked
+// against the transaction type inside the action.
+const ACTION_PERMISSIONS: Record<string, Permission> = {
+  getTransactions: 'view',
+  exportTransactions: 'export',
+  getTransactionTotals: 'view',
+  getCashFlowStats: 'view',
+  getCashFlowProjection: 'view',
+  getCashReport: 'export',
+  updateTransaction: 'edit',
+  settleTransaction: 'edit',
+  cancelInstallments: 'edit',
+  deleteTransaction: 'delete',
+  restoreTransaction: 'delete',
+  getDeletedTransactions: 'manage_trash',
+  purgeTransaction: 'manage_trash',
+  getCategories: 'view',
+  insertCategory: 'manage_categories',
+  updateCategory: 'manage_categories',
+  deleteCategory: 'manage_categories',
+  getAccounts: 'view',
+  insertAccount: 'manage_accounts',
+  updateAccount: 'manage_accounts',
+  deleteAccount: 'manage_accounts',
+  getContacts: 'view',
+  getContactStatement: 'view',
+  insertContact: 'manage_contacts',
+  updateContact: 'manage_contacts',
+  deleteContact: 'manage_contacts',
+  getRecurrences: 'view',
+  updateFutureOccurrences: 'edit',
+  endRecurrence: 'delete',
+  getTransfers: 'view',
+  insertTransfer: 'edit',
+  deleteTransfer: 'delete',
+  getAllUsers: 'manage_users',
+  updateUserRoles: 'manage_users',
+  getPermissionProfiles: 'manage_users',
+  insertPermissionProfile: 'manage_users',
+  updatePermissionProfile: 'manage_users',
+  deletePermissionProfile: 'manage_users',
+  deactivateUser: 'manage_users',
+  reactivateUser: 'manage_users',
+  deleteUser: 'manage_users',
+  forceResetPassword: 'manage_users',
+  resetTwoFactor: 'manage_users',
+  approveUser: 'manage_users',
+  rejectUser: 'manage_users',
+  getAppSettings: 'manage_users',
+  updateAppSettings: 'manage_users',
+  getInvitations: 'manage_users',
+  createInvitation: 'manage_users',
+  revokeInvitation: 'manage_users',
+  getCashSessions: 'view',
+  getCashSession: 'view',
+  openCashSession: 'operate_cash_register',
+  closeCashSession: 'operate_cash_register',
+  getClosedPeriods: 'view',
+  closePeriod: 'close_periods',
+  reopenPeriod: 'close_periods',
+  getAuditLog: 'view_audit',
+  getTransactionHistory: 'view',
+  getAttachments: 'view',
+  getAttachment: 'view',
+  // Checked against the transaction in the action itself
+  uploadAttachment: 'view',
+  deleteAttachment: 'view',
+};
+
+// Loads an active user with their roles and the permissions granted by
+// their roles and permission profiles
+const getUserWithRoles = async (client: Transaction, userId: string) => {
+  const res = await client.queryObject<
+    Omit<Caller, 'session_id' | 'permissions' | 'two_factor_setup_required'> & {
+      profile_permissions: string[];
+      require_two_factor: boolean;
+    }
+  >`
+    SELECT u.id, u.email, u.full_name, u.created_at,
+           u.totp_enabled_at IS NOT NULL as two_factor_enabled,
+           (SELECT require_two_factor FROM app_settings) as require_two_factor,
+           COALESCE(
+             json_agg(json_build_object('role', ur.role)) FILTER (WHERE ur.role IS NOT NULL),
+             '[]'
+           ) as roles,
+           COALESCE((
+             SELECT array_agg(DISTINCT permission)
+             FROM user_permission_profiles upp
+             JOIN permission_profiles pp ON pp.id = upp.profile_id
+             CROSS JOIN unnest(pp.permissions) AS permission
+             WHERE upp.user_id = u.id
+           ), '{}') as profile_permissions
+    FROM users u
+    LEFT JOIN user_roles ur ON u.id = ur.user_id
+    WHERE u.id = ${userId}::uuid
+      AND u.deactivated_at IS NULL
+      AND u.deleted_at IS NULL
+      AND NOT u.pending_approval
+    GROUP BY u.id
+  `;
+  if (res.rows.length === 0) return null;
+
+  const { profile_permissions, require_two_factor, ...user } = res.rows[0];
+  const permissions = getPermissions(user.roles.map((r) => r.role), profile_permissions);
+  return {
+    ...user,
+    permissions: [...permissions],
+    two_factor_setup_required: require_two_factor && !user.two_factor_enabled && isTwoFactorRequired(permissions),
+  };
+};
+
+// Opens a new session for the user and returns its tokens
+const createSession = async (client: Transaction, userId: string): Promise<SessionTokens> => {
+  const refreshToken = generateToken();
+  const refreshTokenHash = await hashToken(refreshToken);
+  const res = await client.queryObject`
+    INSERT INTO sessions (user_id, refresh_token_hash, expires_at)
+    VALUES (
+      ${userId}::uuid,
+      ${refreshTokenHash},
+      NOW() + make_interval(secs => ${REFRESH_TOKEN_TTL_SECONDS})
+    )
+    RETURNING id
+  `;
+  const { id: sessionId } = res.rows[0] as { id: string };
+  const { token, expiresAt } = await signAccessToken(userId, sessionId);
+  return { access_token: token, refresh_token: refreshToken, expires_at: expiresAt };
+};
+
+// Resolves the caller from the bearer token. Returns null when the token is
+// missing, invalid or expired, or when its session has been revoked.
+const resolveCaller = async (client: Transaction, req: Request): Promise<Caller | null> => {
+  const token = getBearerToken(req);
+  if (!token) return null;
+
+  const payload = await verifyAccessToken(token);
+  if (!payload) return null;
+
+  const sessionRes = await client.queryObject`
+    SELECT id FROM sessions
+    WHERE id = ${payload.sid}::uuid
+      AND user_id = ${payload.sub}::uuid
+      AND revoked_at IS NULL
+      AND expires_at > NOW()
+  `;
+  if (sessionRes.rows.length === 0) return null;
+
+  const user = await getUserWithRoles(client, payload.sub);
+  return user ? { ...user, session_id: payload.sid } : null;
+};
+
 serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -44,12 +324,55 @@ serve(async (req: Request) => {
     const body: RequestBody = await req.json();
     const { action } = body;
 
-    console.log(`DB Action: ${action}`, JSON.stringify(body));
+    // Never log credentials or tokens
+    const {
+      password: _password,
+      currentPassword: _currentPassword,
+      refreshToken: _refreshToken,
+      inviteToken: _inviteToken,
+      resetToken: _resetToken,
+      challengeToken: _challengeToken,
+      code: _code,
+      ...loggedBody
+    } = body;
+    console.log(`DB Action: ${action}`, JSON.stringify(loggedBody));
 
-    const pool = getPool();
-    const client = await pool.connect();
+    // Each action runs in one transaction, so its changes and their audit
+    // rows are saved together or not at all
+    const connection = await getPool().connect();
+    const client = connection.createTransaction('db_action');
+    let committed = false;
+    const commit = async () => {
+      if (committed) return;
+      await client.commit();
+      committed = true;
+    };
+    // Side effects outside the database, run only once the changes are saved
+    const afterCommit: Array<() => Promise<void>> = [];
 
     try {
+      await client.begin();
+
+      let caller: Caller | null = null;
+      if (!PUBLIC_ACTIONS.has(action)) {
+        caller = await resolveCaller(client, req);
+        if (!caller) {
+          return new Response(
+            JSON.stringify({ error: 'Session expired or invalid', code: 'session_expired' }),
+            { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (caller.two_factor_setup_required && !TWO_FACTOR_SETUP_ACTIONS.has(action)) {
+          throw new HttpError(403, 'Two-factor authentication must be enabled first', 'two_factor_setup_required');
+        }
+
+        const permission = ACTION_PERMISSIONS[action];
+        if (permission) {
+          requirePermission(caller, permission);
+        }
+      }
+
       let result: unknown;
 
       switch (action) {
@@ -57,15 +380,10 @@ serve(async (req: Request) => {
         case 'login': {
           const { email, password } = body;
           const res = await client.queryObject`
-            SELECT u.id, u.email, u.full_name, u.created_at,
-                   COALESCE(
-                     json_agg(json_build_object('role', ur.role)) FILTER (WHERE ur.role IS NOT NULL),
-                     '[]'
-                   ) as roles
-            FROM users u
-            LEFT JOIN user_roles ur ON u.id = ur.user_id
-            WHERE u.email = ${email} AND u.password_hash = crypt(${password}, u.password_hash)
-            GROUP BY u.id
+            SELECT id, deactivated_at, pending_approval, totp_enabled_at IS NOT NULL AS two_factor_enabled
+            FROM users
+            WHERE lower(email) = ${String(email ?? '').trim().toLowerCase()}
+              AND password_hash = crypt(${password}, password_hash)
           `;
           if (res.rows.length === 0) {
             return new Response(
@@ -73,16 +391,112 @@ serve(async (req: Request) => {
               { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
             );
           }
-          result = res.rows[0];
+          // Only told once the password matched, so it reveals nothing to guessers
+          const { id, deactivated_at, pending_approval, two_factor_enabled } = res.rows[0] as {
+            id: string;
+            deactivated_at: string | null;
+            pending_approval: boolean;
+            two_factor_enabled: boolean;
+          };
+          if (pending_approval) {
+            return new Response(
+              JSON.stringify({ error: 'User pending approval', code: 'user_pending' }),
+              { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+          if (deactivated_at) {
+            return new Response(
+              JSON.stringify({ error: 'User deactivated', code: 'user_deactivated' }),
+              { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+          // The session is only opened by verifyTwoFactor, once the code is checked
+          if (two_factor_enabled) {
+            result = { two_factor_required: true, challenge_token: await createLoginChallenge(client, id) };
+            break;
+          }
+          const user = await getUserWithRoles(client, id);
+          const session = await createSession(client, id);
+          result = { user, session };
+          break;
+        }
+
+        // Second step of a login with 2FA: a code from the authenticator app
+        // or one of the recovery codes
+        case 'verifyTwoFactor': {
+          const challenge = await claimLoginChallenge(client, body.challengeToken);
+          if (!(await verifySecondFactor(client, challenge.user_id, body.code, { allowRecoveryCode: true }))) {
+            // Keep the wrong code counted
+            await commit();
+            throw new HttpError(401, 'Invalid code', 'invalid_code');
+          }
+          await client.queryObject`
+            DELETE FROM two_factor_challenges WHERE id = ${challenge.id}::uuid
+          `;
+
+          const user = await getUserWithRoles(client, challenge.user_id);
+          if (!user) {
+            throw new HttpError(401, 'Login expired, enter your password again', 'challenge_expired');
+          }
+          const session = await createSession(client, user.id);
+          result = { user, session };
+          break;
+        }
+
+        case 'refreshSession': {
+          const { refreshToken } = body;
+          if (!refreshToken) {
+            return new Response(
+              JSON.stringify({ error: 'Missing refresh token', code: 'session_expired' }),
+              { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+
+          // Rotate the refresh token so each one can only be used once
+          const newRefreshToken = generateToken();
+          const res = await client.queryObject`
+            UPDATE sessions
+            SET refresh_token_hash = ${await hashToken(newRefreshToken)},
+                expires_at = NOW() + make_interval(secs => ${REFRESH_TOKEN_TTL_SECONDS}),
+                last_used_at = NOW()
+            WHERE refresh_token_hash = ${await hashToken(refreshToken)}
+              AND revoked_at IS NULL
+              AND expires_at > NOW()
+            RETURNING id, user_id
+          `;
+          if (res.rows.length === 0) {
+            return new Response(
+              JSON.stringify({ error: 'Session expired or invalid', code: 'session_expired' }),
+              { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+
+          const session = res.rows[0] as { id: string; user_id: string };
+          const { token, expiresAt } = await signAccessToken(session.user_id, session.id);
+          result = { access_token: token, refresh_token: newRefreshToken, expires_at: expiresAt } as SessionTokens;
+          break;
+        }
+
+        case 'logout': {
+          await client.queryObject`
+            UPDATE sessions SET revoked_at = NOW() WHERE id = ${caller!.session_id}::uuid
+          `;
+          result = { success: true };
           break;
         }
 
+        // Invited users get the roles chosen by the admin. Otherwise the first
+        // user becomes admin and later ones view only, or wait for approval
+        // when it is required.
         case 'signup': {
-          const { email, password, fullName } = body;
-          
+          const { password, fullName, inviteToken } = body;
+          // Stored lowercased, so the same address cannot sign up twice with
+          // different casing
+          const email = String(body.email ?? '').trim().toLowerCase();
+
           // Check if user already exists
           const existing = await client.queryObject`
-            SELECT id FROM users WHERE email = ${email}
+            SELECT id FROM users WHERE lower(email) = ${email}
           `;
           if (existing.rows.length > 0) {
             return new Response(
@@ -91,82 +505,501 @@ serve(async (req: Request) => {
             );
           }
 
+          let invitation: Invitation | null = null;
+          if (inviteToken) {
+            invitation = await findOpenInvitation(client, inviteToken);
+            if (invitation.email !== email) {
+              throw new HttpError(400, 'This invitation is for another email', 'invitation_email');
+            }
+          }
+
+          const settingsRes = await client.queryObject<{ first_user: boolean; require_signup_approval: boolean }>`
+            SELECT NOT EXISTS (SELECT 1 FROM users) AS first_user, require_signup_approval
+            FROM app_settings
+          `;
+          const { first_user, require_signup_approval } = settingsRes.rows[0];
+          const pending = !invitation && !first_user && require_signup_approval;
+
           // Create user with hashed password
           const userRes = await client.queryObject`
-            INSERT INTO users (email, password_hash, full_name)
-            VALUES (${email}, crypt(${password}, gen_salt('bf')), ${fullName})
+            INSERT INTO users (email, password_hash, full_name, pending_approval)
+            VALUES (${email}, crypt(${password}, gen_salt('bf')), ${fullName}, ${pending})
             RETURNING id, email, full_name, created_at
           `;
           const user = userRes.rows[0] as { id: string };
 
-          // Check if this is the first user - give admin role
-          const countRes = await client.queryObject`SELECT COUNT(*) as count FROM users`;
-          const count = (countRes.rows[0] as { count: number }).count;
-          
-          if (count === 1) {
+          if (invitation) {
+            await claimInvitation(client, invitation.id, user.id);
+            await assignUserAccess(client, user.id, invitation.roles, invitation.profile_ids);
+          } else if (first_user) {
             await client.queryObject`
               INSERT INTO user_roles (user_id, role) VALUES (${user.id}, 'admin')
             `;
-          } else {
+          } else if (!pending) {
             await client.queryObject`
               INSERT INTO user_roles (user_id, role) VALUES (${user.id}, 'view_only')
             `;
           }
 
-          result = user;
+          result = { ...user, pending };
           break;
         }
 
-        case 'getUser': {
-          const { userId } = body;
-          const res = await client.queryObject`
-            SELECT u.id, u.email, u.full_name, u.created_at,
-                   COALESCE(
-                     json_agg(json_build_object('role', ur.role)) FILTER (WHERE ur.role IS NOT NULL),
-                     '[]'
-                   ) as roles
-            FROM users u
-            LEFT JOIN user_roles ur ON u.id = ur.user_id
-            WHERE u.id = ${userId}::uuid
-            GROUP BY u.id
+        // Lets the signup form show who was invited before the account exists
+        case 'getInvitation': {
+          const invitation = await findOpenInvitation(client, body.inviteToken);
+          result = { email: invitation.email, roles: invitation.roles };
+          break;
+        }
+
+        // Answers the same whether or not the email has an account, so it
+        // cannot be used to find out who is registered, nor whether a link
+        // was skipped because one was just sent. The user row is locked so
+        // concurrent requests cannot both send one.
+        case 'requestPasswordReset': {
+          const appUrl = getAppUrl();
+          const res = await client.queryObject<{ id: string; email: string; full_name: string | null }>`
+            SELECT id, email, full_name FROM users
+            WHERE lower(email) = ${String(body.email ?? '').trim().toLowerCase()}
+              AND deactivated_at IS NULL
+              AND deleted_at IS NULL
+              AND NOT pending_approval
+            FOR UPDATE
           `;
-          result = res.rows[0] || null;
+          if (res.rows.length > 0 && !(await hasRecentPasswordReset(client, res.rows[0].id))) {
+            await sendPasswordReset(client, res.rows[0], appUrl, null);
+          }
+          result = { success: true };
           break;
         }
 
-        // Transaction actions
-        case 'getTransactions': {
-          const { userId, orderBy = 'date', orderDirection = 'DESC' } = body;
+        // Sets the password from an emailed link and logs the user out
+        // everywhere. The password is checked first so a weak one does not
+        // use up the link.
+        case 'resetPassword': {
+          const password = parseNewPassword(body.password);
+          const userId = await claimPasswordReset(client, body.resetToken);
+          await client.queryObject`
+            UPDATE users SET password_hash = crypt(${password}, gen_salt('bf'))
+            WHERE id = ${userId}::uuid AND deleted_at IS NULL
+          `;
+          await revokeSessions(client, userId);
+          result = { success: true };
+          break;
+        }
+
+        // Other devices have to log in again with the new password; the
+        // current session stays open
+        case 'changePassword': {
+          const password = parseNewPassword(body.password);
           const res = await client.queryObject`
-            SELECT * FROM transactions 
-            WHERE user_id = ${userId}::uuid
-            ORDER BY date DESC, created_at DESC
+            UPDATE users SET password_hash = crypt(${password}, gen_salt('bf'))
+            WHERE id = ${caller!.id}::uuid
+              AND password_hash = crypt(${body.currentPassword ?? ''}, password_hash)
+            RETURNING id
           `;
-          result = res.rows;
+          if (res.rows.length === 0) {
+            throw new HttpError(400, 'Current password is incorrect', 'wrong_password');
+          }
+          await client.queryObject`
+            UPDATE sessions SET revoked_at = NOW()
+            WHERE user_id = ${caller!.id}::uuid
+              AND id <> ${caller!.session_id}::uuid
+              AND revoked_at IS NULL
+          `;
+          await client.queryObject`
+            DELETE FROM password_resets WHERE user_id = ${caller!.id}::uuid AND used_at IS NULL
+          `;
+          result = { success: true };
+          break;
+        }
+
+        case 'getTwoFactorStatus': {
+          const res = await client.queryObject<{ recovery_codes_left: number }>`
+            SELECT COUNT(*)::int AS recovery_codes_left FROM user_recovery_codes
+            WHERE user_id = ${caller!.id}::uuid AND used_at IS NULL
+          `;
+          const settingsRes = await client.queryObject<{ require_two_factor: boolean }>`
+            SELECT require_two_factor FROM app_settings
+          `;
+          result = {
+            enabled: caller!.two_factor_enabled,
+            required: settingsRes.rows[0].require_two_factor && isTwoFactorRequired(caller!.permissions),
+            recovery_codes_left: res.rows[0].recovery_codes_left,
+          };
+          break;
+        }
+
+        // Generates the secret shown in the QR code. It only takes effect
+        // once confirmTwoFactorSetup gets a code made from it.
+        case 'startTwoFactorSetup': {
+          if (caller!.two_factor_enabled) {
+            throw new HttpError(409, 'Two-factor authentication is already enabled', 'two_factor_enabled');
+          }
+          const secret = generateTotpSecret();
+          await client.queryObject`
+            UPDATE users SET totp_pending_secret = ${secret} WHERE id = ${caller!.id}::uuid
+          `;
+          const otpauthUrl = getOtpAuthUrl(secret, caller!.email);
+          result = { secret, otpauth_url: otpauthUrl, qr_code: await qrcode(otpauthUrl) };
+          break;
+        }
+
+        // Enables 2FA and returns the recovery codes, which are not shown again
+        case 'confirmTwoFactorSetup': {
+          const res = await client.queryObject<{ totp_pending_secret: string | null }>`
+            SELECT totp_pending_secret FROM users WHERE id = ${caller!.id}::uuid
+          `;
+          const secret = res.rows[0]?.totp_pending_secret;
+          if (!secret || caller!.two_factor_enabled) {
+            throw new HttpError(400, 'No two-factor setup in progress', 'invalid_request');
+          }
+          const step = await verifyTotp(secret, String(body.code ?? '').trim());
+          if (step === null) {
+            throw new HttpError(400, 'Invalid code', 'invalid_code');
+          }
+
+          await client.queryObject`
+            UPDATE users
+            SET totp_secret = ${secret}, totp_pending_secret = NULL, totp_enabled_at = NOW(), totp_last_step = ${step}
+            WHERE id = ${caller!.id}::uuid
+          `;
+          const recoveryCodes = await replaceRecoveryCodes(client, caller!.id);
+          await recordAudit(client, caller!.id, 'user', 'update', [{
+            entityId: caller!.id,
+            before: { two_factor: false },
+            after: { two_factor: true },
+          }]);
+          result = { recovery_codes: recoveryCodes };
+          break;
+        }
+
+        // Asks for a code from the app, so a stolen session alone cannot
+        // read new codes
+        case 'regenerateRecoveryCodes': {
+          if (!(await verifySecondFactor(client, caller!.id, body.code, { allowRecoveryCode: false }))) {
+            // Keep the wrong code counted
+            await commit();
+            throw new HttpError(400, 'Invalid code', 'invalid_code');
+          }
+          result = { recovery_codes: await replaceRecoveryCodes(client, caller!.id) };
+          break;
+        }
+
+        case 'disableTwoFactor': {
+          const settingsRes = await client.queryObject<{ require_two_factor: boolean }>`
+            SELECT require_two_factor FROM app_settings
+          `;
+          if (settingsRes.rows[0].require_two_factor && isTwoFactorRequired(caller!.permissions)) {
+            throw new HttpError(403, 'Two-factor authentication is required for your user', 'two_factor_required');
+          }
+          if (!(await verifySecondFactor(client, caller!.id, body.code, { allowRecoveryCode: true }))) {
+            // Keep the wrong code counted
+            await commit();
+            throw new HttpError(400, 'Invalid code', 'invalid_code');
+          }
+
+          await client.queryObject`
+            UPDATE users
+            SET totp_secret = NULL, totp_pending_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL
+            WHERE id = ${caller!.id}::uuid
+          `;
+          await client.queryObject`
+            DELETE FROM user_recovery_codes WHERE user_id = ${caller!.id}::uuid
+          `;
+          await recordAudit(client, caller!.id, 'user', 'update', [{
+            entityId: caller!.id,
+            before: { two_factor: true },
+            after: { two_factor: false },
+          }]);
+          result = { success: true };
+          break;
+        }
+
+        case 'getUser': {
+          const { session_id: _sessionId, ...user } = caller!;
+          result = user;
+          break;
+        }
+
+        // Transaction actions
+        // The ledger is shared: anyone with the view permission sees every
+        // transaction, matching the can_view row level policy.
+        // Returns one page of transactions matching the filters, plus the
+        // cursor for the next page (null on the last one)
+        // exportTransactions pages through the same rows for the CSV and
+        // XLSX exports, which need the export permission
+        case 'getTransactions':
+        case 'exportTransactions': {
+          const { filters = {}, orderBy = 'date', orderDirection = 'DESC', cursor } = body;
+          const direction = orderDirection === 'ASC' ? 'ASC' : 'DESC';
+          const columns = getSortColumns(orderBy);
+          const limit = Math.min(Math.max(Number(body.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+          // Bring recurring series up to date before listing
+          if (!cursor) {
+            await generateOccurrences(client, caller!.id);
+          }
+
+          const values: unknown[] = [];
+          const conditions = buildTransactionFilters(filters, values);
+          if (cursor) {
+            conditions.push(buildCursorCondition(cursor, columns, direction, values));
+          }
+          values.push(limit + 1);
+
+          const res = await client.queryObject<Record<string, unknown>>(
+            `
+              SELECT *, ${getCursorSelect(columns)} FROM transactions
+              ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+              ORDER BY ${columns.map((column) => `${column} ${direction}`).join(', ')}
+              LIMIT $${values.length}
+            `,
+            values
+          );
+          result = takePage(res.rows, columns, limit);
+          break;
+        }
+
+        // Realized totals only count paid entries; forecast totals also
+        // include pending ones. Cancelled entries count for neither.
+        case 'getTransactionTotals': {
+          const { filters = {} } = body;
+          const values: unknown[] = [];
+          const conditions = buildTransactionFilters(filters, values);
+
+          const res = await client.queryObject(
+            `
+              SELECT
+                COUNT(*)::int AS count,
+                COALESCE(SUM(amount) FILTER (WHERE type = 'income' AND status = 'paid'), 0) AS income,
+                COALESCE(SUM(amount) FILTER (WHERE type = 'expense' AND status = 'paid'), 0) AS expense,
+                COALESCE(SUM(amount) FILTER (WHERE type = 'income' AND status <> 'cancelled'), 0) AS forecast_income,
+                COALESCE(SUM(amount) FILTER (WHERE type = 'expense' AND status <> 'cancelled'), 0) AS forecast_expense
+              FROM transactions
+              ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+            `,
+            values
+          );
+          result = res.rows[0];
+          break;
+        }
+
+        case 'getCashFlowStats': {
+          const { filters = {} } = body;
+          result = await getCashFlowStats(client, filters);
+          break;
+        }
+
+        case 'getCashFlowProjection': {
+          result = await getCashFlowProjection(client, caller!.id, Number(body.days));
+          break;
+        }
+
+        case 'getCashReport': {
+          const { filters = {} } = body;
+          result = await getCashReport(client, filters);
           break;
         }
 
         case 'insertTransaction': {
           const { data } = body;
+          if (data!.type !== 'income' && data!.type !== 'expense') {
+            throw new HttpError(400, 'Invalid transaction type', 'invalid_request');
+          }
+          requirePermission(caller!, data!.type === 'income' ? 'insert_income' : 'insert_expense');
+          await assertCategoryMatchesType(client, data!.category_id as string | null, data!.type);
+          await assertActiveAccount(client, data!.account_id);
+          await assertContact(client, data!.contact_id);
+          await assertOpenPeriod(client, [data!.date]);
+
+          // Entries are settled on their date unless they are recorded as pending
+          const status = (data!.status as string) || 'paid';
+          if (!TRANSACTION_STATUSES.includes(status)) {
+            throw new HttpError(400, 'Invalid transaction status', 'invalid_request');
+          }
+          const dueDate = data!.due_date || data!.date;
+          const paidAt = status === 'paid' ? data!.paid_at || data!.date : null;
+
           const res = await client.queryObject`
-            INSERT INTO transactions (user_id, date, type, client_supplier, amount, description, payment_method)
+            INSERT INTO transactions (
+              user_id, date, type, client_supplier, amount, description, payment_method,
+              category_id, account_id, contact_id, status, due_date, paid_at
+            )
             VALUES (
-              ${data!.user_id}::uuid,
+              ${caller!.id}::uuid,
               ${data!.date},
               ${data!.type},
               ${data!.client_supplier},
               ${data!.amount},
               ${data!.description},
-              ${data!.payment_method}
+              ${data!.payment_method},
+              ${data!.category_id || null}::uuid,
+              ${data!.account_id}::uuid,
+              ${data!.contact_id || null}::uuid,
+              ${status},
+              ${dueDate},
+              ${paidAt}
             )
             RETURNING *
           `;
+          await recordAudit(client, caller!.id, 'transaction', 'insert', insertedRows(res.rows as Record<string, unknown>[]));
+          await syncCashSessions(client, res.rows.map((row) => (row as { id: string }).id), { link: true });
           result = res.rows[0];
           break;
         }
 
+        // Batch insert used by the bank statement import. Every row is
+        // validated before anything is written, and all rows go in a single
+        // statement so an import is never left half done.
+        case 'insertTransactions': {
+          const { rows } = body;
+          if (!Array.isArray(rows) || rows.length === 0) {
+            throw new HttpError(400, 'No transactions to insert', 'invalid_request');
+          }
+          if (rows.length > MAX_BATCH_SIZE) {
+            throw new HttpError(400, `At most ${MAX_BATCH_SIZE} transactions can be imported at once`, 'invalid_request');
+          }
+
+          const checkedAccounts = new Set<unknown>();
+          for (const row of rows) {
+            if (row.type !== 'income' && row.type !== 'expense') {
+              throw new HttpError(400, 'Invalid transaction type', 'invalid_request');
+            }
+            requirePermission(caller!, row.type === 'income' ? 'insert_income' : 'insert_expense');
+            if (!(Number(row.amount) > 0)) {
+              throw new HttpError(400, 'Amount must be positive', 'invalid_request');
+            }
+            await assertCategoryMatchesType(client, row.category_id as string | null, row.type);
+            if (!checkedAccounts.has(row.account_id)) {
+              await assertActiveAccount(client, row.account_id);
+              checkedAccounts.add(row.account_id);
+            }
+          }
+          await assertOpenPeriod(client, rows.map((row) => row.date));
+
+          // Imported statement lines are already settled on their date
+          const valueRows: string[] = [];
+          const values: unknown[] = [];
+          rows.forEach((row) => {
+            const offset = values.length;
+            values.push(
+              caller!.id, row.date, row.type, row.client_supplier, row.amount,
+              row.description, row.payment_method, row.category_id || null, row.account_id,
+            );
+            const p = (i: number, cast = '') => `$${offset + i}${cast}`;
+            valueRows.push(
+              `(${p(1, '::uuid')}, ${p(2)}, ${p(3)}, ${p(4)}, ${p(5)}, ${p(6)}, ${p(7)}, ${p(8, '::uuid')}, ` +
+              `${p(9, '::uuid')}, 'paid', ${p(2)}, ${p(2)})`
+            );
+          });
+
+          const res = await client.queryObject(
+            `
+              INSERT INTO transactions (
+                user_id, date, type, client_supplier, amount, description, payment_method,
+                category_id, account_id, status, due_date, paid_at
+              )
+              VALUES ${valueRows.join(', ')}
+              RETURNING *
+            `,
+            values
+          );
+          await recordAudit(client, caller!.id, 'transaction', 'insert', insertedRows(res.rows as Record<string, unknown>[]));
+          await syncCashSessions(client, res.rows.map((row) => (row as { id: string }).id), { link: true });
+          result = res.rows;
+          break;
+        }
+
+        // Splits a credit card purchase into monthly pending installments
+        case 'insertInstallments': {
+          const { data } = body;
+          if (data!.type !== 'income' && data!.type !== 'expense') {
+            throw new HttpError(400, 'Invalid transaction type', 'invalid_request');
+          }
+          requirePermission(caller!, data!.type === 'income' ? 'insert_income' : 'insert_expense');
+          if (data!.payment_method !== 'cartao_credito') {
+            throw new HttpError(400, 'Installments require a credit card payment', 'invalid_request');
+          }
+          const installmentCount = Number(data!.installment_count);
+          if (!Number.isInteger(installmentCount) || installmentCount < 2 || installmentCount > MAX_INSTALLMENTS) {
+            throw new HttpError(400, `Installment count must be between 2 and ${MAX_INSTALLMENTS}`, 'invalid_request');
+          }
+          const amount = Number(data!.amount);
+          if (!(amount > 0) || Math.round(amount * 100) < installmentCount) {
+            throw new HttpError(400, 'Amount is too small for this many installments', 'invalid_request');
+          }
+          await assertCategoryMatchesType(client, data!.category_id as string | null, data!.type);
+          await assertActiveAccount(client, data!.account_id);
+          await assertContact(client, data!.contact_id);
+          await assertOpenPeriod(client, [data!.date]);
+
+          const groupId = crypto.randomUUID();
+          const installments = splitInstallments(amount, installmentCount, (data!.due_date || data!.date) as string);
+
+          // One multi-row insert so a purchase is never left half split
+          const rows: string[] = [];
+          const values: unknown[] = [];
+          installments.forEach((installment) => {
+            const params = [
+              caller!.id, data!.date, data!.type, data!.client_supplier, installment.amount,
+              data!.description, data!.payment_method, data!.category_id || null, data!.account_id,
+              installment.dueDate, groupId, installment.number, installmentCount, data!.contact_id || null,
+            ];
+            const offset = values.length;
+            values.push(...params);
+            const p = (i: number, cast = '') => `$${offset + i}${cast}`;
+            rows.push(
+              `(${p(1, '::uuid')}, ${p(2)}, ${p(3)}, ${p(4)}, ${p(5)}, ${p(6)}, ${p(7)}, ${p(8, '::uuid')}, ` +
+              `${p(9, '::uuid')}, 'pending', ${p(10)}, ${p(11, '::uuid')}, ${p(12)}, ${p(13)}, ${p(14, '::uuid')})`
+            );
+          });
+
+          const res = await client.queryObject(
+            `
+              INSERT INTO transactions (
+                user_id, date, type, client_supplier, amount, description, payment_method,
+                category_id, account_id, status, due_date,
+                installment_group_id, installment_number, installment_count, contact_id
+              )
+              VALUES ${rows.join(', ')}
+              RETURNING *
+            `,
+            values
+          );
+          await recordAudit(client, caller!.id, 'transaction', 'insert', insertedRows(res.rows as Record<string, unknown>[]));
+          result = res.rows;
+          break;
+        }
+
         case 'updateTransaction': {
           const { id, data } = body;
+          const current = await client.queryObject<{
+            type: string;
+            category_id: string | null;
+            account_id: string;
+            date: Date;
+          }>`
+            SELECT * FROM transactions WHERE id = ${id}::uuid AND deleted_at IS NULL
+          `;
+          if (current.rows.length === 0) {
+            throw new HttpError(404, 'Transaction not found', 'not_found');
+          }
+          // Changing either one alone must still leave a matching pair
+          if (data!.type !== undefined || data!.category_id !== undefined) {
+            const type = (data!.type as string | undefined) ?? current.rows[0].type;
+            const categoryId = data!.category_id !== undefined ? data!.category_id : current.rows[0].category_id;
+            await assertCategoryMatchesType(client, categoryId as string | null, type);
+          }
+          // Entries already in an archived account can still be edited; only
+          // moving an entry into one is refused
+          if (data!.account_id !== undefined && data!.account_id !== current.rows[0].account_id) {
+            await assertActiveAccount(client, data!.account_id);
+          }
+          await assertContact(client, data!.contact_id);
+          // Neither the current nor the new date may be in a closed month
+          await assertOpenPeriod(client, [current.rows[0].date, data!.date]);
+
           const setClauses: string[] = [];
           const values: unknown[] = [];
           
@@ -194,78 +1027,1421 @@ serve(async (req: Request) => {
             values.push(data!.payment_method);
             setClauses.push(`payment_method = $${values.length}`);
           }
+          if (data!.category_id !== undefined) {
+            values.push(data!.category_id);
+            setClauses.push(`category_id = $${values.length}::uuid`);
+          }
+          if (data!.account_id !== undefined) {
+            values.push(data!.account_id);
+            setClauses.push(`account_id = $${values.length}::uuid`);
+          }
+          if (data!.contact_id !== undefined) {
+            values.push(data!.contact_id || null);
+            setClauses.push(`contact_id = $${values.length}::uuid`);
+          }
+          if (data!.due_date !== undefined) {
+            values.push(data!.due_date);
+            setClauses.push(`due_date = $${values.length}`);
+          }
+          if (data!.status !== undefined) {
+            if (!TRANSACTION_STATUSES.includes(data!.status as string)) {
+              throw new HttpError(400, 'Invalid transaction status', 'invalid_request');
+            }
+            values.push(data!.status);
+            setClauses.push(`status = $${values.length}`);
+            if (data!.status === 'paid') {
+              values.push(data!.paid_at || null);
+              setClauses.push(`paid_at = COALESCE($${values.length}::date, paid_at, CURRENT_DATE)`);
+            } else {
+              setClauses.push('paid_at = NULL');
+            }
+          }
+          if (setClauses.length === 0) {
+            throw new HttpError(400, 'Nothing to update', 'invalid_request');
+          }
           
           values.push(id);
           const query = `
             UPDATE transactions 
             SET ${setClauses.join(', ')}, updated_at = NOW()
-            WHERE id = $${values.length}::uuid
+            WHERE id = $${values.length}::uuid AND deleted_at IS NULL
             RETURNING *
           `;
           
           const res = await client.queryObject(query, values);
+          await recordAudit(
+            client,
+            caller!.id,
+            'transaction',
+            'update',
+            pairUpdatedRows(current.rows, res.rows as Record<string, unknown>[])
+          );
+          await syncCashSessions(client, [id], { link: false });
           result = res.rows[0];
           break;
         }
 
-        case 'deleteTransaction': {
-          const { id } = body;
-          await client.queryObject`
-            DELETE FROM transactions WHERE id = ${id}::uuid
+        // Marks a pending entry as paid (or received) on the given date
+        case 'settleTransaction': {
+          const { id, data } = body;
+          const before = await client.queryObject<Record<string, unknown>>`
+            SELECT * FROM transactions WHERE id = ${id}::uuid
           `;
-          result = { success: true };
+          await assertOpenPeriod(client, before.rows.map((row) => row.date));
+          const res = await client.queryObject<Record<string, unknown>>`
+            UPDATE transactions
+            SET status = 'paid',
+                paid_at = COALESCE(${data?.paid_at || null}::date, CURRENT_DATE),
+                updated_at = NOW()
+            WHERE id = ${id}::uuid AND status = 'pending' AND deleted_at IS NULL
+            RETURNING *
+          `;
+          if (res.rows.length === 0) {
+            throw new HttpError(409, 'Transaction is not pending', 'not_pending');
+          }
+          await recordAudit(client, caller!.id, 'transaction', 'update', pairUpdatedRows(before.rows, res.rows));
+          // Cash received or paid now goes into the open session
+          await syncCashSessions(client, [id], { link: true });
+          result = res.rows[0];
           break;
         }
 
-        // User management actions
-        case 'getAllUsers': {
-          const res = await client.queryObject`
-            SELECT u.id, u.email, u.full_name, u.created_at,
-                   COALESCE(
-                     json_agg(json_build_object('id', ur.id, 'role', ur.role)) FILTER (WHERE ur.role IS NOT NULL),
-                     '[]'
-                   ) as roles
-            FROM users u
-            LEFT JOIN user_roles ur ON u.id = ur.user_id
-            GROUP BY u.id
-            ORDER BY u.created_at DESC
+        // Cancels this installment and every pending one after it in the group
+        case 'cancelInstallments': {
+          const { id } = body;
+          const current = await client.queryObject<{ installment_group_id: string | null; installment_number: number }>`
+            SELECT installment_group_id, installment_number FROM transactions
+            WHERE id = ${id}::uuid AND deleted_at IS NULL
+          `;
+          const installment = current.rows[0];
+          if (!installment?.installment_group_id) {
+            throw new HttpError(400, 'Transaction is not an installment', 'invalid_request');
+          }
+
+          const before = await client.queryObject<Record<string, unknown>>`
+            SELECT * FROM transactions
+            WHERE installment_group_id = ${installment.installment_group_id}::uuid
+              AND installment_number >= ${installment.installment_number}
+              AND status = 'pending'
+              AND deleted_at IS NULL
+          `;
+          await assertOpenPeriod(client, before.rows.map((row) => row.date));
+          const res = await client.queryObject<Record<string, unknown>>`
+            UPDATE transactions
+            SET status = 'cancelled', updated_at = NOW()
+            WHERE installment_group_id = ${installment.installment_group_id}::uuid
+              AND installment_number >= ${installment.installment_number}
+              AND status = 'pending'
+              AND deleted_at IS NULL
+            RETURNING *
           `;
+          await recordAudit(client, caller!.id, 'transaction', 'update', pairUpdatedRows(before.rows, res.rows));
           result = res.rows;
           break;
         }
 
-        case 'updateUserRole': {
-          const { userId, data } = body;
-          const { role } = data as { role: string };
-          
-          // Remove existing roles and add new one
-          await client.queryObject`
-            DELETE FROM user_roles WHERE user_id = ${userId}::uuid
-          `;
-          await client.queryObject`
-            INSERT INTO user_roles (user_id, role) VALUES (${userId}::uuid, ${role})
+        // Recurrence actions
+        case 'getRecurrences': {
+          const res = await client.queryObject`
+            SELECT * FROM recurrences
+            ORDER BY created_at DESC
           `;
-          result = { success: true };
+          result = res.rows;
           break;
         }
 
-        default:
+        // Creates a recurrence rule and materializes its upcoming occurrences
+        case 'insertRecurrence': {
+          const { data } = body;
+          if (data!.type !== 'income' && data!.type !== 'expense') {
+            throw new HttpError(400, 'Invalid transaction type', 'invalid_request');
+          }
+          requirePermission(caller!, data!.type === 'income' ? 'insert_income' : 'insert_expense');
+          if (!RECURRENCE_FREQUENCIES.includes(data!.frequency as RecurrenceFrequency)) {
+            throw new HttpError(400, 'Invalid recurrence frequency', 'invalid_request');
+          }
+          const interval = Number(data!.interval ?? 1);
+          if (!Number.isInteger(interval) || interval < 1) {
+            throw new HttpError(400, 'Interval must be a positive integer', 'invalid_request');
+          }
+          const occurrenceCount = data!.occurrence_count == null ? null : Number(data!.occurrence_count);
+          if (occurrenceCount !== null && (!Number.isInteger(occurrenceCount) || occurrenceCount < 1)) {
+            throw new HttpError(400, 'Occurrence count must be a positive integer', 'invalid_request');
+          }
+          await assertCategoryMatchesType(client, data!.category_id as string | null, data!.type);
+          await assertActiveAccount(client, data!.account_id);
+          await assertContact(client, data!.contact_id);
+          await assertOpenPeriod(client, [data!.start_date]);
+
+          const res = await client.queryObject<{ id: string }>`
+            INSERT INTO recurrences (
+              user_id, frequency, "interval", start_date, end_date, occurrence_count,
+              type, client_supplier, amount, description, payment_method, category_id, account_id, contact_id
+            )
+            VALUES (
+              ${caller!.id}::uuid,
+              ${data!.frequency},
+              ${interval},
+              ${data!.start_date},
+              ${data!.end_date || null}::date,
+              ${occurrenceCount},
+              ${data!.type},
+              ${data!.client_supplier},
+              ${data!.amount},
+              ${data!.description},
+              ${data!.payment_method},
+              ${data!.category_id || null}::uuid,
+              ${data!.account_id}::uuid,
+              ${data!.contact_id || null}::uuid
+            )
+            RETURNING *
+          `;
+          const recurrence = res.rows[0];
+          const generated = await generateOccurrences(client, caller!.id, recurrence.id);
+          result = { recurrence, generated };
+          break;
+        }
+
+        // Applies changes to this occurrence, every pending occurrence after it
+        // and to the template used for occurrences not generated yet. Earlier
+        // occurrences are left untouched.
+        case 'updateFutureOccurrences': {
+          const { id, data } = body;
+          const current = await client.queryObject<{ recurrence_id: string | null; recurrence_index: number; type: string }>`
+            SELECT recurrence_id, recurrence_index, type FROM transactions
+            WHERE id = ${id}::uuid AND deleted_at IS NULL
+          `;
+          const occurrence = current.rows[0];
+          if (!occurrence?.recurrence_id) {
+            throw new HttpError(400, 'Transaction is not part of a recurrence', 'invalid_request');
+          }
+          await assertCategoryMatchesType(client, data!.category_id as string | null, occurrence.type);
+          if (data!.account_id !== undefined) {
+            await assertActiveAccount(client, data!.account_id);
+          }
+          await assertContact(client, data!.contact_id);
+
+          const setClauses: string[] = [];
+          const values: unknown[] = [];
+          const templateFields = [
+            'client_supplier', 'amount', 'description', 'payment_method', 'category_id', 'account_id', 'contact_id',
+          ];
+
+          templateFields.forEach((field) => {
+            if (data![field] !== undefined) {
+              values.push(data![field]);
+              const cast = field.endsWith('_id') ? '::uuid' : '';
+              setClauses.push(`${field} = $${values.length}${cast}`);
+            }
+          });
+          if (setClauses.length === 0) {
+            throw new HttpError(400, 'Nothing to update', 'invalid_request');
+          }
+
+          const before = await client.queryObject<Record<string, unknown>>`
+            SELECT * FROM transactions
+            WHERE recurrence_id = ${occurrence.recurrence_id}::uuid
+              AND recurrence_index >= ${occurrence.recurrence_index}
+              AND (status = 'pending' OR id = ${id}::uuid)
+              AND deleted_at IS NULL
+          `;
+          await assertOpenPeriod(client, before.rows.map((row) => row.date));
+
+          values.push(occurrence.recurrence_id);
+          await client.queryObject(
+            `UPDATE recurrences SET ${setClauses.join(', ')}, updated_at = NOW() WHERE id = $${values.length}::uuid`,
+            values
+          );
+
+          values.push(occurrence.recurrence_index, id);
+          const res = await client.queryObject<Record<string, unknown>>(
+            `
+              UPDATE transactions
+              SET ${setClauses.join(', ')}, updated_at = NOW()
+              WHERE recurrence_id = $${values.length - 2}::uuid
+                AND recurrence_index >= $${values.length - 1}
+                AND (status = 'pending' OR id = $${values.length}::uuid)
+                AND deleted_at IS NULL
+              RETURNING *
+            `,
+            values
+          );
+          await recordAudit(client, caller!.id, 'transaction', 'update', pairUpdatedRows(before.rows, res.rows));
+          result = res.rows;
+          break;
+        }
+
+        // Stops a series at the given occurrence: it and every later pending
+        // occurrence are moved to the trash and no new ones are generated.
+        case 'endRecurrence': {
+          const { id } = body;
+          const current = await client.queryObject<{ recurrence_id: string | null; recurrence_index: number }>`
+            SELECT recurrence_id, recurrence_index FROM transactions
+            WHERE id = ${id}::uuid AND deleted_at IS NULL
+          `;
+          const occurrence = current.rows[0];
+          if (!occurrence?.recurrence_id) {
+            throw new HttpError(400, 'Transaction is not part of a recurrence', 'invalid_request');
+          }
+          const affected = await client.queryObject<{ date: Date }>`
+            SELECT date FROM transactions
+            WHERE recurrence_id = ${occurrence.recurrence_id}::uuid
+              AND recurrence_index >= ${occurrence.recurrence_index}
+              AND status = 'pending'
+              AND deleted_at IS NULL
+          `;
+          await assertOpenPeriod(client, affected.rows.map((row) => row.date));
+
+          await client.queryObject`
+            UPDATE recurrences SET active = false, updated_at = NOW()
+            WHERE id = ${occurrence.recurrence_id}::uuid
+          `;
+          const res = await client.queryObject<Record<string, unknown>>`
+            UPDATE transactions
+            SET deleted_at = NOW(), deleted_by = ${caller!.id}::uuid
+            WHERE recurrence_id = ${occurrence.recurrence_id}::uuid
+              AND recurrence_index >= ${occurrence.recurrence_index}
+              AND status = 'pending'
+              AND deleted_at IS NULL
+            RETURNING *
+          `;
+          await recordAudit(client, caller!.id, 'transaction', 'delete', deletedRows(res.rows));
+          result = { deleted: res.rows.map((r) => r.id as string) };
+          break;
+        }
+
+        // Moves an entry to the trash; it can be restored until it is purged
+        case 'deleteTransaction': {
+          const { id } = body;
+          const current = await client.queryObject<{ date: Date }>`
+            SELECT date FROM transactions WHERE id = ${id}::uuid AND deleted_at IS NULL
+          `;
+          await assertOpenPeriod(client, current.rows.map((row) => row.date));
+          const res = await client.queryObject<Record<string, unknown>>`
+            UPDATE transactions
+            SET deleted_at = NOW(), deleted_by = ${caller!.id}::uuid
+            WHERE id = ${id}::uuid AND deleted_at IS NULL
+            RETURNING *
+          `;
+          if (res.rows.length === 0) {
+            throw new HttpError(404, 'Transaction not found', 'not_found');
+          }
+          await recordAudit(client, caller!.id, 'transaction', 'delete', deletedRows(res.rows));
+          result = { success: true };
+          break;
+        }
+
+        // Brings an entry back from the trash. Anyone who can delete can undo
+        // a deletion; browsing the trash is left to admins.
+        case 'restoreTransaction': {
+          const { id } = body;
+          const current = await client.queryObject<{ date: Date }>`
+            SELECT date FROM transactions WHERE id = ${id}::uuid AND deleted_at IS NOT NULL
+          `;
+          await assertOpenPeriod(client, current.rows.map((row) => row.date));
+          const res = await client.queryObject<Record<string, unknown>>`
+            UPDATE transactions
+            SET deleted_at = NULL, deleted_by = NULL, updated_at = NOW()
+            WHERE id = ${id}::uuid AND deleted_at IS NOT NULL
+            RETURNING *
+          `;
+          if (res.rows.length === 0) {
+            throw new HttpError(404, 'Transaction is not in the trash', 'not_found');
+          }
+          await recordAudit(client, caller!.id, 'transaction', 'restore', insertedRows(res.rows));
+          await syncCashSessions(client, [id], { link: false });
+          result = res.rows[0];
+          break;
+        }
+
+        case 'getDeletedTransactions': {
+          const res = await client.queryObject`
+            SELECT t.*, u.email AS deleted_by_email, u.full_name AS deleted_by_name
+            FROM transactions t
+            LEFT JOIN users u ON u.id = t.deleted_by
+            WHERE t.deleted_at IS NOT NULL
+            ORDER BY t.deleted_at DESC, t.id
+          `;
+          result = res.rows;
+          break;
+        }
+
+        // Removes an entry from the trash for good
+        case 'purgeTransaction': {
+          const { id } = body;
+          // Attachment rows go with the transaction; their files are removed after
+          const files = await client.queryObject<{ storage_key: string }>`
+            SELECT storage_key FROM attachments WHERE transaction_id = ${id}::uuid
+          `;
+          const res = await client.queryObject<Record<string, unknown>>`
+            DELETE FROM transactions
+            WHERE id = ${id}::uuid AND deleted_at IS NOT NULL
+            RETURNING *
+          `;
+          if (res.rows.length === 0) {
+            throw new HttpError(404, 'Transaction is not in the trash', 'not_found');
+          }
+          await recordAudit(client, caller!.id, 'transaction', 'purge', deletedRows(res.rows));
+          const storage = getAttachmentStorage();
+          for (const file of files.rows) {
+            afterCommit.push(() => storage.delete(file.storage_key));
+          }
+          result = { success: true };
+          break;
+        }
+
+        // Category actions
+        case 'getCategories': {
+          const res = await client.queryObject`
+            SELECT * FROM categories
+            ORDER BY type, name
+          `;
+          result = res.rows;
+          break;
+        }
+
+        case 'insertCategory': {
+          const { data } = body;
+          const name = String(data!.name ?? '').trim();
+          if (!name) {
+            throw new HttpError(400, 'Category name is required', 'invalid_request');
+          }
+          if (data!.type !== 'income' && data!.type !== 'expense') {
+            throw new HttpError(400, 'Invalid category type', 'invalid_request');
+          }
+          await assertValidParent(client, data!.type, data!.parent_id as string | null);
+
+          const res = await client.queryObject`
+            INSERT INTO categories (name, type, parent_id)
+            VALUES (${name}, ${data!.type}, ${data!.parent_id || null}::uuid)
+            RETURNING *
+          `;
+          result = res.rows[0];
+          break;
+        }
+
+        // The type of a category is fixed; only its name and parent can change
+        case 'updateCategory': {
+          const { id, data } = body;
+          const current = await client.queryObject<{ type: string }>`
+            SELECT type FROM categories WHERE id = ${id}::uuid
+          `;
+          if (current.rows.length === 0) {
+            throw new HttpError(404, 'Category not found', 'not_found');
+          }
+          await assertValidParent(client, current.rows[0].type, data!.parent_id as string | null, id);
+
+          const setClauses: string[] = [];
+          const values: unknown[] = [];
+
+          if (data!.name !== undefined) {
+            const name = String(data!.name).trim();
+            if (!name) {
+              throw new HttpError(400, 'Category name is required', 'invalid_request');
+            }
+            values.push(name);
+            setClauses.push(`name = $${values.length}`);
+          }
+          if (data!.parent_id !== undefined) {
+            values.push(data!.parent_id || null);
+            setClauses.push(`parent_id = $${values.length}::uuid`);
+          }
+
+          values.push(id);
+          const query = `
+            UPDATE categories
+            SET ${setClauses.join(', ')}, updated_at = NOW()
+            WHERE id = $${values.length}::uuid
+            RETURNING *
+          `;
+
+          const res = await client.queryObject(query, values);
+          result = res.rows[0];
+          break;
+        }
+
+        // Transactions keep their data and simply lose the category
+        case 'deleteCategory': {
+          const { id } = body;
+          const children = await client.queryObject`
+            SELECT 1 FROM categories WHERE parent_id = ${id}::uuid LIMIT 1
+          `;
+          if (children.rows.length > 0) {
+            throw new HttpError(409, 'Category has subcategories', 'category_has_children');
+          }
+          await client.queryObject`
+            DELETE FROM categories WHERE id = ${id}::uuid
+          `;
+          result = { success: true };
+          break;
+        }
+
+        // Account actions
+        // The balance of an account is its opening balance plus paid income,
+        // minus paid expenses, plus incoming and minus outgoing transfers.
+        case 'getAccounts': {
+          const res = await client.queryObject`
+            SELECT a.*,
+                   a.opening_balance
+                   + COALESCE((
+                       SELECT SUM(CASE WHEN t.type = 'income' THEN t.amount ELSE -t.amount END)
+                       FROM transactions t
+                       WHERE t.account_id = a.id AND t.status = 'paid' AND t.deleted_at IS NULL
+                     ), 0)
+                   + COALESCE((SELECT SUM(tr.amount) FROM transfers tr WHERE tr.to_account_id = a.id), 0)
+                   - COALESCE((SELECT SUM(tr.amount) FROM transfers tr WHERE tr.from_account_id = a.id), 0)
+                   AS balance
+            FROM accounts a
+            ORDER BY a.archived_at NULLS FIRST, a.created_at
+          `;
+          result = res.rows;
+          break;
+        }
+
+        case 'insertAccount': {
+          const { data } = body;
+          const name = String(data!.name ?? '').trim();
+          if (!name) {
+            throw new HttpError(400, 'Account name is required', 'invalid_request');
+          }
+          if (!ACCOUNT_KINDS.includes(data!.kind as string)) {
+            throw new HttpError(400, 'Invalid account kind', 'invalid_request');
+          }
+
+          const res = await client.queryObject`
+            INSERT INTO accounts (name, kind, opening_balance)
+            VALUES (${name}, ${data!.kind}, ${data!.opening_balance ?? 0})
+            RETURNING *, opening_balance AS balance
+          `;
+          result = res.rows[0];
+          break;
+        }
+
+        // Accounts with entries are archived rather than deleted
+        case 'updateAccount': {
+          const { id, data } = body;
+          const setClauses: string[] = [];
+          const values: unknown[] = [];
+
+          if (data!.name !== undefined) {
+            const name = String(data!.name).trim();
+            if (!name) {
+              throw new HttpError(400, 'Account name is required', 'invalid_request');
+            }
+            values.push(name);
+            setClauses.push(`name = $${values.length}`);
+          }
+          if (data!.kind !== undefined) {
+            if (!ACCOUNT_KINDS.includes(data!.kind as string)) {
+              throw new HttpError(400, 'Invalid account kind', 'invalid_request');
+            }
+            values.push(data!.kind);
+            setClauses.push(`kind = $${values.length}`);
+          }
+          if (data!.opening_balance !== undefined) {
+            values.push(data!.opening_balance);
+            setClauses.push(`opening_balance = $${values.length}`);
+          }
+          if (data!.archived !== undefined) {
+            setClauses.push(data!.archived ? 'archived_at = NOW()' : 'archived_at = NULL');
+          }
+
+          values.push(id);
+          const query = `
+            UPDATE accounts
+            SET ${setClauses.join(', ')}, updated_at = NOW()
+            WHERE id = $${values.length}::uuid
+            RETURNING *
+          `;
+
+          const res = await client.queryObject(query, values);
+          result = res.rows[0];
+          break;
+        }
+
+        case 'deleteAccount': {
+          const { id } = body;
+          const usage = await client.queryObject`
+            SELECT 1 FROM transactions WHERE account_id = ${id}::uuid
+            UNION ALL
+            SELECT 1 FROM transfers WHERE from_account_id = ${id}::uuid OR to_account_id = ${id}::uuid
+            UNION ALL
+            SELECT 1 FROM cash_sessions WHERE account_id = ${id}::uuid
+            LIMIT 1
+          `;
+          if (usage.rows.length > 0) {
+            throw new HttpError(409, 'Account has entries', 'account_in_use');
+          }
+          await client.queryObject`
+            DELETE FROM accounts WHERE id = ${id}::uuid
+          `;
+          result = { success: true };
+          break;
+        }
+
+        // Contact actions
+        case 'getContacts': {
+          const res = await client.queryObject`
+            SELECT c.*,
+                   COUNT(t.id)::int AS transaction_count,
+                   COALESCE(SUM(CASE WHEN t.type = 'income' THEN t.amount ELSE -t.amount END)
+                     FILTER (WHERE t.status = 'paid'), 0) AS balance
+            FROM contacts c
+            LEFT JOIN transactions t ON t.contact_id = c.id AND t.deleted_at IS NULL
+            GROUP BY c.id
+            ORDER BY lower(c.name)
+          `;
+          result = res.rows;
+          break;
+        }
+
+        // Every entry linked to the contact, newest first, with its totals.
+        // The balance is what the contact paid in minus what was paid to it.
+        case 'getContactStatement': {
+          const { id } = body;
+          const contact = await client.queryObject`
+            SELECT * FROM contacts WHERE id = ${id}::uuid
+          `;
+          if (contact.rows.length === 0) {
+            throw new HttpError(404, 'Contact not found', 'not_found');
+          }
+
+          const transactions = await client.queryObject`
+            SELECT * FROM transactions
+            WHERE contact_id = ${id}::uuid AND deleted_at IS NULL
+            ORDER BY date DESC, created_at DESC
+          `;
+          const totals = await client.queryObject`
+            SELECT
+              COALESCE(SUM(amount) FILTER (WHERE type = 'income' AND status = 'paid'), 0) AS income,
+              COALESCE(SUM(amount) FILTER (WHERE type = 'expense' AND status = 'paid'), 0) AS expense,
+              COALESCE(SUM(amount) FILTER (WHERE type = 'income' AND status = 'pending'), 0) AS pending_income,
+              COALESCE(SUM(amount) FILTER (WHERE type = 'expense' AND status = 'pending'), 0) AS pending_expense
+            FROM transactions
+            WHERE contact_id = ${id}::uuid AND deleted_at IS NULL
+          `;
+          result = { contact: contact.rows[0], transactions: transactions.rows, totals: totals.rows[0] };
+          break;
+        }
+
+        case 'insertContact': {
+          const fields = parseContactFields(body.data ?? {}, true);
+          await assertUniqueDocument(client, fields.document);
+
+          const columns = [...Object.keys(fields), 'created_by'];
+          const values = [...Object.values(fields), caller!.id];
+          const res = await client.queryObject(
+            `
+              INSERT INTO contacts (${columns.join(', ')})
+              VALUES (${columns.map((column, i) => `$${i + 1}${column === 'created_by' ? '::uuid' : ''}`).join(', ')})
+              RETURNING *, 0 AS transaction_count, 0 AS balance
+            `,
+            values
+          ).catch((error) => {
+            throw mapDocumentConflict(error);
+          });
+          result = res.rows[0];
+          break;
+        }
+
+        case 'updateContact': {
+          const { id } = body;
+          const fields = parseContactFields(body.data ?? {}, false);
+          if (Object.keys(fields).length === 0) {
+            throw new HttpError(400, 'Nothing to update', 'invalid_request');
+          }
+          await assertUniqueDocument(client, fields.document, id);
+
+          const values = Object.values(fields);
+          const setClauses = Object.keys(fields).map((column, i) => `${column} = $${i + 1}`);
+          values.push(id);
+          const res = await client.queryObject(
+            `
+              UPDATE contacts
+              SET ${setClauses.join(', ')}, updated_at = NOW()
+              WHERE id = $${values.length}::uuid
+              RETURNING *
+            `,
+            values
+          ).catch((error) => {
+            throw mapDocumentConflict(error);
+          });
+          if (res.rows.length === 0) {
+            throw new HttpError(404, 'Contact not found', 'not_found');
+          }
+          result = res.rows[0];
+          break;
+        }
+
+        // Linked entries keep the name typed and are only unlinked
+        case 'deleteContact': {
+          const { id } = body;
+          await client.queryObject`
+            DELETE FROM contacts WHERE id = ${id}::uuid
+          `;
+          result = { success: true };
+          break;
+        }
+
+        // Transfer actions
+        case 'getTransfers': {
+          const res = await client.queryObject`
+            SELECT * FROM transfers
+            ORDER BY date DESC, created_at DESC
+          `;
+          result = res.rows;
+          break;
+        }
+
+        case 'insertTransfer': {
+          const { data } = body;
+          if (data!.from_account_id === data!.to_account_id) {
+            throw new HttpError(400, 'Source and destination accounts must differ', 'invalid_request');
+          }
+          if (!(Number(data!.amount) > 0)) {
+            throw new HttpError(400, 'Amount must be positive', 'invalid_request');
+          }
+          await assertActiveAccount(client, data!.from_account_id);
+          await assertActiveAccount(client, data!.to_account_id);
+          await assertOpenPeriod(client, [data!.date]);
+
+          const res = await client.queryObject`
+            INSERT INTO transfers (user_id, date, from_account_id, to_account_id, amount, description)
+            VALUES (
+              ${caller!.id}::uuid,
+              ${data!.date},
+              ${data!.from_account_id}::uuid,
+              ${data!.to_account_id}::uuid,
+              ${data!.amount},
+              ${data!.description}
+            )
+            RETURNING *
+          `;
+          result = res.rows[0];
+          break;
+        }
+
+        case 'deleteTransfer': {
+          const { id } = body;
+          const current = await client.queryObject<{ date: Date }>`
+            SELECT date FROM transfers WHERE id = ${id}::uuid
+          `;
+          await assertOpenPeriod(client, current.rows.map((row) => row.date));
+          await client.queryObject`
+            DELETE FROM transfers WHERE id = ${id}::uuid
+          `;
+          result = { success: true };
+          break;
+        }
+
+        // Period closing actions
+        case 'getClosedPeriods': {
+          const res = await client.queryObject`
+            SELECT to_char(p.month, 'YYYY-MM') AS month, p.closed_at,
+                   u.email AS closed_by_email, u.full_name AS closed_by_name
+            FROM closed_periods p
+            LEFT JOIN users u ON u.id = p.closed_by
+            ORDER BY p.month DESC
+          `;
+          result = res.rows;
+          break;
+        }
+
+        // Cash register sessions. The expected amount of an open session is
+        // computed from its entries; a closed one keeps the figures it was
+        // closed with.
+        case 'getCashSessions': {
+          const res = await client.queryObject(`
+            SELECT s.id, s.account_id, a.name AS account_name,
+                   s.opened_at, s.opening_amount, s.closed_at, s.closing_amount, s.notes,
+                   COALESCE(s.expected_amount, s.opening_amount + ${SESSION_NET_AMOUNT}) AS expected_amount,
+                   s.difference,
+                   ob.full_name AS opened_by_name, ob.email AS opened_by_email,
+                   cb.full_name AS closed_by_name, cb.email AS closed_by_email
+            FROM cash_sessions s
+            JOIN accounts a ON a.id = s.account_id
+            LEFT JOIN users ob ON ob.id = s.opened_by
+            LEFT JOIN users cb ON cb.id = s.closed_by
+            ORDER BY s.closed_at IS NULL DESC, s.opened_at DESC
+          `);
+          result = res.rows;
+          break;
+        }
+
+        // One session with its counts and the entries linked to it
+        case 'getCashSession': {
+          const { id } = body;
+          const sessionRes = await client.queryObject(
+            `
+              SELECT s.*, a.name AS account_name,
+                     COALESCE(s.expected_amount, s.opening_amount + ${SESSION_NET_AMOUNT}) AS expected_amount,
+                     ob.full_name AS opened_by_name, ob.email AS opened_by_email,
+                     cb.full_name AS closed_by_name, cb.email AS closed_by_email
+              FROM cash_sessions s
+              JOIN accounts a ON a.id = s.account_id
+              LEFT JOIN users ob ON ob.id = s.opened_by
+              LEFT JOIN users cb ON cb.id = s.closed_by
+              WHERE s.id = $1::uuid
+            `,
+            [id]
+          );
+          if (sessionRes.rows.length === 0) {
+            throw new HttpError(404, 'Cash session not found', 'not_found');
+          }
+          const transactions = await client.queryObject`
+            SELECT t.* FROM transactions t
+            JOIN cash_sessions s ON s.id = t.cash_session_id
+            WHERE t.cash_session_id = ${id}::uuid
+              AND t.account_id = s.account_id
+              AND t.payment_method = 'dinheiro'
+              AND t.status = 'paid'
+              AND t.deleted_at IS NULL
+            ORDER BY t.created_at
+          `;
+          result = { session: sessionRes.rows[0], transactions: transactions.rows };
+          break;
+        }
+
+        case 'openCashSession': {
+          const { data } = body;
+          await assertActiveAccount(client, data?.account_id);
+          await assertCashAccount(client, data!.account_id);
+          const { counts, amount } = parseCounts(data!.counts);
+
+          const open = await client.queryObject`
+            SELECT id FROM cash_sessions WHERE account_id = ${data!.account_id}::uuid AND closed_at IS NULL
+          `;
+          if (open.rows.length > 0) {
+            throw new HttpError(409, 'This account already has an open session', 'session_open');
+          }
+
+          const res = await client.queryObject`
+            INSERT INTO cash_sessions (account_id, opened_by, opening_counts, opening_amount, notes)
+            VALUES (
+              ${data!.account_id}::uuid,
+              ${caller!.id}::uuid,
+              ${JSON.stringify(counts)}::jsonb,
+              ${amount},
+              ${String(data!.notes ?? '').trim() || null}
+            )
+            RETURNING *
+          `;
+          result = res.rows[0];
+          break;
+        }
+
+        // Freezes the expected amount and records the quebra de caixa
+        case 'closeCashSession': {
+          const { id, data } = body;
+          const { counts, amount } = parseCounts(data?.counts);
+
+          const current = await client.queryObject<{ expected_amount: string; notes: string | null }>(
+            `
+              SELECT s.notes, s.opening_amount + ${SESSION_NET_AMOUNT} AS expected_amount
+              FROM cash_sessions s
+              WHERE s.id = $1::uuid AND s.closed_at IS NULL
+              FOR UPDATE
+            `,
+            [id]
+          );
+          if (current.rows.length === 0) {
+            throw new HttpError(409, 'Cash session is not open', 'session_closed');
+          }
+
+          const expected = Number(current.rows[0].expected_amount);
+          const notes = [current.rows[0].notes, String(data!.notes ?? '').trim()].filter(Boolean).join('\n');
+          const res = await client.queryObject`
+            UPDATE cash_sessions
+            SET closed_at = NOW(),
+                closed_by = ${caller!.id}::uuid,
+                closing_counts = ${JSON.stringify(counts)}::jsonb,
+                closing_amount = ${amount},
+                expected_amount = ${expected},
+                difference = ${Math.round((amount - expected) * 100) / 100},
+                notes = ${notes || null}
+            WHERE id = ${id}::uuid
+            RETURNING *
+          `;
+          result = res.rows[0];
+          break;
+        }
+
+        case 'closePeriod': {
+          const month = parsePeriod(body.data?.month);
+          await client.queryObject`
+            INSERT INTO closed_periods (month, closed_by)
+            VALUES (${month}::date, ${caller!.id}::uuid)
+            ON CONFLICT (month) DO NOTHING
+          `;
+          result = { success: true };
+          break;
+        }
+
+        case 'reopenPeriod': {
+          const month = parsePeriod(body.data?.month);
+          await client.queryObject`
+            DELETE FROM closed_periods WHERE month = ${month}::date
+          `;
+          result = { success: true };
+          break;
+        }
+
+        // User management actions. Deleted users are kept for attribution
+        // but no longer listed.
+        case 'getAllUsers': {
+          const res = await client.queryObject`
+            SELECT u.id, u.email, u.full_name, u.created_at, u.deactivated_at, u.pending_approval,
+                   u.totp_enabled_at IS NOT NULL as two_factor_enabled,
+                   COALESCE(
+                     json_agg(json_build_object('id', ur.id, 'role', ur.role)) FILTER (WHERE ur.role IS NOT NULL),
+                     '[]'
+                   ) as roles,
+                   COALESCE((
+                     SELECT json_agg(upp.profile_id) FROM user_permission_profiles upp WHERE upp.user_id = u.id
+                   ), '[]') as profile_ids
+            FROM users u
+            LEFT JOIN user_roles ur ON u.id = ur.user_id
+            WHERE u.deleted_at IS NULL
+            GROUP BY u.id
+            ORDER BY u.created_at DESC
+          `;
+          result = res.rows;
+          break;
+        }
+
+        // Replaces the roles and permission profiles of a user. Only admins
+        // can grant or take away the admin role.
+        case 'updateUserRoles': {
+          const { userId } = body;
+          const { roles, profileIds } = await parseUserAccess(client, body.data);
+          const target = await client.queryObject<{ roles: string[]; profiles: string[] }>`
+            SELECT
+              COALESCE((
+                SELECT array_agg(role::text ORDER BY role) FROM user_roles WHERE user_id = u.id
+              ), '{}') as roles,
+              COALESCE((
+                SELECT array_agg(pp.name ORDER BY pp.name)
+                FROM user_permission_profiles upp
+                JOIN permission_profiles pp ON pp.id = upp.profile_id
+                WHERE upp.user_id = u.id
+              ), '{}') as profiles
+            FROM users u
+            WHERE u.id = ${userId}::uuid AND u.deleted_at IS NULL
+          `;
+          if (target.rows.length === 0) {
+            throw new HttpError(404, 'User not found', 'not_found');
+          }
+          const before = target.rows[0];
+          assertCanChangeAdminRole(caller!, before.roles.includes('admin'), roles.includes('admin'));
+          if (!roles.includes('admin')) {
+            await assertNotLastAdmin(client, userId!);
+          }
+
+          const profiles = await assignUserAccess(client, userId!, roles, profileIds);
+          await recordAudit(client, caller!.id, 'user', 'update', [{
+            entityId: userId!,
+            before,
+            after: { roles: [...roles].sort(), profiles },
+          }]);
+          result = { success: true };
+          break;
+        }
+
+        // A deactivated user keeps their account and roles but is logged out
+        // and cannot log in until reactivated
+        case 'deactivateUser': {
+          const user = await getManagedUser(client, caller!, body.userId);
+          if (user.deactivated_at) {
+            result = { success: true };
+            break;
+          }
+          await assertNotLastAdmin(client, user.id);
+
+          await client.queryObject`
+            UPDATE users SET deactivated_at = NOW() WHERE id = ${user.id}::uuid
+          `;
+          await revokeSessions(client, user.id);
+          await recordAudit(client, caller!.id, 'user', 'update', [{
+            entityId: user.id,
+            before: { active: true },
+            after: { active: false },
+          }]);
+          result = { success: true };
+          break;
+        }
+
+        // The old password stops working and the user is logged out until
+        // they set a new one through the emailed link
+        case 'forceResetPassword': {
+          const user = await getManagedUser(client, caller!, body.userId);
+          const appUrl = getAppUrl();
+
+          await client.queryObject`
+            UPDATE users SET password_hash = NULL WHERE id = ${user.id}::uuid
+          `;
+          await revokeSessions(client, user.id);
+          await sendPasswordReset(client, user, appUrl, caller!.id);
+          await recordAudit(client, caller!.id, 'user', 'update', [{
+            entityId: user.id,
+            before: { password_reset: false },
+            after: { password_reset: true },
+          }]);
+          result = { success: true };
+          break;
+        }
+
+        // For a user who lost their authenticator and recovery codes: they
+        // log in with the password alone and can enroll again
+        case 'resetTwoFactor': {
+          const user = await getManagedUser(client, caller!, body.userId);
+
+          const res = await client.queryObject`
+            UPDATE users
+            SET totp_secret = NULL, totp_pending_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL,
+                totp_failed_attempts = 0, totp_locked_until = NULL
+            WHERE id = ${user.id}::uuid AND totp_enabled_at IS NOT NULL
+            RETURNING id
+          `;
+          if (res.rows.length === 0) {
+            result = { success: true };
+            break;
+          }
+          await client.queryObject`
+            DELETE FROM user_recovery_codes WHERE user_id = ${user.id}::uuid
+          `;
+          await client.queryObject`
+            DELETE FROM two_factor_challenges WHERE user_id = ${user.id}::uuid
+          `;
+          await recordAudit(client, caller!.id, 'user', 'update', [{
+            entityId: user.id,
+            before: { two_factor: true },
+            after: { two_factor: false },
+          }]);
+          result = { success: true };
+          break;
+        }
+
+        case 'reactivateUser': {
+          const user = await getManagedUser(client, caller!, body.userId);
+          if (!user.deactivated_at) {
+            result = { success: true };
+            break;
+          }
+
+          await client.queryObject`
+            UPDATE users SET deactivated_at = NULL WHERE id = ${user.id}::uuid
+          `;
+          await recordAudit(client, caller!.id, 'user', 'update', [{
+            entityId: user.id,
+            before: { active: false },
+            after: { active: true },
+          }]);
+          result = { success: true };
+          break;
+        }
+
+        // Removes the user's credentials, email and roles and logs them out.
+        // The row itself stays, so everything they recorded keeps their name.
+        case 'deleteUser': {
+          const user = await getManagedUser(client, caller!, body.userId);
+          await assertNotLastAdmin(client, user.id);
+
+          await revokeSessions(client, user.id);
+          await client.queryObject`
+            DELETE FROM user_roles WHERE user_id = ${user.id}::uuid
+          `;
+          await client.queryObject`
+            DELETE FROM user_permission_profiles WHERE user_id = ${user.id}::uuid
+          `;
+          await client.queryObject`
+            UPDATE users
+            SET email = NULL, password_hash = NULL, totp_secret = NULL, totp_pending_secret = NULL,
+                deleted_at = NOW()
+            WHERE id = ${user.id}::uuid
+          `;
+          await recordAudit(client, caller!.id, 'user', 'delete', [{
+            entityId: user.id,
+            before: { full_name: user.full_name, email: user.email, roles: user.roles },
+            after: null,
+          }]);
+          result = { success: true };
+          break;
+        }
+
+        // Self-signups held while approval is required. Approving gives the
+        // user the chosen roles; rejecting deletes the account, which has
+        // never had access to anything.
+        case 'approveUser': {
+          const { userId } = body;
+          const { roles, profileIds } = await parseUserAccess(client, body.data);
+          assertCanChangeAdminRole(caller!, false, roles.includes('admin'));
+
+          const res = await client.queryObject`
+            UPDATE users SET pending_approval = false
+            WHERE id = ${userId}::uuid AND pending_approval
+            RETURNING id
+          `;
+          if (res.rows.length === 0) {
+            throw new HttpError(404, 'No pending user found', 'not_found');
+          }
+          const profiles = await assignUserAccess(client, userId!, roles, profileIds);
+          await recordAudit(client, caller!.id, 'user', 'update', [{
+            entityId: userId!,
+            before: { approved: false, roles: [], profiles: [] },
+            after: { approved: true, roles: [...roles].sort(), profiles },
+          }]);
+          result = { success: true };
+          break;
+        }
+
+        case 'rejectUser': {
+          const res = await client.queryObject<{ id: string; email: string; full_name: string | null }>`
+            DELETE FROM users
+            WHERE id = ${body.userId}::uuid AND pending_approval
+            RETURNING id, email, full_name
+          `;
+          if (res.rows.length === 0) {
+            throw new HttpError(404, 'No pending user found', 'not_found');
+          }
+          const { id, ...rejected } = res.rows[0];
+          await recordAudit(client, caller!.id, 'user', 'delete', [{
+            entityId: id,
+            before: { ...rejected, approved: false },
+            after: null,
+          }]);
+          result = { success: true };
+          break;
+        }
+
+        case 'getAppSettings': {
+          const res = await client.queryObject`
+            SELECT require_signup_approval, require_two_factor FROM app_settings
+          `;
+          result = res.rows[0];
+          break;
+        }
+
+        case 'updateAppSettings': {
+          const { data } = body;
+          const res = await client.queryObject`
+            UPDATE app_settings
+            SET require_signup_approval = COALESCE(${data?.require_signup_approval ?? null}::boolean, require_signup_approval),
+                require_two_factor = COALESCE(${data?.require_two_factor ?? null}::boolean, require_two_factor),
+                updated_by = ${caller!.id}::uuid,
+                updated_at = NOW()
+            RETURNING require_signup_approval, require_two_factor
+          `;
+          result = res.rows[0];
+          break;
+        }
+
+        // Invitations that have not been used or revoked, newest first.
+        // Expired ones are listed so the admin can see who never signed up.
+        case 'getInvitations': {
+          const res = await client.queryObject`
+            SELECT i.id, i.email, i.roles, i.profile_ids, i.expires_at, i.created_at,
+                   u.full_name AS invited_by_name, u.email AS invited_by_email
+            FROM invitations i
+            LEFT JOIN users u ON u.id = i.invited_by
+            WHERE i.accepted_at IS NULL AND i.revoked_at IS NULL
+            ORDER BY i.created_at DESC
+          `;
+          result = res.rows;
+          break;
+        }
+
+        // The link token is only returned here; the table keeps its hash
+        case 'createInvitation': {
+          const email = parseInvitationEmail(body.data?.email);
+          const { roles, profileIds } = await parseUserAccess(client, body.data);
+          assertCanChangeAdminRole(caller!, false, roles.includes('admin'));
+
+          const existing = await client.queryObject`
+            SELECT 1 FROM users WHERE lower(email) = ${email}
+          `;
+          if (existing.rows.length > 0) {
+            throw new HttpError(409, 'A user with this email already exists', 'email_in_use');
+          }
+
+          const token = generateToken();
+          const res = await client.queryObject`
+            INSERT INTO invitations (email, token_hash, roles, profile_ids, invited_by, expires_at)
+            VALUES (
+              ${email},
+              ${await hashToken(token)},
+              ${roles}::text[],
+              ${profileIds}::uuid[],
+              ${caller!.id}::uuid,
+              NOW() + make_interval(days => ${INVITATION_TTL_DAYS})
+            )
+            RETURNING id, email, roles, profile_ids, expires_at, created_at
+          `;
+          result = { ...res.rows[0], token };
+          break;
+        }
+
+        case 'revokeInvitation': {
+          const res = await client.queryObject`
+            UPDATE invitations SET revoked_at = NOW()
+            WHERE id = ${body.id}::uuid AND accepted_at IS NULL AND revoked_at IS NULL
+            RETURNING id
+          `;
+          if (res.rows.length === 0) {
+            throw new HttpError(404, 'Invitation not found', 'not_found');
+          }
+          result = { success: true };
+          break;
+        }
+
+        // Permission profile actions
+        case 'getPermissionProfiles': {
+          const res = await client.queryObject`
+            SELECT pp.*, COUNT(upp.user_id)::int AS user_count
+            FROM permission_profiles pp
+            LEFT JOIN user_permission_profiles upp ON upp.profile_id = pp.id
+            GROUP BY pp.id
+            ORDER BY lower(pp.name)
+          `;
+          result = res.rows;
+          break;
+        }
+
+        case 'insertPermissionProfile': {
+          const fields = parseProfileFields(body.data || {}, true);
+          await assertUniqueProfileName(client, fields.name);
+          const res = await client.queryObject`
+            INSERT INTO permission_profiles (name, permissions, created_by)
+            VALUES (${fields.name}, ${fields.permissions}::text[], ${caller!.id}::uuid)
+            RETURNING *
+          `;
+          result = res.rows[0];
+          break;
+        }
+
+        // Changes apply at once to every user holding the profile
+        case 'updatePermissionProfile': {
+          const { id } = body;
+          const fields = parseProfileFields(body.data || {}, false);
+          await assertUniqueProfileName(client, fields.name, id);
+          const res = await client.queryObject`
+            UPDATE permission_profiles
+            SET name = COALESCE(${fields.name ?? null}, name),
+                permissions = COALESCE(${fields.permissions ?? null}::text[], permissions),
+                updated_at = NOW()
+            WHERE id = ${id}::uuid
+            RETURNING *
+          `;
+          if (res.rows.length === 0) {
+            throw new HttpError(404, 'Profile not found', 'not_found');
+          }
+          result = res.rows[0];
+          break;
+        }
+
+        // Profiles still assigned to someone cannot be deleted, so nobody
+        // loses permissions unnoticed
+        case 'deletePermissionProfile': {
+          const { id } = body;
+          const usage = await client.queryObject`
+            SELECT 1 FROM user_permission_profiles upp
+            JOIN users u ON u.id = upp.user_id
+            WHERE upp.profile_id = ${id}::uuid AND u.deleted_at IS NULL
+            LIMIT 1
+          `;
+          if (usage.rows.length > 0) {
+            throw new HttpError(409, 'Profile is assigned to users', 'profile_in_use');
+          }
+          await client.queryObject`
+            DELETE FROM permission_profiles WHERE id = ${id}::uuid
+          `;
+          result = { success: true };
+          break;
+        }
+
+        // Audit trail, newest first, paginated like getTransactions
+        case 'getAuditLog': {
+          const { entityType, cursor } = body;
+          const limit = Math.min(Math.max(Number(body.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+          const columns = ['created_at', 'id'];
+
+          const values: unknown[] = [];
+          const conditions: string[] = [];
+          if (entityType) {
+            if (!AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+              throw new HttpError(400, 'Invalid entity type', 'invalid_request');
+            }
+            values.push(entityType);
+            conditions.push(`entity_type = $${values.length}`);
+          }
+          if (cursor) {
+            conditions.push(buildCursorCondition(cursor, columns, 'DESC', values));
+          }
+          values.push(limit + 1);
+
+          // The join is wrapped so the cursor columns are not ambiguous with users'
+          const res = await client.queryObject<Record<string, unknown>>(
+            `
+              SELECT *, ${getCursorSelect(columns)}
+              FROM (
+                SELECT a.*, u.email AS actor_email, u.full_name AS actor_name,
+                       COALESCE(target.full_name, target.email) AS user_label
+                FROM audit_log a
+                LEFT JOIN users u ON u.id = a.actor_id
+                LEFT JOIN users target ON a.entity_type = 'user' AND target.id = a.entity_id
+              ) entries
+              ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+              ORDER BY created_at DESC, id DESC
+              LIMIT $${values.length}
+            `,
+            values
+          );
+          result = takePage(res.rows, columns, limit);
+          break;
+        }
+
+        // Every change made to one transaction, oldest first
+        case 'getTransactionHistory': {
+          const { id } = body;
+          const res = await client.queryObject`
+            SELECT a.*, u.email AS actor_email, u.full_name AS actor_name
+            FROM audit_log a
+            LEFT JOIN users u ON u.id = a.actor_id
+            WHERE a.entity_type = 'transaction' AND a.entity_id = ${id}::uuid
+            ORDER BY a.created_at, a.id
+          `;
+          result = res.rows;
+          break;
+        }
+
+        // Attachment actions
+        case 'getAttachments': {
+          const { id } = body;
+          const res = await client.queryObject(
+            `
+              SELECT ${ATTACHMENT_COLUMNS.split(', ').map((column) => `a.${column}`).join(', ')},
+                     u.email AS uploaded_by_email, u.full_name AS uploaded_by_name
+              FROM attachments a
+              LEFT JOIN users u ON u.id = a.uploaded_by
+              WHERE a.transaction_id = $1::uuid
+              ORDER BY a.created_at
+            `,
+            [id]
+          );
+          result = res.rows;
+          break;
+        }
+
+        // One attachment with its content, base64 encoded
+        case 'getAttachment': {
+          const { id } = body;
+          const res = await client.queryObject<{ storage_key: string }>(
+            `SELECT ${ATTACHMENT_COLUMNS}, storage_key FROM attachments WHERE id = $1::uuid`,
+            [id]
+          );
+          if (res.rows.length === 0) {
+            throw new HttpError(404, 'Attachment not found', 'not_found');
+          }
+          const { storage_key, ...attachment } = res.rows[0];
+          const content = await getAttachmentStorage().get(storage_key);
+          result = { ...attachment, content: encodeBase64(content) };
+          break;
+        }
+
+        // The file is stored first and removed again if the row cannot be saved
+        case 'uploadAttachment': {
+          const { id, data } = body;
+          await assertCanManageAttachments(client, caller!, id);
+          const { fileName, contentType, content } = parseAttachment(data ?? {});
+
+          const attachmentId = crypto.randomUUID();
+          const storageKey = `${id}/${attachmentId}`;
+          const storage = getAttachmentStorage();
+          await storage.put(storageKey, content);
+
+          try {
+            const res = await client.queryObject<Record<string, unknown>>(
+              `
+                INSERT INTO attachments (id, transaction_id, file_name, content_type, size, storage_key, uploaded_by)
+                VALUES ($1::uuid, $2::uuid, $3, $4, $5, $6, $7::uuid)
+                RETURNING ${ATTACHMENT_COLUMNS}
+              `,
+              [attachmentId, id, fileName, contentType, content.length, storageKey, caller!.id]
+            );
+            const attachment = res.rows[0];
+            await recordAudit(client, caller!.id, 'transaction', 'attach', [
+              { entityId: id!, before: null, after: attachment },
+            ]);
+            await commit();
+            result = attachment;
+          } catch (error) {
+            await storage.delete(storageKey);
+            throw error;
+          }
+          break;
+        }
+
+        case 'deleteAttachment': {
+          const { id } = body;
+          const current = await client.queryObject<{ transaction_id: string }>`
+            SELECT transaction_id FROM attachments WHERE id = ${id}::uuid
+          `;
+          if (current.rows.length === 0) {
+            throw new HttpError(404, 'Attachment not found', 'not_found');
+          }
+          await assertCanManageAttachments(client, caller!, current.rows[0].transaction_id);
+
+          const res = await client.queryObject<Record<string, unknown>>(
+            `DELETE FROM attachments WHERE id = $1::uuid RETURNING ${ATTACHMENT_COLUMNS}, storage_key`,
+            [id]
+          );
+          const { storage_key, ...attachment } = res.rows[0];
+          afterCommit.push(() => getAttachmentStorage().delete(storage_key as string));
+          await recordAudit(client, caller!.id, 'transaction', 'detach', [
+            { entityId: attachment.transaction_id as string, before: attachment, after: null },
+          ]);
+          result = { success: true };
+          break;
+        }
+
+        default:
           return new Response(
             JSON.stringify({ error: `Unknown action: ${action}` }),
             { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
       }
 
+      await commit();
+      for (const task of afterCommit) {
+        await task().catch((error) => console.error('DB After commit error:', error));
+      }
+
       return new Response(
         JSON.stringify({ data: result }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
 
     } finally {
-      client.release();
+      // A failed query has already ended the transaction, so rollback may throw
+      if (!committed) {
+        await client.rollback().catch(() => {});
+      }
+      connection.release();
     }
 
   } catch (error) {
+    if (error instanceof HttpError) {
+      console.warn(`DB Action rejected: ${error.code}`, error.message);
+      return new Response(
+        JSON.stringify({
+          error: error.message,
+          code: error.code,
+          ...(error instanceof PermissionDeniedError ? { permission: error.permission } : {}),
+          ...(error instanceof ClosedPeriodError ? { period: error.period } : {}),
+        }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.error('DB Error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return new Response(
@@ -0,0 +1,26 @@
+import { getOccurrenceDate } from "./recurrence.ts";
+
+export const MAX_INSTALLMENTS = 48;
+
+export interface Installment {
+  number: number;
+  amount: number;
+  dueDate: string;
+}
+
+// Splits the total in cents so every installment gets the same rounded-down
+// value and the last one absorbs the remainder, e.g. 100.00 in 3x is
+// 33.33 + 33.33 + 33.34. Due dates are monthly from the first due date.
+export const splitInstallments = (total: number, count: number, firstDueDate: string): Installment[] => {
+  const totalCents = Math.round(total * 100);
+  const baseCents = Math.floor(totalCents / count);
+
+  return Array.from({ length: count }, (_, index) => {
+    const cents = index === count - 1 ? totalCents - baseCents * (count - 1) : baseCents;
+    return {
+      number: index + 1,
+      amount: cents / 100,
+      dueDate: getOccurrenceDate(firstDueDate, 'monthly', 1, index),
+    };
+  });
+};
@@ -0,0 +1,56 @@
+import { Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { AppRole, HttpError } from "./permissions.ts";
+import { hashToken } from "./session.ts";
+
+export const INVITATION_TTL_DAYS = 7;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface Invitation {
+  id: string;
+  email: string;
+  roles: AppRole[];
+  profile_ids: string[];
+}
+
+export const parseInvitationEmail = (value: unknown) => {
+  const email = String(value ?? '').trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new HttpError(400, 'Invalid email', 'invalid_request');
+  }
+  return email;
+};
+
+// Looks up the invitation of a link, as long as it has not been used,
+// revoked or let expire
+export const findOpenInvitation = async (client: Transaction, token: unknown) => {
+  if (!token) {
+    throw new HttpError(400, 'Invitation token is required', 'invalid_request');
+  }
+
+  const res = await client.queryObject<Invitation>`
+    SELECT id, email, roles, profile_ids FROM invitations
+    WHERE token_hash = ${await hashToken(String(token))}
+      AND accepted_at IS NULL
+      AND revoked_at IS NULL
+      AND expires_at > NOW()
+  `;
+  if (res.rows.length === 0) {
+    throw new HttpError(404, 'Invitation is invalid or has expired', 'invitation_invalid');
+  }
+  return res.rows[0];
+};
+
+// Marks the invitation as used by the new account. Conditional, so of two
+// signups racing on the same link the second fails and its account is
+// rolled back with the rest of the action.
+export const claimInvitation = async (client: Transaction, invitationId: string, userId: string) => {
+  const res = await client.queryObject`
+    UPDATE invitations SET accepted_at = NOW(), accepted_by = ${userId}::uuid
+    WHERE id = ${invitationId}::uuid AND accepted_at IS NULL AND revoked_at IS NULL
+    RETURNING id
+  `;
+  if (res.rows.length === 0) {
+    throw new HttpError(404, 'Invitation is invalid or has expired', 'invitation_invalid');
+  }
+};
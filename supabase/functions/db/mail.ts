@@ -0,0 +1,72 @@
+// Outgoing email. Actions only talk to this interface, so an SMTP or API
+// transport can replace the development ones without touching them.
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Development transport: prints the message to the function log
+export class ConsoleMailTransport implements MailTransport {
+  send(message: MailMessage) {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+    return Promise.resolve();
+  }
+}
+
+// Development transport: writes each message as a .eml file under a
+// directory, to be opened with any mail client
+export class FileMailTransport implements MailTransport {
+  constructor(private root: string) {}
+
+  async send(message: MailMessage) {
+    await Deno.mkdir(this.root, { recursive: true });
+    const content = [
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+    await Deno.writeTextFile(`${this.root}/${Date.now()}-${crypto.randomUUID()}.eml`, content);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+// MAIL_TRANSPORT selects the transport: "console" (the default) or "file",
+// kept in MAIL_DIR
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    const backend = Deno.env.get('MAIL_TRANSPORT') || 'console';
+    switch (backend) {
+      case 'console':
+        transport = new ConsoleMailTransport();
+        break;
+      case 'file':
+        transport = new FileMailTransport(Deno.env.get('MAIL_DIR') || './mail');
+        break;
+      default:
+        throw new Error(`Unknown mail transport: ${backend}`);
+    }
+  }
+  return transport;
+};
+
+export const sendMail = (message: MailMessage) => getMailTransport().send(message);
+
+// Base URL of the web app for links in emails. Only APP_URL is trusted: the
+// request headers are chosen by whoever calls, so a link built from them
+// could point a reset token at another site.
+export const getAppUrl = () => {
+  const url = Deno.env.get('APP_URL');
+  if (!url) {
+    throw new Error('APP_URL is not configured, links cannot be emailed');
+  }
+  return url.replace(/\/+$/, '');
+};
@@ -0,0 +1,97 @@
+import { Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { HttpError } from "./permissions.ts";
+import { generateToken, hashToken } from "./session.ts";
+import { sendMail } from "./mail.ts";
+
+// Links asked for on the login screen are short lived; the one sent when an
+// admin forces a reset waits for the user to read their email
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+export const FORCED_RESET_TTL_MINUTES = 60 * 24 * 3;
+// A new link asked for on the login screen is only emailed once the last one
+// is this old, so the form cannot be used to flood someone's inbox
+export const RESET_REQUEST_INTERVAL_MINUTES = 15;
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const parseNewPassword = (value: unknown) => {
+  const password = typeof value === 'string' ? value : '';
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must have at least ${MIN_PASSWORD_LENGTH} characters`, 'weak_password');
+  }
+  return password;
+};
+
+// Creates a reset token for the user, replacing any unused one, and emails
+// the link. requestedBy is the admin forcing the reset, if any.
+export const sendPasswordReset = async (
+  client: Transaction,
+  user: { id: string; email: string; full_name: string | null },
+  appUrl: string,
+  requestedBy: string | null
+) => {
+  const ttlMinutes = requestedBy ? FORCED_RESET_TTL_MINUTES : PASSWORD_RESET_TTL_MINUTES;
+  const token = generateToken();
+
+  await client.queryObject`
+    DELETE FROM password_resets WHERE user_id = ${user.id}::uuid AND used_at IS NULL
+  `;
+  await client.queryObject`
+    INSERT INTO password_resets (user_id, token_hash, requested_by, expires_at)
+    VALUES (
+      ${user.id}::uuid,
+      ${await hashToken(token)},
+      ${requestedBy}::uuid,
+      NOW() + make_interval(mins => ${ttlMinutes})
+    )
+  `;
+
+  const link = `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+  const validity = requestedBy ? `${ttlMinutes / 60 / 24} dias` : `${ttlMinutes} minutos`;
+  await sendMail({
+    to: user.email,
+    subject: 'Redefinição de senha - Controle de Caixa',
+    text: [
+      `Olá${user.full_name ? `, ${user.full_name}` : ''}!`,
+      '',
+      requestedBy
+        ? 'Um administrador pediu que você crie uma nova senha. A senha anterior não funciona mais.'
+        : 'Recebemos um pedido para redefinir a sua senha. Se não foi você, ignore este email.',
+      '',
+      `Para criar a nova senha, acesse o link abaixo. Ele vale uma única vez, por ${validity}.`,
+      link,
+    ].join('\n'),
+  });
+};
+
+// Whether a link was emailed recently and can still be used, in which case a
+// new request sends nothing
+export const hasRecentPasswordReset = async (client: Transaction, userId: string) => {
+  const res = await client.queryObject`
+    SELECT 1 FROM password_resets
+    WHERE user_id = ${userId}::uuid
+      AND used_at IS NULL
+      AND expires_at > NOW()
+      AND created_at > NOW() - make_interval(mins => ${RESET_REQUEST_INTERVAL_MINUTES})
+  `;
+  return res.rows.length > 0;
+};
+
+// Marks the token as used and returns its user, as long as it has not been
+// used or let expire. Claimed in one statement so a link works only once.
+export const claimPasswordReset = async (client: Transaction, token: unknown) => {
+  if (!token) {
+    throw new HttpError(400, 'Reset token is required', 'invalid_request');
+  }
+
+  const res = await client.queryObject<{ user_id: string }>`
+    UPDATE password_resets SET used_at = NOW()
+    WHERE token_hash = ${await hashToken(String(token))}
+      AND used_at IS NULL
+      AND expires_at > NOW()
+    RETURNING user_id
+  `;
+  if (res.rows.length === 0) {
+    throw new HttpError(404, 'Reset link is invalid or has expired', 'reset_invalid');
+  }
+  return res.rows[0].user_id;
+};
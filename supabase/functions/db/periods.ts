@@ -0,0 +1,48 @@
+import { Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { HttpError } from "./permissions.ts";
+
+export class ClosedPeriodError extends HttpError {
+  constructor(public period: string) {
+    super(409, `Period ${period} is closed`, 'period_closed');
+    this.name = 'ClosedPeriodError';
+  }
+}
+
+// Accepts "YYYY-MM" and returns the first day of that month
+export const parsePeriod = (value: unknown) => {
+  if (typeof value !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(value)) {
+    throw new HttpError(400, 'Invalid period, expected YYYY-MM', 'invalid_request');
+  }
+  return `${value}-01`;
+};
+
+// Dates may come from the client as "YYYY-MM-DD" strings or from the driver
+// as Date objects (midnight UTC for date columns)
+const toPeriod = (date: unknown) =>
+  date instanceof Date ? date.toISOString().slice(0, 7) : String(date).slice(0, 7);
+
+// Mutations are refused when any of the given transaction dates falls in a
+// closed month. Empty values are ignored so callers can pass optional fields.
+export const assertOpenPeriod = async (client: Transaction, dates: unknown[]) => {
+  const periods = [...new Set(dates.filter((date) => date).map(toPeriod))];
+  if (periods.length === 0) return;
+
+  const res = await client.queryObject<{ period: string }>`
+    SELECT to_char(month, 'YYYY-MM') AS period FROM closed_periods
+    WHERE to_char(month, 'YYYY-MM') = ANY(${periods}::text[])
+    ORDER BY month
+    LIMIT 1
+  `;
+  if (res.rows.length > 0) {
+    throw new ClosedPeriodError(res.rows[0].period);
+  }
+};
+
+// Closed months as "YYYY-MM", for code that skips dates in them instead of
+// refusing the whole change
+export const getClosedPeriods = async (client: Transaction) => {
+  const res = await client.queryObject<{ period: string }>`
+    SELECT to_char(month, 'YYYY-MM') AS period FROM closed_periods
+  `;
+  return new Set(res.rows.map((row) => row.period));
+};
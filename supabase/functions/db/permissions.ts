@@ -0,0 +1,128 @@
+// Role based permissions for the db function. These mirror the can_* SQL
+// functions (can_view, can_edit, can_insert_expense, ...). A user's
+// permissions are the union of their roles and of the custom permission
+// profiles assigned to them; AuthContext receives the resulting list.
+
+export type AppRole = 'admin' | 'view_only' | 'edit' | 'insert_expenses' | 'insert_income';
+
+export type Permission =
+  | 'view'
+  | 'insert_income'
+  | 'insert_expense'
+  | 'edit'
+  | 'delete'
+  | 'export'
+  | 'manage_categories'
+  | 'manage_accounts'
+  | 'manage_contacts'
+  | 'manage_users'
+  | 'view_audit'
+  | 'manage_trash'
+  | 'close_periods'
+  | 'operate_cash_register';
+
+export const APP_ROLES: AppRole[] = ['admin', 'view_only', 'edit', 'insert_expenses', 'insert_income'];
+
+// Granular permissions an admin can combine into a custom profile
+export type ProfilePermission =
+  | 'view'
+  | 'insert_income'
+  | 'insert_expense'
+  | 'edit'
+  | 'delete'
+  | 'export'
+  | 'manage_users'
+  | 'close_periods';
+
+export const PROFILE_PERMISSIONS: ProfilePermission[] = [
+  'view',
+  'insert_income',
+  'insert_expense',
+  'edit',
+  'delete',
+  'export',
+  'manage_users',
+  'close_periods',
+];
+
+const rolePermissions: Record<AppRole, Permission[]> = {
+  admin: [
+    'view',
+    'insert_income',
+    'insert_expense',
+    'edit',
+    'delete',
+    'export',
+    'manage_categories',
+    'manage_accounts',
+    'manage_contacts',
+    'manage_users',
+    'view_audit',
+    'manage_trash',
+    'close_periods',
+    'operate_cash_register',
+  ],
+  view_only: ['view', 'export'],
+  edit: [
+    'view',
+    'insert_income',
+    'insert_expense',
+    'edit',
+    'delete',
+    'export',
+    'manage_categories',
+    'manage_contacts',
+    'operate_cash_register',
+  ],
+  insert_expenses: ['view', 'insert_expense', 'export', 'operate_cash_register'],
+  insert_income: ['view', 'insert_income', 'export', 'operate_cash_register'],
+};
+
+// What each profile permission grants, following the built-in roles: every
+// permission lets the user see the ledger, inserting entries lets them run
+// the cash register and editing lets them keep categories and contacts
+const profilePermissionGrants: Record<ProfilePermission, Permission[]> = {
+  view: ['view'],
+  insert_income: ['view', 'insert_income', 'operate_cash_register'],
+  insert_expense: ['view', 'insert_expense', 'operate_cash_register'],
+  edit: ['view', 'edit', 'manage_categories', 'manage_contacts'],
+  delete: ['view', 'delete'],
+  export: ['view', 'export'],
+  manage_users: ['view', 'manage_users'],
+  close_periods: ['view', 'close_periods'],
+};
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export class PermissionDeniedError extends HttpError {
+  constructor(public permission: Permission) {
+    super(403, `Missing permission: ${permission}`, 'permission_denied');
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+export const getPermissions = (roles: string[], profilePermissions: string[] = []) => {
+  const permissions = new Set<Permission>();
+  roles.forEach((role) => {
+    (rolePermissions[role as AppRole] || []).forEach((p) => permissions.add(p));
+  });
+  profilePermissions.forEach((permission) => {
+    (profilePermissionGrants[permission as ProfilePermission] || []).forEach((p) => permissions.add(p));
+  });
+  return permissions;
+};
+
+export const requirePermission = (caller: { permissions: Permission[] }, permission: Permission) => {
+  if (!caller.permissions.includes(permission)) {
+    throw new PermissionDeniedError(permission);
+  }
+};
@@ -0,0 +1,95 @@
+import { Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { APP_ROLES, AppRole, HttpError, PROFILE_PERMISSIONS, ProfilePermission } from "./permissions.ts";
+
+// Validates the profile fields present in data; a name and at least one
+// permission are required when creating
+export const parseProfileFields = (data: Record<string, unknown>, creating: boolean) => {
+  const fields: { name?: string; permissions?: ProfilePermission[] } = {};
+
+  if (creating || data.name !== undefined) {
+    const name = String(data.name ?? '').trim();
+    if (!name || name.length > 60) {
+      throw new HttpError(400, 'Profile name is required and limited to 60 characters', 'invalid_request');
+    }
+    fields.name = name;
+  }
+  if (creating || data.permissions !== undefined) {
+    const permissions = Array.isArray(data.permissions) ? [...new Set(data.permissions)] : [];
+    if (permissions.length === 0) {
+      throw new HttpError(400, 'A profile needs at least one permission', 'invalid_request');
+    }
+    for (const permission of permissions) {
+      if (!PROFILE_PERMISSIONS.includes(permission as ProfilePermission)) {
+        throw new HttpError(400, `Invalid permission: ${permission}`, 'invalid_request');
+      }
+    }
+    fields.permissions = permissions as ProfilePermission[];
+  }
+
+  return fields;
+};
+
+// Profile names are unique regardless of case
+export const assertUniqueProfileName = async (client: Transaction, name: string | undefined, profileId?: string) => {
+  if (name === undefined) return;
+  const res = await client.queryObject`
+    SELECT 1 FROM permission_profiles
+    WHERE lower(name) = lower(${name}) AND id IS DISTINCT FROM ${profileId ?? null}::uuid
+  `;
+  if (res.rows.length > 0) {
+    throw new HttpError(409, 'Another profile has this name', 'profile_name_in_use');
+  }
+};
+
+// Validates the roles and profiles assigned to a user. A user needs at least
+// one of either, and every profile must exist.
+export const parseUserAccess = async (client: Transaction, data: Record<string, unknown> | undefined) => {
+  const roles = Array.isArray(data?.roles) ? [...new Set(data!.roles as string[])] : [];
+  const profileIds = Array.isArray(data?.profile_ids) ? [...new Set(data!.profile_ids as string[])] : [];
+
+  for (const role of roles) {
+    if (!APP_ROLES.includes(role as AppRole)) {
+      throw new HttpError(400, `Invalid role: ${role}`, 'invalid_request');
+    }
+  }
+  if (roles.length === 0 && profileIds.length === 0) {
+    throw new HttpError(400, 'A user needs at least one role or profile', 'invalid_request');
+  }
+  if (profileIds.length > 0) {
+    const res = await client.queryObject<{ count: number }>`
+      SELECT COUNT(*)::int AS count FROM permission_profiles WHERE id = ANY(${profileIds}::uuid[])
+    `;
+    if (res.rows[0].count !== profileIds.length) {
+      throw new HttpError(400, 'Profile not found', 'invalid_request');
+    }
+  }
+
+  return { roles: roles as AppRole[], profileIds };
+};
+
+// Replaces the roles and permission profiles of a user, returning the
+// profile names for the audit trail
+export const assignUserAccess = async (
+  client: Transaction,
+  userId: string,
+  roles: AppRole[],
+  profileIds: string[]
+) => {
+  await client.queryObject`
+    DELETE FROM user_roles WHERE user_id = ${userId}::uuid
+  `;
+  for (const role of roles) {
+    await client.queryObject`
+      INSERT INTO user_roles (user_id, role) VALUES (${userId}::uuid, ${role})
+    `;
+  }
+  await client.queryObject`
+    DELETE FROM user_permission_profiles WHERE user_id = ${userId}::uuid
+  `;
+  const profiles = await client.queryObject<{ name: string }>`
+    INSERT INTO user_permission_profiles (user_id, profile_id)
+    SELECT ${userId}::uuid, unnest(${profileIds}::uuid[])
+    RETURNING (SELECT name FROM permission_profiles WHERE id = profile_id) AS name
+  `;
+  return profiles.rows.map((p) => p.name).sort();
+};
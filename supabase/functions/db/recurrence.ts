@@ -0,0 +1,153 @@
+import { Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { insertedRows, recordAudit } from "./audit.ts";
+import { getClosedPeriods } from "./periods.ts";
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+// How far ahead occurrences are materialized as pending entries
+export const GENERATION_HORIZON_DAYS = 90;
+
+interface RecurrenceRow {
+  id: string;
+  user_id: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  start_date: string | Date;
+  end_date: string | Date | null;
+  occurrence_count: number | null;
+  next_index: number;
+  type: string;
+  client_supplier: string;
+  amount: number;
+  description: string | null;
+  payment_method: string;
+  category_id: string | null;
+  account_id: string;
+  contact_id: string | null;
+}
+
+// Dates are handled as 'YYYY-MM-DD' strings in UTC to avoid timezone drift
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+const parseDate = (value: string | Date) => {
+  const [year, month, day] = (value instanceof Date ? toDateString(value) : value.slice(0, 10))
+    .split('-')
+    .map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const addMonthsClamped = (start: Date, months: number) => {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + months;
+  const lastDayOfMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDayOfMonth)));
+};
+
+// Date of the nth occurrence (0 based). Each occurrence is computed from the
+// start date, so a series starting on the 31st falls on the last day of
+// shorter months without drifting afterwards.
+export const getOccurrenceDate = (
+  startDate: string | Date,
+  frequency: RecurrenceFrequency,
+  interval: number,
+  index: number
+) => {
+  const start = parseDate(startDate);
+  const step = interval * index;
+
+  switch (frequency) {
+    case 'daily':
+      return toDateString(new Date(start.getTime() + step * 86400000));
+    case 'weekly':
+      return toDateString(new Date(start.getTime() + step * 7 * 86400000));
+    case 'monthly':
+      return toDateString(addMonthsClamped(start, step));
+    case 'yearly':
+      return toDateString(addMonthsClamped(start, step * 12));
+  }
+};
+
+// Materializes every occurrence due up to the generation horizon as a pending
+// transaction. next_index is only ever moved forward, so occurrences that were
+// deleted or cancelled are never generated again; the unique index on
+// (recurrence_id, recurrence_index) keeps concurrent runs from duplicating them.
+// Occurrences dated in a closed month are skipped for good. The inserts are
+// logged as made by actorId, whose request brought the series up to date.
+export const generateOccurrences = async (client: Transaction, actorId: string, recurrenceId?: string) => {
+  const horizon = toDateString(new Date(Date.now() + GENERATION_HORIZON_DAYS * 86400000));
+  const closedPeriods = await getClosedPeriods(client);
+
+  const res = recurrenceId
+    ? await client.queryObject<RecurrenceRow>`
+        SELECT * FROM recurrences WHERE id = ${recurrenceId}::uuid AND active
+      `
+    : await client.queryObject<RecurrenceRow>`
+        SELECT * FROM recurrences WHERE active
+      `;
+
+  const inserted: Record<string, unknown>[] = [];
+
+  for (const recurrence of res.rows) {
+    const endDate = recurrence.end_date ? toDateString(parseDate(recurrence.end_date)) : null;
+    let index = recurrence.next_index;
+    let finished = false;
+
+    while (true) {
+      if (recurrence.occurrence_count !== null && index >= recurrence.occurrence_count) {
+        finished = true;
+        break;
+      }
+
+      const dueDate = getOccurrenceDate(recurrence.start_date, recurrence.frequency, recurrence.interval, index);
+      if (endDate && dueDate > endDate) {
+        finished = true;
+        break;
+      }
+      if (dueDate > horizon) break;
+      if (closedPeriods.has(dueDate.slice(0, 7))) {
+        index++;
+        continue;
+      }
+
+      const row = await client.queryObject<Record<string, unknown>>`
+        INSERT INTO transactions (
+          user_id, date, type, client_supplier, amount, description, payment_method,
+          category_id, account_id, contact_id, status, due_date, recurrence_id, recurrence_index
+        )
+        VALUES (
+          ${recurrence.user_id}::uuid,
+          ${dueDate},
+          ${recurrence.type},
+          ${recurrence.client_supplier},
+          ${recurrence.amount},
+          ${recurrence.description},
+          ${recurrence.payment_method},
+          ${recurrence.category_id}::uuid,
+          ${recurrence.account_id}::uuid,
+          ${recurrence.contact_id}::uuid,
+          'pending',
+          ${dueDate},
+          ${recurrence.id}::uuid,
+          ${index}
+        )
+        ON CONFLICT (recurrence_id, recurrence_index) DO NOTHING
+        RETURNING *
+      `;
+      inserted.push(...row.rows);
+      index++;
+    }
+
+    if (index !== recurrence.next_index || finished) {
+      await client.queryObject`
+        UPDATE recurrences
+        SET next_index = ${index}, active = ${!finished}, updated_at = NOW()
+        WHERE id = ${recurrence.id}::uuid
+      `;
+    }
+  }
+
+  await recordAudit(client, actorId, 'transaction', 'insert', insertedRows(inserted));
+  return inserted.length;
+};
@@ -0,0 +1,118 @@
+// Session tokens for the db function.
+//
+// The access token is a short-lived HS256 JWT carrying the user id (sub) and
+// the session id (sid). The refresh token is an opaque random string; only its
+// SHA-256 hash is stored in the sessions table, so a database leak does not
+// leak usable tokens.
+
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 60; // 1 hour
+export const REFRESH_TOKEN_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+export interface AccessTokenPayload {
+  sub: string;
+  sid: string;
+  iat: number;
+  exp: number;
+}
+
+export interface SessionTokens {
+  access_token: string;
+  refresh_token: string;
+  expires_at: number;
+}
+
+const encoder = new TextEncoder();
+
+let signingKey: CryptoKey | null = null;
+
+const getSigningKey = async () => {
+  if (!signingKey) {
+    const secret = Deno.env.get('SESSION_SECRET');
+    if (!secret) {
+      throw new Error('SESSION_SECRET is not set');
+    }
+    signingKey = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+  }
+  return signingKey;
+};
+
+const base64UrlEncode = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const base64UrlDecode = (value: string) => {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(padded);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+export const signAccessToken = async (userId: string, sessionId: string) => {
+  const iat = nowInSeconds();
+  const payload: AccessTokenPayload = {
+    sub: userId,
+    sid: sessionId,
+    iat,
+    exp: iat + ACCESS_TOKEN_TTL_SECONDS,
+  };
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(`${header}.${body}`));
+  return {
+    token: `${header}.${body}.${base64UrlEncode(new Uint8Array(signature))}`,
+    expiresAt: payload.exp,
+  };
+};
+
+// Returns the payload of a valid, unexpired token, or null otherwise.
+export const verifyAccessToken = async (token: string): Promise<AccessTokenPayload | null> => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, body, signature] = parts;
+  let valid = false;
+  try {
+    valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      base64UrlDecode(signature),
+      encoder.encode(`${header}.${body}`)
+    );
+  } catch {
+    return null;
+  }
+  if (!valid) return null;
+
+  const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(body))) as AccessTokenPayload;
+  if (typeof payload.exp !== 'number' || payload.exp <= nowInSeconds()) return null;
+  return payload;
+};
+
+// Opaque random token: refresh tokens and invitation links. Only its hash is stored.
+export const generateToken = () => {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+};
+
+export const hashToken = async (token: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const getBearerToken = (req: Request) => {
+  const header = req.headers.get('Authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+};
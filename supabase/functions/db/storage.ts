@@ -0,0 +1,58 @@
+// Where attachment files are kept. The db function only talks to this
+// interface, so a bucket backend can replace the local one without touching
+// the actions. Keys are relative paths such as "<transaction id>/<attachment id>".
+export interface AttachmentStorage {
+  put(key: string, data: Uint8Array): Promise<void>;
+  get(key: string): Promise<Uint8Array>;
+  delete(key: string): Promise<void>;
+}
+
+// Development backend: files are written under a directory on the machine
+// running the function
+export class LocalFileStorage implements AttachmentStorage {
+  constructor(private root: string) {}
+
+  private path(key: string) {
+    if (!/^[\w-]+(\/[\w-]+)*$/.test(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return `${this.root}/${key}`;
+  }
+
+  async put(key: string, data: Uint8Array) {
+    const path = this.path(key);
+    await Deno.mkdir(path.slice(0, path.lastIndexOf('/')), { recursive: true });
+    await Deno.writeFile(path, data);
+  }
+
+  get(key: string) {
+    return Deno.readFile(this.path(key));
+  }
+
+  async delete(key: string) {
+    try {
+      await Deno.remove(this.path(key));
+    } catch (error) {
+      // Already gone is fine; the row pointing to it is being removed anyway
+      if (!(error instanceof Error && error.name === 'NotFound')) throw error;
+    }
+  }
+}
+
+let storage: AttachmentStorage | null = null;
+
+// ATTACHMENT_STORAGE selects the backend; only "local" exists for now, kept
+// in ATTACHMENT_STORAGE_DIR
+export const getAttachmentStorage = (): AttachmentStorage => {
+  if (!storage) {
+    const backend = Deno.env.get('ATTACHMENT_STORAGE') || 'local';
+    switch (backend) {
+      case 'local':
+        storage = new LocalFileStorage(Deno.env.get('ATTACHMENT_STORAGE_DIR') || './attachments');
+        break;
+      default:
+        throw new Error(`Unknown attachment storage: ${backend}`);
+    }
+  }
+  return storage;
+};
@@ -0,0 +1,164 @@
+import { HttpError } from "./permissions.ts";
+import { PAYMENT_METHODS } from "./contacts.ts";
+
+export const TRANSACTION_SORT_FIELDS = ['date', 'due_date', 'amount', 'client_supplier', 'created_at'];
+
+export const TRANSACTION_TYPES = ['income', 'expense'];
+// Stored transaction statuses; "overdue" is derived from the due date
+export const TRANSACTION_STATUSES = ['pending', 'paid', 'cancelled'];
+const FILTER_STATUSES = [...TRANSACTION_STATUSES, 'overdue'];
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+// Cast applied to each sort column when comparing it with a cursor value
+const SORT_CASTS: Record<string, string> = {
+  date: 'date',
+  due_date: 'date',
+  amount: 'numeric',
+  client_supplier: 'text',
+  created_at: 'timestamptz',
+  id: 'uuid',
+};
+
+// Values sent for enum, uuid and date columns are checked here so a bad one
+// is a 400 rather than a failed cast in Postgres
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// As printed by timestamptz::text, e.g. "2026-10-19 14:03:12.123456+00"
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d+)?([+-]\d{2}(:?\d{2})?|Z)?$/;
+
+const CURSOR_VALIDATORS: Record<string, (value: string) => boolean> = {
+  date: (value) => DATE_PATTERN.test(value),
+  numeric: (value) => /^-?\d+(\.\d+)?$/.test(value),
+  text: () => true,
+  timestamptz: (value) => TIMESTAMP_PATTERN.test(value),
+  uuid: (value) => UUID_PATTERN.test(value),
+};
+
+const assertFilter = (valid: boolean, name: string) => {
+  if (!valid) {
+    throw new HttpError(400, `Invalid ${name} filter`, 'invalid_request');
+  }
+};
+
+export interface TransactionFilters {
+  start_date?: string;
+  end_date?: string;
+  type?: string;
+  search?: string;
+  payment_method?: string;
+  category_id?: string;
+  account_id?: string;
+  status?: string;
+}
+
+// Builds the WHERE conditions shared by the listing and the totals. Values
+// are appended to the given array so callers can keep adding parameters.
+export const buildTransactionFilters = (filters: TransactionFilters, values: unknown[]) => {
+  // Entries in the trash are never listed or counted
+  const conditions: string[] = ['deleted_at IS NULL'];
+  const param = (value: unknown, cast = '') => {
+    values.push(value);
+    return `$${values.length}${cast}`;
+  };
+
+  if (filters.start_date) assertFilter(DATE_PATTERN.test(filters.start_date), 'start date');
+  if (filters.end_date) assertFilter(DATE_PATTERN.test(filters.end_date), 'end date');
+  if (filters.type) assertFilter(TRANSACTION_TYPES.includes(filters.type), 'type');
+  if (filters.payment_method) assertFilter(PAYMENT_METHODS.includes(filters.payment_method), 'payment method');
+  if (filters.account_id) assertFilter(UUID_PATTERN.test(filters.account_id), 'account');
+  if (filters.category_id) assertFilter(UUID_PATTERN.test(filters.category_id), 'category');
+  if (filters.status) assertFilter(FILTER_STATUSES.includes(filters.status), 'status');
+
+  if (filters.start_date) conditions.push(`date >= ${param(filters.start_date, '::date')}`);
+  if (filters.end_date) conditions.push(`date <= ${param(filters.end_date, '::date')}`);
+  if (filters.type) conditions.push(`type = ${param(filters.type)}`);
+  if (filters.payment_method) conditions.push(`payment_method = ${param(filters.payment_method)}`);
+  if (filters.account_id) conditions.push(`account_id = ${param(filters.account_id, '::uuid')}`);
+
+  if (filters.search) {
+    const pattern = param(`%${filters.search.replace(/[\\%_]/g, '\\$&')}%`);
+    conditions.push(`(client_supplier ILIKE ${pattern} OR description ILIKE ${pattern})`);
+  }
+
+  // Filtering by a category also matches its subcategories
+  if (filters.category_id) {
+    conditions.push(`category_id IN (
+      WITH RECURSIVE tree AS (
+        SELECT id FROM categories WHERE id = ${param(filters.category_id, '::uuid')}
+        UNION ALL
+        SELECT c.id FROM categories c JOIN tree ON c.parent_id = tree.id
+      )
+      SELECT id FROM tree
+    )`);
+  }
+
+  // "overdue" is not stored: it is a pending entry past its due date
+  if (filters.status === 'overdue') {
+    conditions.push(`status = 'pending' AND due_date < CURRENT_DATE`);
+  } else if (filters.status === 'pending') {
+    conditions.push(`status = 'pending' AND due_date >= CURRENT_DATE`);
+  } else if (filters.status) {
+    conditions.push(`status = ${param(filters.status)}`);
+  }
+
+  return conditions;
+};
+
+// Keyset pagination: rows are ordered by the sort field, then created_at and
+// id as tie breakers, and the cursor holds those values for the last row sent
+export const getSortColumns = (orderBy: string) => {
+  if (!TRANSACTION_SORT_FIELDS.includes(orderBy)) {
+    throw new HttpError(400, 'Invalid sort field', 'invalid_request');
+  }
+  return orderBy === 'created_at' ? ['created_at', 'id'] : [orderBy, 'created_at', 'id'];
+};
+
+// Sort columns are also selected as text so the cursor keeps their full
+// precision (timestamps come back from the driver rounded to milliseconds)
+export const getCursorSelect = (columns: string[]) =>
+  columns.map((column) => `${column}::text AS cursor_${column}`).join(', ');
+
+// Builds the cursor from the last row and strips the cursor_* columns from every row
+export const takePage = (rows: Record<string, unknown>[], columns: string[], limit: number) => {
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor = rows.length > limit
+    ? btoa(encodeURIComponent(JSON.stringify(columns.map((column) => last[`cursor_${column}`]))))
+    : null;
+
+  page.forEach((row) => columns.forEach((column) => delete row[`cursor_${column}`]));
+  return { rows: page, nextCursor };
+};
+
+export const buildCursorCondition = (
+  cursor: string,
+  columns: string[],
+  direction: 'ASC' | 'DESC',
+  values: unknown[]
+) => {
+  let cursorValues: unknown[];
+  try {
+    cursorValues = JSON.parse(decodeURIComponent(atob(cursor)));
+  } catch {
+    throw new HttpError(400, 'Invalid cursor', 'invalid_request');
+  }
+  if (!Array.isArray(cursorValues) || cursorValues.length !== columns.length) {
+    throw new HttpError(400, 'Invalid cursor', 'invalid_request');
+  }
+
+  const valid = columns.every((column, i) => {
+    const value = cursorValues[i];
+    return typeof value === 'string' && CURSOR_VALIDATORS[SORT_CASTS[column]](value);
+  });
+  if (!valid) {
+    throw new HttpError(400, 'Invalid cursor', 'invalid_request');
+  }
+
+  const params = columns.map((column, i) => {
+    values.push(cursorValues[i]);
+    return `$${values.length}::${SORT_CASTS[column]}`;
+  });
+  return `(${columns.join(', ')}) ${direction === 'ASC' ? '>' : '<'} (${params.join(', ')})`;
+};
@@ -0,0 +1,269 @@
+// Time-based one-time passwords (RFC 6238) for two-factor login, as shown by
+// authenticator apps: HMAC-SHA1 over 30 second steps, 6 digits.
+import { Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { HttpError, Permission } from "./permissions.ts";
+import { generateToken, hashToken } from "./session.ts";
+
+export const TOTP_ISSUER = 'Controle de Caixa';
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Steps accepted on each side of the current one, for clock drift
+const TOTP_WINDOW = 1;
+
+// Time a login has to be completed with the second factor, and how many
+// wrong codes it tolerates before the password has to be typed again
+export const CHALLENGE_TTL_SECONDS = 5 * 60;
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+
+// Wrong codes a user can type, across logins, before the second factor is
+// locked for a while. Typing the password again does not reset the count.
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_SECONDS = 15 * 60;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (bytes: Uint8Array) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (value: string) => {
+  let bits = 0;
+  let buffer = 0;
+  const bytes: number[] = [];
+  for (const char of value.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 secret');
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// 160 bit secret, the size recommended for HMAC-SHA1
+export const generateTotpSecret = () => {
+  const bytes = new Uint8Array(20);
+  crypto.getRandomValues(bytes);
+  return base32Encode(bytes);
+};
+
+// Link read by authenticator apps from the QR code
+export const getOtpAuthUrl = (secret: string, accountName: string) => {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+};
+
+const generateTotp = async (key: CryptoKey, step: number) => {
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step >>> 0);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary =
+    ((hmac[offset] & 127) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+// Returns the time step the code belongs to, or null when it matches none in
+// the window. Steps up to lastStep were already used and are refused, so a
+// code cannot be replayed.
+export const verifyTotp = async (secret: string, code: string, lastStep: number | null = null) => {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const current = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastStep !== null && step <= lastStep) continue;
+    if ((await generateTotp(key, step)) === code) return step;
+  }
+  return null;
+};
+
+// Recovery codes look like "k7d2q-9xm4p"; they are compared without case,
+// spaces or dashes
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Replaces the user's recovery codes with new ones and returns them. Only
+// their hashes are stored, so they are shown once.
+export const replaceRecoveryCodes = async (client: Transaction, userId: string) => {
+  await client.queryObject`
+    DELETE FROM user_recovery_codes WHERE user_id = ${userId}::uuid
+  `;
+
+  const codes: string[] = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    const code = `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    codes.push(code);
+    await client.queryObject`
+      INSERT INTO user_recovery_codes (user_id, code_hash)
+      VALUES (${userId}::uuid, ${await hashToken(normalizeRecoveryCode(code))})
+    `;
+  }
+  return codes;
+};
+
+// Uses up a recovery code; false when it does not exist or was already used
+export const consumeRecoveryCode = async (client: Transaction, userId: string, code: string) => {
+  const res = await client.queryObject`
+    UPDATE user_recovery_codes SET used_at = NOW()
+    WHERE user_id = ${userId}::uuid
+      AND code_hash = ${await hashToken(normalizeRecoveryCode(code))}
+      AND used_at IS NULL
+    RETURNING id
+  `;
+  return res.rows.length > 0;
+};
+
+const assertNotLocked = (user: { locked: boolean } | undefined) => {
+  if (user?.locked) {
+    throw new HttpError(429, 'Too many wrong codes, try again later', 'two_factor_locked');
+  }
+};
+
+// Counts a wrong code against the user, locking the second factor once
+// there are too many
+const recordFailedAttempt = async (client: Transaction, userId: string) => {
+  await client.queryObject`
+    UPDATE users
+    SET totp_failed_attempts = CASE
+          WHEN totp_failed_attempts + 1 >= ${MAX_FAILED_ATTEMPTS} THEN 0
+          ELSE totp_failed_attempts + 1
+        END,
+        totp_locked_until = CASE
+          WHEN totp_failed_attempts + 1 >= ${MAX_FAILED_ATTEMPTS} THEN NOW() + make_interval(secs => ${LOCKOUT_SECONDS})
+          ELSE totp_locked_until
+        END
+    WHERE id = ${userId}::uuid
+  `;
+};
+
+// Checks a code typed at login or when managing 2FA: a TOTP code from the
+// app or, when allowed, one of the recovery codes. A wrong code is counted
+// against the user, so the caller must save the changes before refusing it.
+export const verifySecondFactor = async (
+  client: Transaction,
+  userId: string,
+  code: unknown,
+  { allowRecoveryCode }: { allowRecoveryCode: boolean }
+) => {
+  const res = await client.queryObject<{ totp_secret: string | null; totp_last_step: number | null; locked: boolean }>`
+    SELECT totp_secret, totp_last_step, COALESCE(totp_locked_until > NOW(), false) AS locked
+    FROM users WHERE id = ${userId}::uuid
+  `;
+  const user = res.rows[0];
+  if (!user?.totp_secret) {
+    throw new HttpError(400, 'Two-factor authentication is not enabled', 'two_factor_disabled');
+  }
+  assertNotLocked(user);
+
+  const value = String(code ?? '').trim();
+  let valid = false;
+  const step = await verifyTotp(user.totp_secret, value.replace(/\s/g, ''), user.totp_last_step);
+  if (step !== null) {
+    // Conditional so two requests racing with the same code cannot both pass
+    const claimed = await client.queryObject`
+      UPDATE users SET totp_last_step = ${step}
+      WHERE id = ${userId}::uuid AND (totp_last_step IS NULL OR totp_last_step < ${step})
+      RETURNING id
+    `;
+    valid = claimed.rows.length > 0;
+  } else if (allowRecoveryCode) {
+    valid = await consumeRecoveryCode(client, userId, value);
+  }
+
+  if (valid) {
+    await client.queryObject`
+      UPDATE users SET totp_failed_attempts = 0 WHERE id = ${userId}::uuid
+    `;
+  } else {
+    await recordFailedAttempt(client, userId);
+  }
+  return valid;
+};
+
+// Starts the second step of a login whose password matched. The returned
+// token stands in for the password until the code is checked. Refused while
+// the user is locked out for wrong codes.
+export const createLoginChallenge = async (client: Transaction, userId: string) => {
+  const res = await client.queryObject<{ locked: boolean }>`
+    SELECT COALESCE(totp_locked_until > NOW(), false) AS locked FROM users WHERE id = ${userId}::uuid
+  `;
+  assertNotLocked(res.rows[0]);
+
+  const token = generateToken();
+  await client.queryObject`
+    DELETE FROM two_factor_challenges WHERE user_id = ${userId}::uuid OR expires_at < NOW()
+  `;
+  await client.queryObject`
+    INSERT INTO two_factor_challenges (user_id, token_hash, expires_at)
+    VALUES (
+      ${userId}::uuid,
+      ${await hashToken(token)},
+      NOW() + make_interval(secs => ${CHALLENGE_TTL_SECONDS})
+    )
+  `;
+  return token;
+};
+
+// Counts an attempt on the challenge and returns its user, as long as it has
+// not expired or run out of attempts
+export const claimLoginChallenge = async (client: Transaction, token: unknown) => {
+  if (!token) {
+    throw new HttpError(400, 'Challenge token is required', 'invalid_request');
+  }
+
+  const res = await client.queryObject<{ id: string; user_id: string }>`
+    UPDATE two_factor_challenges SET attempts = attempts + 1
+    WHERE token_hash = ${await hashToken(String(token))}
+      AND expires_at > NOW()
+      AND attempts < ${MAX_CHALLENGE_ATTEMPTS}
+    RETURNING id, user_id
+  `;
+  if (res.rows.length === 0) {
+    throw new HttpError(401, 'Login expired, enter your password again', 'challenge_expired');
+  }
+  return res.rows[0];
+};
+
+// Anyone who can edit entries or manage users: the admin and edit roles, and
+// custom profiles granting either
+export const isTwoFactorRequired = (permissions: Iterable<Permission>) => {
+  const list = [...permissions];
+  return list.includes('edit') || list.includes('manage_users');
+};
@@ -0,0 +1,87 @@
+import { Transaction } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
+import { HttpError } from "./permissions.ts";
+
+export interface ManagedUser {
+  id: string;
+  email: string;
+  full_name: string | null;
+  deactivated_at: string | null;
+  roles: string[];
+}
+
+// Loads a user an admin is about to change. Deleted users are not found,
+// admins cannot deactivate or delete themselves, and only admins can act on
+// another admin, as with assertCanChangeAdminRole.
+export const getManagedUser = async (
+  client: Transaction,
+  caller: { id: string; roles: Array<{ role: string }> },
+  userId: unknown
+) => {
+  if (!userId) {
+    throw new HttpError(400, 'User is required', 'invalid_request');
+  }
+  if (userId === caller.id) {
+    throw new HttpError(400, 'Cannot remove your own user', 'own_user');
+  }
+
+  const res = await client.queryObject<ManagedUser>`
+    SELECT u.id, u.email, u.full_name, u.deactivated_at,
+           COALESCE(array_agg(ur.role::text) FILTER (WHERE ur.role IS NOT NULL), '{}') as roles
+    FROM users u
+    LEFT JOIN user_roles ur ON u.id = ur.user_id
+    WHERE u.id = ${userId}::uuid AND u.deleted_at IS NULL
+    GROUP BY u.id
+  `;
+  if (res.rows.length === 0) {
+    throw new HttpError(404, 'User not found', 'not_found');
+  }
+  const user = res.rows[0];
+  if (user.roles.includes('admin') && !caller.roles.some((r) => r.role === 'admin')) {
+    throw new HttpError(403, 'Only admins can change another admin', 'permission_denied');
+  }
+  return user;
+};
+
+// Refuses to deactivate, delete or demote the only active admin left
+export const assertNotLastAdmin = async (client: Transaction, userId: string) => {
+  const res = await client.queryObject<{ is_admin: boolean; other_admins: number }>`
+    SELECT
+      EXISTS (
+        SELECT 1 FROM user_roles WHERE user_id = ${userId}::uuid AND role = 'admin'
+      ) as is_admin,
+      (
+        SELECT COUNT(DISTINCT ur.user_id)::int
+        FROM user_roles ur
+        JOIN users u ON u.id = ur.user_id
+        WHERE ur.role = 'admin'
+          AND ur.user_id <> ${userId}::uuid
+          AND u.deactivated_at IS NULL
+          AND u.deleted_at IS NULL
+      ) as other_admins
+  `;
+  const { is_admin, other_admins } = res.rows[0];
+  if (is_admin && other_admins === 0) {
+    throw new HttpError(409, 'Cannot remove the last admin', 'last_admin');
+  }
+};
+
+// Logs the user out everywhere: their access tokens stop resolving and their
+// refresh tokens can no longer be used
+export const revokeSessions = async (client: Transaction, userId: string) => {
+  await client.queryObject`
+    UPDATE sessions SET revoked_at = NOW()
+    WHERE user_id = ${userId}::uuid AND revoked_at IS NULL
+  `;
+};
+
+// Only admins can grant or take away the admin role, so the manage users
+// permission of a custom profile cannot be used to become admin
+export const assertCanChangeAdminRole = (
+  caller: { roles: Array<{ role: string }> },
+  wasAdmin: boolean,
+  isAdmin: boolean
+) => {
+  if (wasAdmin !== isAdmin && !caller.roles.some((r) => r.role === 'admin')) {
+    throw new HttpError(403, 'Only admins can grant or revoke the admin role', 'permission_denied');
+  }
+};
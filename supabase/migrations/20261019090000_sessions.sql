@@ -0,0 +1,29 @@
+--
+-- Name: sessions; Type: TABLE; Schema: public; Owner: -
+--
+-- Server-issued sessions for the db edge function. Only the SHA-256 hash of
+-- the refresh token is stored; access tokens reference the session by id.
+--
+
+CREATE TABLE public.sessions (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    refresh_token_hash text NOT NULL,
+    expires_at timestamp with time zone NOT NULL,
+    revoked_at timestamp with time zone,
+    last_used_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.sessions
+    ADD CONSTRAINT sessions_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.sessions
+    ADD CONSTRAINT sessions_refresh_token_hash_key UNIQUE (refresh_token_hash);
+
+ALTER TABLE ONLY public.sessions
+    ADD CONSTRAINT sessions_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE;
+
+CREATE INDEX sessions_user_id_idx ON public.sessions USING btree (user_id);
+
+ALTER TABLE public.sessions ENABLE ROW LEVEL SECURITY;
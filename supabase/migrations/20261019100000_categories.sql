@@ -0,0 +1,71 @@
+--
+-- Name: categories; Type: TABLE; Schema: public; Owner: -
+--
+-- Chart of accounts: hierarchical income and expense categories. A
+-- subcategory always has the same type as its parent.
+--
+
+CREATE TABLE public.categories (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    name text NOT NULL,
+    type public.transaction_type NOT NULL,
+    parent_id uuid,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.categories
+    ADD CONSTRAINT categories_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.categories
+    ADD CONSTRAINT categories_parent_id_fkey FOREIGN KEY (parent_id) REFERENCES public.categories(id) ON DELETE RESTRICT;
+
+CREATE UNIQUE INDEX categories_parent_name_key ON public.categories USING btree (COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), type, lower(name));
+
+CREATE TRIGGER update_categories_updated_at BEFORE UPDATE ON public.categories FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+--
+-- Name: transactions category_id; Type: COLUMN; Schema: public; Owner: -
+--
+
+ALTER TABLE public.transactions
+    ADD COLUMN category_id uuid;
+
+ALTER TABLE ONLY public.transactions
+    ADD CONSTRAINT transactions_category_id_fkey FOREIGN KEY (category_id) REFERENCES public.categories(id) ON DELETE SET NULL;
+
+CREATE INDEX transactions_category_id_idx ON public.transactions USING btree (category_id);
+
+--
+-- Default chart of accounts
+--
+
+WITH income AS (
+    INSERT INTO public.categories (name, type) VALUES
+        ('Vendas', 'income'),
+        ('Serviços', 'income'),
+        ('Outras receitas', 'income')
+    RETURNING id, name
+), expense AS (
+    INSERT INTO public.categories (name, type) VALUES
+        ('Despesas fixas', 'expense'),
+        ('Pessoal', 'expense'),
+        ('Fornecedores', 'expense'),
+        ('Impostos e taxas', 'expense'),
+        ('Outras despesas', 'expense')
+    RETURNING id, name
+)
+INSERT INTO public.categories (name, type, parent_id)
+SELECT child.name, 'expense'::public.transaction_type, expense.id
+FROM expense
+JOIN (VALUES
+    ('Despesas fixas', 'Aluguel'),
+    ('Despesas fixas', 'Energia'),
+    ('Despesas fixas', 'Água'),
+    ('Despesas fixas', 'Internet e telefone'),
+    ('Pessoal', 'Salários'),
+    ('Pessoal', 'Encargos'),
+    ('Pessoal', 'Pró-labore')
+) AS child(parent_name, name) ON child.parent_name = expense.name;
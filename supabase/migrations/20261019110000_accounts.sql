@@ -0,0 +1,91 @@
+--
+-- Name: account_kind; Type: TYPE; Schema: public; Owner: -
+--
+
+CREATE TYPE public.account_kind AS ENUM (
+    'cash',
+    'bank',
+    'digital_wallet'
+);
+
+
+--
+-- Name: accounts; Type: TABLE; Schema: public; Owner: -
+--
+-- Cash registers (caixas), bank accounts and digital wallets. Every
+-- transaction belongs to exactly one account.
+--
+
+CREATE TABLE public.accounts (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    name text NOT NULL,
+    kind public.account_kind NOT NULL,
+    opening_balance numeric(12,2) DEFAULT 0 NOT NULL,
+    archived_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.accounts
+    ADD CONSTRAINT accounts_pkey PRIMARY KEY (id);
+
+CREATE TRIGGER update_accounts_updated_at BEFORE UPDATE ON public.accounts FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+
+-- Existing entries are moved to a default cash register
+INSERT INTO public.accounts (name, kind) VALUES ('Caixa', 'cash');
+
+
+--
+-- Name: transactions account_id; Type: COLUMN; Schema: public; Owner: -
+--
+
+ALTER TABLE public.transactions
+    ADD COLUMN account_id uuid;
+
+UPDATE public.transactions
+SET account_id = (SELECT id FROM public.accounts ORDER BY created_at LIMIT 1);
+
+ALTER TABLE public.transactions
+    ALTER COLUMN account_id SET NOT NULL;
+
+ALTER TABLE ONLY public.transactions
+    ADD CONSTRAINT transactions_account_id_fkey FOREIGN KEY (account_id) REFERENCES public.accounts(id) ON DELETE RESTRICT;
+
+CREATE INDEX transactions_account_id_idx ON public.transactions USING btree (account_id);
+
+
+--
+-- Name: transfers; Type: TABLE; Schema: public; Owner: -
+--
+-- Money moved between two accounts. Transfers change account balances but
+-- are neither income nor expense.
+--
+
+CREATE TABLE public.transfers (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    date date DEFAULT CURRENT_DATE NOT NULL,
+    from_account_id uuid NOT NULL,
+    to_account_id uuid NOT NULL,
+    amount numeric(12,2) NOT NULL,
+    description text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT transfers_amount_check CHECK (amount > 0),
+    CONSTRAINT transfers_distinct_accounts_check CHECK (from_account_id <> to_account_id)
+);
+
+ALTER TABLE ONLY public.transfers
+    ADD CONSTRAINT transfers_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.transfers
+    ADD CONSTRAINT transfers_from_account_id_fkey FOREIGN KEY (from_account_id) REFERENCES public.accounts(id) ON DELETE RESTRICT;
+
+ALTER TABLE ONLY public.transfers
+    ADD CONSTRAINT transfers_to_account_id_fkey FOREIGN KEY (to_account_id) REFERENCES public.accounts(id) ON DELETE RESTRICT;
+
+ALTER TABLE ONLY public.transfers
+    ADD CONSTRAINT transfers_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE;
+
+ALTER TABLE public.transfers ENABLE ROW LEVEL SECURITY;
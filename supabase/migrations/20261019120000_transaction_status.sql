@@ -0,0 +1,33 @@
+--
+-- Name: transaction_status; Type: TYPE; Schema: public; Owner: -
+--
+-- "overdue" is not stored: it is a pending entry whose due date has passed.
+--
+
+CREATE TYPE public.transaction_status AS ENUM (
+    'pending',
+    'paid',
+    'cancelled'
+);
+
+
+--
+-- Name: transactions status, due_date, paid_at; Type: COLUMN; Schema: public; Owner: -
+--
+-- Entries recorded before this migration were already settled on their date.
+--
+
+ALTER TABLE public.transactions
+    ADD COLUMN status public.transaction_status DEFAULT 'paid'::public.transaction_status NOT NULL,
+    ADD COLUMN due_date date,
+    ADD COLUMN paid_at date;
+
+UPDATE public.transactions SET due_date = date, paid_at = date;
+
+ALTER TABLE public.transactions
+    ALTER COLUMN due_date SET NOT NULL;
+
+ALTER TABLE public.transactions
+    ADD CONSTRAINT transactions_paid_at_check CHECK ((status = 'paid') = (paid_at IS NOT NULL));
+
+CREATE INDEX transactions_status_due_date_idx ON public.transactions USING btree (status, due_date);
@@ -0,0 +1,74 @@
+--
+-- Name: recurrence_frequency; Type: TYPE; Schema: public; Owner: -
+--
+
+CREATE TYPE public.recurrence_frequency AS ENUM (
+    'daily',
+    'weekly',
+    'monthly',
+    'yearly'
+);
+
+
+--
+-- Name: recurrences; Type: TABLE; Schema: public; Owner: -
+--
+-- Recurrence rules for rent, salaries, subscriptions... The template fields
+-- are copied into each materialized occurrence. next_index is the index of
+-- the next occurrence to generate; the series ends at end_date or after
+-- occurrence_count occurrences, whichever comes first.
+--
+
+CREATE TABLE public.recurrences (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    frequency public.recurrence_frequency NOT NULL,
+    "interval" integer DEFAULT 1 NOT NULL,
+    start_date date NOT NULL,
+    end_date date,
+    occurrence_count integer,
+    next_index integer DEFAULT 0 NOT NULL,
+    active boolean DEFAULT true NOT NULL,
+    type public.transaction_type NOT NULL,
+    client_supplier text NOT NULL,
+    amount numeric(12,2) NOT NULL,
+    description text,
+    payment_method public.payment_method NOT NULL,
+    category_id uuid,
+    account_id uuid NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT recurrences_interval_check CHECK ("interval" > 0),
+    CONSTRAINT recurrences_occurrence_count_check CHECK (occurrence_count IS NULL OR occurrence_count > 0)
+);
+
+ALTER TABLE ONLY public.recurrences
+    ADD CONSTRAINT recurrences_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.recurrences
+    ADD CONSTRAINT recurrences_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.recurrences
+    ADD CONSTRAINT recurrences_category_id_fkey FOREIGN KEY (category_id) REFERENCES public.categories(id) ON DELETE SET NULL;
+
+ALTER TABLE ONLY public.recurrences
+    ADD CONSTRAINT recurrences_account_id_fkey FOREIGN KEY (account_id) REFERENCES public.accounts(id) ON DELETE RESTRICT;
+
+CREATE TRIGGER update_recurrences_updated_at BEFORE UPDATE ON public.recurrences FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.recurrences ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: transactions recurrence_id, recurrence_index; Type: COLUMN; Schema: public; Owner: -
+--
+
+ALTER TABLE public.transactions
+    ADD COLUMN recurrence_id uuid,
+    ADD COLUMN recurrence_index integer;
+
+ALTER TABLE ONLY public.transactions
+    ADD CONSTRAINT transactions_recurrence_id_fkey FOREIGN KEY (recurrence_id) REFERENCES public.recurrences(id) ON DELETE SET NULL;
+
+ALTER TABLE ONLY public.transactions
+    ADD CONSTRAINT transactions_recurrence_occurrence_key UNIQUE (recurrence_id, recurrence_index);
@@ -0,0 +1,21 @@
+--
+-- Name: transactions installment_group_id, installment_number, installment_count; Type: COLUMN; Schema: public; Owner: -
+--
+-- Installment purchases (parcelamento) are stored as one entry per
+-- installment sharing installment_group_id. installment_number is 1 based,
+-- so an entry shows as "installment_number/installment_count".
+--
+
+ALTER TABLE public.transactions
+    ADD COLUMN installment_group_id uuid,
+    ADD COLUMN installment_number integer,
+    ADD COLUMN installment_count integer;
+
+ALTER TABLE public.transactions
+    ADD CONSTRAINT transactions_installment_check CHECK (
+        (installment_group_id IS NULL AND installment_number IS NULL AND installment_count IS NULL)
+        OR (installment_number BETWEEN 1 AND installment_count)
+    );
+
+ALTER TABLE ONLY public.transactions
+    ADD CONSTRAINT transactions_installment_key UNIQUE (installment_group_id, installment_number);
@@ -0,0 +1,33 @@
+--
+-- Name: audit_log; Type: TABLE; Schema: public; Owner: -
+--
+-- Append-only trail written by the db edge function for every change to a
+-- transaction or to a user's roles. before/after hold the full row as it was
+-- and as it became (NULL on insert and delete respectively). entity_id has no
+-- foreign key so the history outlives deleted rows.
+--
+
+CREATE TABLE public.audit_log (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    actor_id uuid,
+    entity_type text NOT NULL,
+    entity_id uuid NOT NULL,
+    action text NOT NULL,
+    before jsonb,
+    after jsonb,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT audit_log_entity_type_check CHECK (entity_type IN ('transaction', 'user')),
+    CONSTRAINT audit_log_action_check CHECK (action IN ('insert', 'update', 'delete'))
+);
+
+ALTER TABLE ONLY public.audit_log
+    ADD CONSTRAINT audit_log_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.audit_log
+    ADD CONSTRAINT audit_log_actor_id_fkey FOREIGN KEY (actor_id) REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE INDEX audit_log_entity_idx ON public.audit_log USING btree (entity_type, entity_id, created_at);
+
+CREATE INDEX audit_log_created_at_idx ON public.audit_log USING btree (created_at DESC, id DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
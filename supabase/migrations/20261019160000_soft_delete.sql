@@ -0,0 +1,29 @@
+--
+-- Name: transactions deleted_at, deleted_by; Type: COLUMN; Schema: public; Owner: -
+--
+-- Deleting a transaction only moves it to the trash: deleted_at is set and
+-- the row is left out of every listing, total and balance. Admins can
+-- restore it or purge it for good from the trash.
+--
+
+ALTER TABLE public.transactions
+    ADD COLUMN deleted_at timestamp with time zone,
+    ADD COLUMN deleted_by uuid;
+
+ALTER TABLE ONLY public.transactions
+    ADD CONSTRAINT transactions_deleted_by_fkey FOREIGN KEY (deleted_by) REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE INDEX transactions_deleted_at_idx ON public.transactions USING btree (deleted_at) WHERE (deleted_at IS NOT NULL);
+
+--
+-- Name: audit_log audit_log_action_check; Type: CONSTRAINT; Schema: public; Owner: -
+--
+-- "delete" now moves an entry to the trash; "restore" and "purge" record it
+-- leaving the trash.
+--
+
+ALTER TABLE public.audit_log
+    DROP CONSTRAINT audit_log_action_check;
+
+ALTER TABLE public.audit_log
+    ADD CONSTRAINT audit_log_action_check CHECK (action IN ('insert', 'update', 'delete', 'restore', 'purge'));
@@ -0,0 +1,22 @@
+--
+-- Name: closed_periods; Type: TABLE; Schema: public; Owner: -
+--
+-- Months closed by the accountant. month is the first day of the month;
+-- transactions dated in a closed month cannot be inserted, edited or
+-- deleted until an admin reopens it.
+--
+
+CREATE TABLE public.closed_periods (
+    month date NOT NULL,
+    closed_by uuid,
+    closed_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT closed_periods_month_check CHECK (month = date_trunc('month', month)::date)
+);
+
+ALTER TABLE ONLY public.closed_periods
+    ADD CONSTRAINT closed_periods_pkey PRIMARY KEY (month);
+
+ALTER TABLE ONLY public.closed_periods
+    ADD CONSTRAINT closed_periods_closed_by_fkey FOREIGN KEY (closed_by) REFERENCES public.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.closed_periods ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,58 @@
+--
+-- Name: contacts; Type: TABLE; Schema: public; Owner: -
+--
+-- Clients and suppliers. document holds the CPF (11 digits) or CNPJ (14
+-- digits) without punctuation; its check digits are validated by the db
+-- function. Transactions keep client_supplier as typed, and point to the
+-- contact when one was picked.
+--
+
+CREATE TABLE public.contacts (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    name text NOT NULL,
+    document text,
+    phone text,
+    email text,
+    default_payment_method public.payment_method,
+    notes text,
+    created_by uuid,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT contacts_name_check CHECK (char_length(name) BETWEEN 1 AND 100),
+    CONSTRAINT contacts_document_check CHECK (document ~ '^([0-9]{11}|[0-9]{14})$')
+);
+
+ALTER TABLE ONLY public.contacts
+    ADD CONSTRAINT contacts_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.contacts
+    ADD CONSTRAINT contacts_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX contacts_document_key ON public.contacts USING btree (document) WHERE (document IS NOT NULL);
+
+CREATE INDEX contacts_name_idx ON public.contacts USING btree (lower(name));
+
+CREATE TRIGGER update_contacts_updated_at BEFORE UPDATE ON public.contacts FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.contacts ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: transactions contact_id, recurrences contact_id; Type: COLUMN; Schema: public; Owner: -
+--
+-- Deleting a contact only unlinks its entries, which keep the name typed.
+--
+
+ALTER TABLE public.transactions
+    ADD COLUMN contact_id uuid;
+
+ALTER TABLE ONLY public.transactions
+    ADD CONSTRAINT transactions_contact_id_fkey FOREIGN KEY (contact_id) REFERENCES public.contacts(id) ON DELETE SET NULL;
+
+CREATE INDEX transactions_contact_id_idx ON public.transactions USING btree (contact_id);
+
+ALTER TABLE public.recurrences
+    ADD COLUMN contact_id uuid;
+
+ALTER TABLE ONLY public.recurrences
+    ADD CONSTRAINT recurrences_contact_id_fkey FOREIGN KEY (contact_id) REFERENCES public.contacts(id) ON DELETE SET NULL;
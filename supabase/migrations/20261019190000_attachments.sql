@@ -0,0 +1,50 @@
+--
+-- Name: attachments; Type: TABLE; Schema: public; Owner: -
+--
+-- Receipts and invoices (images or PDFs) attached to a transaction. The file
+-- itself lives in the attachment storage under storage_key; this row only
+-- describes it.
+--
+
+CREATE TABLE public.attachments (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    transaction_id uuid NOT NULL,
+    file_name text NOT NULL,
+    content_type text NOT NULL,
+    size integer NOT NULL,
+    storage_key text NOT NULL,
+    uploaded_by uuid,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT attachments_size_check CHECK (size > 0)
+);
+
+ALTER TABLE ONLY public.attachments
+    ADD CONSTRAINT attachments_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.attachments
+    ADD CONSTRAINT attachments_storage_key_key UNIQUE (storage_key);
+
+ALTER TABLE ONLY public.attachments
+    ADD CONSTRAINT attachments_transaction_id_fkey FOREIGN KEY (transaction_id) REFERENCES public.transactions(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.attachments
+    ADD CONSTRAINT attachments_uploaded_by_fkey FOREIGN KEY (uploaded_by) REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE INDEX attachments_transaction_id_idx ON public.attachments USING btree (transaction_id);
+
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: audit_log audit_log_action_check; Type: CONSTRAINT; Schema: public; Owner: -
+--
+-- Attaching and removing a file are recorded on the transaction, with the
+-- attachment row as after or before.
+--
+
+ALTER TABLE public.audit_log
+    DROP CONSTRAINT audit_log_action_check;
+
+ALTER TABLE public.audit_log
+    ADD CONSTRAINT audit_log_action_check
+    CHECK (action IN ('insert', 'update', 'delete', 'restore', 'purge', 'attach', 'detach'));
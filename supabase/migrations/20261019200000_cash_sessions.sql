@@ -0,0 +1,65 @@
+--
+-- Name: cash_sessions; Type: TABLE; Schema: public; Owner: -
+--
+-- A day at the till (abertura/fechamento de caixa) of a cash account. Counts
+-- map each denomination, in reais (e.g. "50" or "0.25"), to the number of
+-- notes or coins counted. expected_amount is the opening amount plus the cash
+-- entries recorded while the session was open; difference is the quebra de
+-- caixa, counted minus expected. Both are frozen when the session is closed.
+--
+
+CREATE TABLE public.cash_sessions (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    account_id uuid NOT NULL,
+    opened_by uuid,
+    opened_at timestamp with time zone DEFAULT now() NOT NULL,
+    opening_counts jsonb DEFAULT '{}'::jsonb NOT NULL,
+    opening_amount numeric(12,2) NOT NULL,
+    closed_by uuid,
+    closed_at timestamp with time zone,
+    closing_counts jsonb,
+    closing_amount numeric(12,2),
+    expected_amount numeric(12,2),
+    difference numeric(12,2),
+    notes text,
+    CONSTRAINT cash_sessions_opening_amount_check CHECK (opening_amount >= 0),
+    CONSTRAINT cash_sessions_closing_check CHECK (
+        (closed_at IS NULL AND closing_amount IS NULL AND expected_amount IS NULL AND difference IS NULL)
+        OR (closed_at IS NOT NULL AND closing_amount >= 0 AND expected_amount IS NOT NULL AND difference IS NOT NULL)
+    )
+);
+
+ALTER TABLE ONLY public.cash_sessions
+    ADD CONSTRAINT cash_sessions_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.cash_sessions
+    ADD CONSTRAINT cash_sessions_account_id_fkey FOREIGN KEY (account_id) REFERENCES public.accounts(id);
+
+ALTER TABLE ONLY public.cash_sessions
+    ADD CONSTRAINT cash_sessions_opened_by_fkey FOREIGN KEY (opened_by) REFERENCES public.users(id) ON DELETE SET NULL;
+
+ALTER TABLE ONLY public.cash_sessions
+    ADD CONSTRAINT cash_sessions_closed_by_fkey FOREIGN KEY (closed_by) REFERENCES public.users(id) ON DELETE SET NULL;
+
+-- At most one open session per account
+CREATE UNIQUE INDEX cash_sessions_open_key ON public.cash_sessions USING btree (account_id) WHERE (closed_at IS NULL);
+
+CREATE INDEX cash_sessions_opened_at_idx ON public.cash_sessions USING btree (opened_at DESC);
+
+ALTER TABLE public.cash_sessions ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: transactions cash_session_id; Type: COLUMN; Schema: public; Owner: -
+--
+-- Paid cash (dinheiro) entries of an account are linked to its open session
+-- when they are recorded or settled.
+--
+
+ALTER TABLE public.transactions
+    ADD COLUMN cash_session_id uuid;
+
+ALTER TABLE ONLY public.transactions
+    ADD CONSTRAINT transactions_cash_session_id_fkey FOREIGN KEY (cash_session_id) REFERENCES public.cash_sessions(id);
+
+CREATE INDEX transactions_cash_session_id_idx ON public.transactions USING btree (cash_session_id);
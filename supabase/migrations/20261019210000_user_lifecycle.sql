@@ -0,0 +1,16 @@
+--
+-- Name: users deactivated_at, deleted_at; Type: COLUMN; Schema: public; Owner: -
+--
+-- A deactivated user keeps their account but can no longer log in; an admin
+-- can reactivate it. Deleting a user removes their email, password and roles
+-- but keeps the row, so the transactions, transfers and audit entries they
+-- recorded stay attributed to their name.
+--
+
+ALTER TABLE public.users
+    ADD COLUMN deactivated_at timestamp with time zone,
+    ADD COLUMN deleted_at timestamp with time zone;
+
+ALTER TABLE public.users
+    ALTER COLUMN email DROP NOT NULL,
+    ALTER COLUMN password_hash DROP NOT NULL;
@@ -0,0 +1,52 @@
+--
+-- Name: permission_profiles; Type: TABLE; Schema: public; Owner: -
+--
+-- Custom permission profiles defined by admins from granular permissions.
+-- A user's permissions are the union of their roles (user_roles, which may
+-- hold several per user) and of the profiles assigned to them.
+--
+
+CREATE TABLE public.permission_profiles (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    name text NOT NULL,
+    permissions text[] DEFAULT '{}'::text[] NOT NULL,
+    created_by uuid,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT permission_profiles_permissions_check CHECK (
+        permissions <@ ARRAY['view', 'insert_income', 'insert_expense', 'edit', 'delete', 'export', 'manage_users', 'close_periods']::text[]
+    )
+);
+
+ALTER TABLE ONLY public.permission_profiles
+    ADD CONSTRAINT permission_profiles_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.permission_profiles
+    ADD CONSTRAINT permission_profiles_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX permission_profiles_name_key ON public.permission_profiles USING btree (lower(name));
+
+ALTER TABLE public.permission_profiles ENABLE ROW LEVEL SECURITY;
+
+--
+-- Name: user_permission_profiles; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.user_permission_profiles (
+    user_id uuid NOT NULL,
+    profile_id uuid NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.user_permission_profiles
+    ADD CONSTRAINT user_permission_profiles_pkey PRIMARY KEY (user_id, profile_id);
+
+ALTER TABLE ONLY public.user_permission_profiles
+    ADD CONSTRAINT user_permission_profiles_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.user_permission_profiles
+    ADD CONSTRAINT user_permission_profiles_profile_id_fkey FOREIGN KEY (profile_id) REFERENCES public.permission_profiles(id) ON DELETE CASCADE;
+
+CREATE INDEX user_permission_profiles_profile_id_idx ON public.user_permission_profiles USING btree (profile_id);
+
+ALTER TABLE public.user_permission_profiles ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,74 @@
+--
+-- Name: app_settings; Type: TABLE; Schema: public; Owner: -
+--
+-- System wide settings changed by admins, kept in a single row.
+-- require_signup_approval puts self-signups in a pending queue until an
+-- admin approves them; invited users are never held.
+--
+
+CREATE TABLE public.app_settings (
+    id boolean DEFAULT true NOT NULL,
+    require_signup_approval boolean DEFAULT false NOT NULL,
+    updated_by uuid,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT app_settings_single_row CHECK (id)
+);
+
+ALTER TABLE ONLY public.app_settings
+    ADD CONSTRAINT app_settings_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.app_settings
+    ADD CONSTRAINT app_settings_updated_by_fkey FOREIGN KEY (updated_by) REFERENCES public.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.app_settings DEFAULT VALUES;
+
+--
+-- Name: users pending_approval; Type: COLUMN; Schema: public; Owner: -
+--
+-- Set on self-signups while approval is required. Pending users have no
+-- roles and cannot log in; rejecting one deletes the row.
+--
+
+ALTER TABLE public.users
+    ADD COLUMN pending_approval boolean DEFAULT false NOT NULL;
+
+--
+-- Name: invitations; Type: TABLE; Schema: public; Owner: -
+--
+-- Single-use invitation links sent by admins. The link carries a random
+-- token of which only the SHA-256 hash is stored. Signing up with it creates
+-- the account for the invited email with the roles and permission profiles
+-- chosen by the admin.
+--
+
+CREATE TABLE public.invitations (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    email text NOT NULL,
+    token_hash text NOT NULL,
+    roles text[] DEFAULT '{}'::text[] NOT NULL,
+    profile_ids uuid[] DEFAULT '{}'::uuid[] NOT NULL,
+    invited_by uuid,
+    expires_at timestamp with time zone NOT NULL,
+    accepted_at timestamp with time zone,
+    accepted_by uuid,
+    revoked_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.invitations
+    ADD CONSTRAINT invitations_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.invitations
+    ADD CONSTRAINT invitations_token_hash_key UNIQUE (token_hash);
+
+ALTER TABLE ONLY public.invitations
+    ADD CONSTRAINT invitations_invited_by_fkey FOREIGN KEY (invited_by) REFERENCES public.users(id) ON DELETE SET NULL;
+
+ALTER TABLE ONLY public.invitations
+    ADD CONSTRAINT invitations_accepted_by_fkey FOREIGN KEY (accepted_by) REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE INDEX invitations_email_idx ON public.invitations USING btree (lower(email));
+
+ALTER TABLE public.invitations ENABLE ROW LEVEL SECURITY;
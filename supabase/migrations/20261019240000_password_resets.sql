@@ -0,0 +1,34 @@
+--
+-- Name: password_resets; Type: TABLE; Schema: public; Owner: -
+--
+-- Single-use password reset links, emailed when a user forgets their
+-- password or an admin forces a reset (requested_by). As with invitations,
+-- only the SHA-256 hash of the token is stored. A user has at most one
+-- unused link; asking again replaces it.
+--
+
+CREATE TABLE public.password_resets (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    token_hash text NOT NULL,
+    requested_by uuid,
+    expires_at timestamp with time zone NOT NULL,
+    used_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.password_resets
+    ADD CONSTRAINT password_resets_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.password_resets
+    ADD CONSTRAINT password_resets_token_hash_key UNIQUE (token_hash);
+
+ALTER TABLE ONLY public.password_resets
+    ADD CONSTRAINT password_resets_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.password_resets
+    ADD CONSTRAINT password_resets_requested_by_fkey FOREIGN KEY (requested_by) REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE INDEX password_resets_user_id_idx ON public.password_resets USING btree (user_id);
+
+ALTER TABLE public.password_resets ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,80 @@
+--
+-- Name: users two factor; Type: COLUMN; Schema: public; Owner: -
+--
+-- TOTP two-factor authentication. totp_pending_secret holds the secret
+-- shown in the QR code until the user confirms it with a first code; it then
+-- moves to totp_secret and totp_enabled_at is set. totp_last_step is the
+-- last time step accepted, so a code cannot be used twice. Wrong codes are
+-- counted in totp_failed_attempts, across logins; too many lock the second
+-- factor until totp_locked_until.
+--
+
+ALTER TABLE public.users
+    ADD COLUMN totp_secret text,
+    ADD COLUMN totp_pending_secret text,
+    ADD COLUMN totp_enabled_at timestamp with time zone,
+    ADD COLUMN totp_last_step integer,
+    ADD COLUMN totp_failed_attempts integer DEFAULT 0 NOT NULL,
+    ADD COLUMN totp_locked_until timestamp with time zone;
+
+--
+-- Name: app_settings require_two_factor; Type: COLUMN; Schema: public; Owner: -
+--
+-- When set, users who can edit entries or manage users have to enable 2FA
+-- before using the system.
+--
+
+ALTER TABLE public.app_settings
+    ADD COLUMN require_two_factor boolean DEFAULT false NOT NULL;
+
+--
+-- Name: user_recovery_codes; Type: TABLE; Schema: public; Owner: -
+--
+-- Single-use codes that replace a TOTP code when the authenticator is lost.
+-- Only their SHA-256 hashes are stored; the user sees them once.
+--
+
+CREATE TABLE public.user_recovery_codes (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    code_hash text NOT NULL,
+    used_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.user_recovery_codes
+    ADD CONSTRAINT user_recovery_codes_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.user_recovery_codes
+    ADD CONSTRAINT user_recovery_codes_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE;
+
+CREATE INDEX user_recovery_codes_user_id_idx ON public.user_recovery_codes USING btree (user_id);
+
+ALTER TABLE public.user_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+--
+-- Name: two_factor_challenges; Type: TABLE; Schema: public; Owner: -
+--
+-- Logins whose password matched and that wait for the second factor. The
+-- client holds the token; attempts caps the codes tried against it.
+--
+
+CREATE TABLE public.two_factor_challenges (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    token_hash text NOT NULL,
+    attempts integer DEFAULT 0 NOT NULL,
+    expires_at timestamp with time zone NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.two_factor_challenges
+    ADD CONSTRAINT two_factor_challenges_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.two_factor_challenges
+    ADD CONSTRAINT two_factor_challenges_token_hash_key UNIQUE (token_hash);
+
+ALTER TABLE ONLY public.two_factor_challenges
+    ADD CONSTRAINT two_factor_challenges_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE;
+
+ALTER TABLE public.two_factor_challenges ENABLE ROW LEVEL SECURITY;